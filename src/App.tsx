@@ -9,17 +9,25 @@ import { DashboardScreen } from "./pages/DashboardScreen";
 import { NutritionScreen } from "./pages/NutritionScreen";
 import { ProfileScreen } from "./pages/ProfileScreen";
 import { HydrationAlertScreen } from "./pages/HydrationAlertScreen";
-import { Home, Apple, User } from "lucide-react";
+import { RecipeEditorScreen } from "./pages/RecipeEditorScreen";
+import { HistoryScreen } from "./pages/HistoryScreen";
+import { InsightsScreen } from "./pages/InsightsScreen";
+import { EditProfileScreen } from "./pages/EditProfileScreen";
+import { WeightScreen } from "./pages/WeightScreen";
+import { Home, Apple, CalendarDays, User } from "lucide-react";
 import { UserProvider, useUser } from "./contexts/UserContext";
+import { useI18n } from "./utils/useI18n";
 import { BluetoothProvider } from "./contexts/BluetoothContext";
 import { initPWAInstallPrompt } from "./utils/pwa";
 import NotificationPermissionPrompt from "./components/NotificationPermissionPrompt";
+import { Toaster } from "./components/ui/sonner";
 
-type Screen = "auth" | "onboarding" | "profile" | "bluetooth" | "dashboard" | "nutrition" | "userprofile" | "hydration-alert";
-type MainTab = "dashboard" | "nutrition" | "userprofile";
+type Screen = "auth" | "onboarding" | "profile" | "bluetooth" | "dashboard" | "nutrition" | "userprofile" | "hydration-alert" | "recipes" | "insights" | "edit-profile" | "weight";
+type MainTab = "dashboard" | "nutrition" | "history" | "userprofile";
 
 function AppContent() {
   const { userId, setAuth, profile } = useUser();
+  const { m } = useI18n();
   const [currentScreen, setCurrentScreen] = useState<Screen>(() => {
     // Initialize with persisted state or default
     if (userId) {
@@ -97,7 +105,7 @@ function AppContent() {
           >
             <div className="text-4xl">✨</div>
           </motion.div>
-          <p className="text-gray-600">Cargando Lumi...</p>
+          <p className="text-gray-600">{m.app.loading}</p>
         </motion.div>
       </div>
     );
@@ -173,13 +181,32 @@ function AppContent() {
       return <BluetoothScreen onNext={() => handleNext("dashboard")} />;
     }
 
+    if (currentScreen === "recipes") {
+      return <RecipeEditorScreen onBack={() => handleNext("dashboard")} />;
+    }
+
+    if (currentScreen === "insights") {
+      return <InsightsScreen onBack={() => handleNext("dashboard")} />;
+    }
+
+    if (currentScreen === "edit-profile") {
+      return <EditProfileScreen onBack={() => handleNext("dashboard")} />;
+    }
+
+    if (currentScreen === "weight") {
+      return <WeightScreen onBack={() => handleNext("dashboard")} />;
+    }
+
     // Main app with tabs
     if (currentScreen === "dashboard") {
       if (mainTab === "dashboard") return <DashboardScreen />;
-      if (mainTab === "nutrition") return <NutritionScreen />;
+      if (mainTab === "nutrition") return <NutritionScreen onOpenRecipes={() => handleNext("recipes")} />;
+      if (mainTab === "history") return <HistoryScreen onOpenInsights={() => handleNext("insights")} />;
       if (mainTab === "userprofile") return (
         <ProfileScreen 
           onReconnectBluetooth={() => setCurrentScreen("bluetooth")} 
+          onEditProfile={() => handleNext("edit-profile")}
+          onOpenWeight={() => handleNext("weight")}
           onLogout={handleLogout}
         />
       );
@@ -193,6 +220,7 @@ function AppContent() {
   return (
     <div className="h-screen w-screen overflow-hidden bg-white">
       <NotificationPermissionPrompt />
+      <Toaster position="top-center" />
       {/* Main screen container */}
       <div className="relative w-full h-full">
         <AnimatePresence mode="wait" custom={1}>
@@ -221,11 +249,11 @@ function AppContent() {
             transition={{ delay: 0.5, type: "spring" }}
             className="fixed bottom-0 left-0 right-0 z-50 nav-container bg-white/80 backdrop-blur-xl border-t border-gray-200"
           >
-            <div className="flex items-center justify-around max-w-md mx-auto px-6 py-3">
+            <div className="flex items-center justify-around max-w-md mx-auto px-4 py-3">
               {/* Dashboard tab */}
               <motion.button
                 onClick={() => handleTabChange("dashboard")}
-                className={`flex flex-col items-center gap-1 px-6 py-2 rounded-2xl transition-all ${
+                className={`flex flex-col items-center gap-1 px-4 py-2 rounded-2xl transition-all ${
                   mainTab === "dashboard" ? "bg-blue-100" : ""
                 }`}
                 whileTap={{ scale: 0.95 }}
@@ -248,14 +276,14 @@ function AppContent() {
                     mainTab === "dashboard" ? "text-blue-600" : "text-gray-400"
                   }`}
                 >
-                  Home
+                  {m.nav.home}
                 </span>
               </motion.button>
 
               {/* Nutrition tab */}
               <motion.button
                 onClick={() => handleTabChange("nutrition")}
-                className={`flex flex-col items-center gap-1 px-6 py-2 rounded-2xl transition-all ${
+                className={`flex flex-col items-center gap-1 px-4 py-2 rounded-2xl transition-all ${
                   mainTab === "nutrition" ? "bg-pink-100" : ""
                 }`}
                 whileTap={{ scale: 0.95 }}
@@ -278,14 +306,44 @@ function AppContent() {
                     mainTab === "nutrition" ? "text-pink-600" : "text-gray-400"
                   }`}
                 >
-                  Meals
+                  {m.nav.meals}
+                </span>
+              </motion.button>
+
+              {/* History tab */}
+              <motion.button
+                onClick={() => handleTabChange("history")}
+                className={`flex flex-col items-center gap-1 px-4 py-2 rounded-2xl transition-all ${
+                  mainTab === "history" ? "bg-green-100" : ""
+                }`}
+                whileTap={{ scale: 0.95 }}
+              >
+                <div
+                  className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${
+                    mainTab === "history"
+                      ? "bg-gradient-to-br from-green-400 to-blue-500"
+                      : "bg-gray-100"
+                  }`}
+                >
+                  <CalendarDays
+                    className={`w-5 h-5 ${
+                      mainTab === "history" ? "text-white" : "text-gray-400"
+                    }`}
+                  />
+                </div>
+                <span
+                  className={`text-xs ${
+                    mainTab === "history" ? "text-green-600" : "text-gray-400"
+                  }`}
+                >
+                  {m.nav.history}
                 </span>
               </motion.button>
 
               {/* Profile tab */}
               <motion.button
                 onClick={() => handleTabChange("userprofile")}
-                className={`flex flex-col items-center gap-1 px-6 py-2 rounded-2xl transition-all ${
+                className={`flex flex-col items-center gap-1 px-4 py-2 rounded-2xl transition-all ${
                   mainTab === "userprofile" ? "bg-purple-100" : ""
                 }`}
                 whileTap={{ scale: 0.95 }}
@@ -308,7 +366,7 @@ function AppContent() {
                     mainTab === "userprofile" ? "text-purple-600" : "text-gray-400"
                   }`}
                 >
-                  Profile
+                  {m.nav.profile}
                 </span>
               </motion.button>
             </div>
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Dumbbell, Thermometer, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useUser } from "../contexts/UserContext";
+import { useI18n } from "../utils/useI18n";
+import { fromDisplayTemperature, temperatureUnit, toDisplayTemperature } from "../utils/units";
+import { MAX_WORKOUT_MINUTES, WORKOUT_INTENSITIES, WorkoutIntensity, isHotDay } from "../shared/nutritionRules";
+
+// Entrenamientos y temperatura de hoy: suben la meta de agua solo para este día
+export function DayConditionsCard() {
+  const { workouts, temperatureC, waterGoal, addWorkout, removeWorkout, setTemperature, units } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.dayConditions;
+  const [duration, setDuration] = useState("");
+  const [intensity, setIntensity] = useState<WorkoutIntensity>("moderate");
+  const [temperatureDraft, setTemperatureDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTemperatureDraft(temperatureC === null ? "" : String(toDisplayTemperature(temperatureC, units)));
+  }, [temperatureC, units.system]);
+
+  const handleAddWorkout = async () => {
+    const durationMin = Number(duration);
+    if (!Number.isInteger(durationMin) || durationMin <= 0 || durationMin > MAX_WORKOUT_MINUTES) {
+      toast.error(text.durationError(MAX_WORKOUT_MINUTES));
+      return;
+    }
+    setIsSaving(true);
+    const saved = await addWorkout(durationMin, intensity);
+    setIsSaving(false);
+    if (!saved) {
+      toast.error(text.workoutFailed);
+      return;
+    }
+    setDuration("");
+    toast.success(text.workoutSaved);
+  };
+
+  // El valor llega en la unidad del usuario (°C o °F) y se guarda en °C
+  const handleSaveTemperature = async (displayValue: number | null) => {
+    if (displayValue !== null && !Number.isFinite(displayValue)) {
+      toast.error(text.temperatureError);
+      return;
+    }
+    const value = displayValue === null ? null : fromDisplayTemperature(displayValue, units);
+    setIsSaving(true);
+    const saved = await setTemperature(value);
+    setIsSaving(false);
+    if (!saved) {
+      toast.error(text.temperatureFailed);
+      return;
+    }
+    toast.success(value !== null && isHotDay(value) ? text.hotDaySaved : text.temperatureSaved);
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-gray-800">{text.title}</p>
+        {waterGoal.extraMl > 0 && (
+          <p className="text-xs text-blue-600">{text.extraWater(fmt.volume(waterGoal.extraMl))}</p>
+        )}
+      </div>
+
+      {/* Workouts */}
+      <div className="space-y-2">
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <Dumbbell className="w-4 h-4 text-purple-500" />
+          {text.workouts}
+        </p>
+        {workouts.length === 0 ? (
+          <p className="text-xs text-gray-400">{text.noWorkouts}</p>
+        ) : (
+          <div className="space-y-1">
+            {workouts.map((workout) => (
+              <div key={workout.id} className="flex items-center justify-between text-xs text-gray-600">
+                <span>{text.workout(workout.durationMin, m.workouts[workout.intensity])}</span>
+                <button
+                  type="button"
+                  aria-label={text.removeWorkout}
+                  className="text-gray-400 hover:text-gray-600"
+                  onClick={() => void removeWorkout(workout.id)}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          {WORKOUT_INTENSITIES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setIntensity(option)}
+              className={`flex-1 rounded-xl px-2 py-1 text-xs border transition-colors ${
+                intensity === option
+                  ? "bg-purple-100 border-purple-300 text-purple-700"
+                  : "bg-white/60 border-gray-200 text-gray-600"
+              }`}
+            >
+              {m.workouts[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={MAX_WORKOUT_MINUTES}
+            placeholder={text.minutes}
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+          />
+          <Button size="sm" variant="outline" disabled={isSaving || !duration} onClick={handleAddWorkout}>
+            {m.common.add}
+          </Button>
+        </div>
+      </div>
+
+      {/* Temperature */}
+      <div className="space-y-2">
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <Thermometer className="w-4 h-4 text-orange-500" />
+          {text.temperature}
+          {temperatureC !== null && isHotDay(temperatureC) && <span className="text-xs text-orange-500">{text.hotDay}</span>}
+        </p>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder={temperatureUnit(units)}
+            value={temperatureDraft}
+            onChange={(e) => setTemperatureDraft(e.target.value)}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSaving || !temperatureDraft.trim()}
+            onClick={() => handleSaveTemperature(Number(temperatureDraft))}
+          >
+            {m.common.save}
+          </Button>
+          {temperatureC !== null && (
+            <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => handleSaveTemperature(null)}>
+              {m.common.clear}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, ChefHat, Minus, Plus, PlusCircle, Star, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useUser } from "../contexts/UserContext";
+import { Food, FoodPortion, getFoods, scalePortion, searchFoods } from "../utils/foods";
+import { Recipe, getRecipes, recipeToFood } from "../utils/recipes";
+import {
+  CustomFood,
+  createCustomFood,
+  customFoodToFood,
+  deleteCustomFood,
+  getCustomFoods,
+} from "../utils/customFoods";
+import { NutrientAmounts, NUTRIENTS, emptyNutrients } from "../utils/nutrients";
+import { useI18n } from "../utils/useI18n";
+
+// Alimento elegido en el buscador, con la porción y cantidad seleccionadas
+export interface FoodSelection {
+  food: Food;
+  portion: FoodPortion;
+  portionLabel: string; // porción en las unidades del usuario, ej. "1 taza (7 oz)"
+  quantity: number;
+  nutrients: NutrientAmounts; // nutrientes de la porción × cantidad
+}
+
+interface FoodSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetName: string; // comida o receta a la que se agrega el alimento
+  includeRecipes?: boolean;
+  onAdd: (selection: FoodSelection) => void;
+}
+
+type View = "search" | "portion" | "create";
+
+// Buscador de alimentos: base de datos incluida + alimentos personalizados del usuario
+// (y sus recetas, al registrar una comida)
+export function FoodSearchDialog({
+  open,
+  onOpenChange,
+  targetName,
+  includeRecipes = false,
+  onAdd,
+}: FoodSearchDialogProps) {
+  const { userId, accessToken } = useUser();
+  const { m, fmt, language } = useI18n();
+  const text = m.foodSearch;
+  const [view, setView] = useState<View>("search");
+  const [query, setQuery] = useState("");
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [selected, setSelected] = useState<Food | null>(null);
+  const [portionIndex, setPortionIndex] = useState(0);
+  const [quantity, setQuantity] = useState(1);
+
+  // Cargar los alimentos personalizados (y recetas) al abrir
+  useEffect(() => {
+    if (!open) return;
+    setView("search");
+    setQuery("");
+    if (userId && accessToken) {
+      getCustomFoods(userId, accessToken).then(setCustomFoods);
+      if (includeRecipes) {
+        getRecipes(userId, accessToken).then(setRecipes);
+      }
+    }
+  }, [open]);
+
+  const recipeResults = useMemo(
+    () => searchFoods(query, recipes.map((recipe) => recipeToFood(recipe, text.recipePortion))),
+    [query, recipes, text.recipePortion]
+  );
+
+  const customResults = useMemo(
+    () => searchFoods(query, customFoods.map(customFoodToFood)),
+    [query, customFoods]
+  );
+  const results = useMemo(() => searchFoods(query, getFoods(language)), [query, language]);
+
+  const selectFood = (food: Food) => {
+    setSelected(food);
+    setPortionIndex(0);
+    setQuantity(1);
+    setView("portion");
+  };
+
+  const handleAdd = () => {
+    if (!selected) return;
+    const portion = selected.portions[portionIndex];
+    onAdd({
+      food: selected,
+      portion,
+      portionLabel: fmt.portion(portion),
+      quantity,
+      nutrients: scalePortion(portion, quantity),
+    });
+    onOpenChange(false);
+  };
+
+  const handleDeleteCustom = async (food: Food) => {
+    if (!userId || !accessToken) return;
+    if (await deleteCustomFood(userId, accessToken, food.id)) {
+      setCustomFoods((prev) => prev.filter((f) => f.id !== food.id));
+      setView("search");
+    }
+  };
+
+  const handleCreated = (custom: CustomFood) => {
+    setCustomFoods((prev) => [...prev, custom]);
+    selectFood(customFoodToFood(custom));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white overflow-hidden p-0 max-h-[85vh] flex flex-col">
+        <DialogHeader className="px-4 pt-4">
+          <DialogTitle className="text-gray-800">{text.title(targetName)}</DialogTitle>
+          <DialogDescription>{text.description}</DialogDescription>
+        </DialogHeader>
+
+        {view === "search" && (
+          <Command shouldFilter={false} className="bg-white">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder={text.placeholder}
+            />
+            <CommandList className="max-h-[50vh]">
+              {recipeResults.length > 0 && (
+                <CommandGroup heading={text.myRecipes}>
+                  {recipeResults.map((food) => (
+                    <FoodItem key={food.id} food={food} onSelect={selectFood} />
+                  ))}
+                </CommandGroup>
+              )}
+              {customResults.length > 0 && (
+                <CommandGroup heading={text.myFoods}>
+                  {customResults.map((food) => (
+                    <FoodItem key={food.id} food={food} onSelect={selectFood} />
+                  ))}
+                </CommandGroup>
+              )}
+              {results.length > 0 && (
+                <CommandGroup heading={text.foods}>
+                  {results.map((food) => (
+                    <FoodItem key={food.id} food={food} onSelect={selectFood} />
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandGroup forceMount>
+                <CommandItem value="__create__" onSelect={() => setView("create")}>
+                  <PlusCircle className="text-pink-500" />
+                  {text.create(query.trim())}
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        )}
+
+        {view === "portion" && selected && (
+          <div className="px-4 pb-4 space-y-4 overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <Button size="sm" variant="ghost" className="px-2" onClick={() => setView("search")}>
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                {m.common.back}
+              </Button>
+              {selected.custom && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="px-2 text-gray-400 hover:text-red-500"
+                  onClick={() => handleDeleteCustom(selected)}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  {m.common.delete}
+                </Button>
+              )}
+            </div>
+
+            <p className="text-gray-800">{selected.name}</p>
+
+            <div className="flex flex-wrap gap-2">
+              {selected.portions.map((portion, index) => (
+                <button
+                  key={portion.label}
+                  type="button"
+                  onClick={() => setPortionIndex(index)}
+                  className={`rounded-full px-3 py-1 text-xs border ${
+                    index === portionIndex
+                      ? "bg-pink-100 border-pink-300 text-pink-700"
+                      : "bg-gray-50 border-gray-100 text-gray-500"
+                  }`}
+                >
+                  {fmt.portion(portion)}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-gray-500">{text.quantity}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 rounded-full"
+                onClick={() => setQuantity((q) => Math.max(0.5, q - 0.5))}
+              >
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="text-sm min-w-[32px] text-center">{quantity}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0 rounded-full"
+                onClick={() => setQuantity((q) => Math.min(10, q + 0.5))}
+              >
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+
+            <NutrientPreview nutrients={scalePortion(selected.portions[portionIndex], quantity)} />
+
+            <Button onClick={handleAdd} className="w-full bg-gradient-to-r from-pink-400 to-green-500 text-white">
+              {m.common.add}
+            </Button>
+          </div>
+        )}
+
+        {view === "create" && (
+          <CustomFoodForm
+            initialName={query.trim()}
+            onCancel={() => setView("search")}
+            onCreated={handleCreated}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FoodItem({ food, onSelect }: { food: Food; onSelect: (food: Food) => void }) {
+  const { m, fmt } = useI18n();
+  const portion = food.portions[0];
+  return (
+    <CommandItem value={food.id} onSelect={() => onSelect(food)}>
+      {food.custom && <Star className="text-yellow-500" />}
+      {food.recipe && <ChefHat className="text-pink-500" />}
+      <div className="flex-1">
+        <p className="text-sm text-gray-800">{food.name}</p>
+        <p className="text-xs text-gray-400">
+          {fmt.portion(portion)} ·{" "}
+          {m.common.proteinAndFiber(
+            fmt.nutrient("protein", portion.nutrients.protein),
+            fmt.nutrient("fiber", portion.nutrients.fiber)
+          )}
+        </p>
+      </div>
+    </CommandItem>
+  );
+}
+
+export function NutrientPreview({ nutrients }: { nutrients: NutrientAmounts }) {
+  const { m, fmt } = useI18n();
+  return (
+    <div className="grid grid-cols-3 gap-2 rounded-2xl bg-gray-50 p-3">
+      {NUTRIENTS.map((nutrient) => (
+        <div key={nutrient.key}>
+          <p className="text-[11px] text-gray-500">{m.nutrients[nutrient.key]}</p>
+          <p className="text-sm text-gray-700">{fmt.nutrient(nutrient.key, nutrients[nutrient.key])}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CustomFoodFormProps {
+  initialName: string;
+  onCancel: () => void;
+  onCreated: (food: CustomFood) => void;
+}
+
+function CustomFoodForm({ initialName, onCancel, onCreated }: CustomFoodFormProps) {
+  const { userId, accessToken } = useUser();
+  const { m } = useI18n();
+  const text = m.foodSearch;
+  const [name, setName] = useState(initialName);
+  const [portionLabel, setPortionLabel] = useState(text.defaultPortion);
+  const [nutrients, setNutrients] = useState<NutrientAmounts>(emptyNutrients());
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!userId || !accessToken) return;
+    if (!name.trim() || !portionLabel.trim()) {
+      setError(text.errors.required);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await createCustomFood(userId, accessToken, {
+      name: name.trim(),
+      portionLabel: portionLabel.trim(),
+      nutrients,
+    });
+    setSaving(false);
+
+    if (saved) {
+      onCreated(saved);
+    } else {
+      setError(text.errors.saveFailed);
+    }
+  };
+
+  return (
+    <div className="px-4 pb-4 space-y-3 overflow-y-auto">
+      <Button size="sm" variant="ghost" className="px-2" onClick={onCancel}>
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        {m.common.back}
+      </Button>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <p className="text-xs text-gray-600 mb-1">{text.name}</p>
+          <Input value={name} maxLength={60} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div className="col-span-2">
+          <p className="text-xs text-gray-600 mb-1">{text.portion}</p>
+          <Input value={portionLabel} maxLength={40} onChange={(e) => setPortionLabel(e.target.value)} />
+        </div>
+        {NUTRIENTS.map((nutrient) => (
+          <div key={nutrient.key}>
+            <p className="text-xs text-gray-600 mb-1">{m.common.withUnit(m.nutrients[nutrient.key], nutrient.unit)}</p>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={nutrients[nutrient.key] || ""}
+              onChange={(e) =>
+                setNutrients((prev) => ({ ...prev, [nutrient.key]: Math.max(0, Number(e.target.value) || 0) }))
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <Button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full bg-gradient-to-r from-pink-400 to-green-500 text-white"
+      >
+        {saving ? m.common.saving : text.saveFood}
+      </Button>
+    </div>
+  );
+}
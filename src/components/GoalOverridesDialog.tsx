@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useUser } from "../contexts/UserContext";
+import { getNutrient } from "../utils/nutrients";
+import { UnitPreferences, fromDisplayVolume, toDisplayVolume, volumeUnit } from "../utils/units";
+import { Messages } from "../locales";
+import { useI18n } from "../utils/useI18n";
+import { GoalOverrides, OVERRIDABLE_GOALS, OverridableGoal, calculateDailyNeeds } from "../shared/nutritionRules";
+
+interface GoalOverridesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function goalLabel(goal: OverridableGoal, units: UnitPreferences, m: Messages): string {
+  if (goal === "waterMl") return m.goals.water(volumeUnit(units));
+  return m.common.withUnit(m.nutrients[goal], getNutrient(goal).unit);
+}
+
+// Metas manuales (p. ej. indicadas por un médico): un campo vacío usa la meta calculada.
+// El agua se escribe en la unidad del usuario y se guarda en ml.
+export function GoalOverridesDialog({ open, onOpenChange }: GoalOverridesDialogProps) {
+  const { profile, setGoalOverrides, units } = useUser();
+  const { m } = useI18n();
+  const [drafts, setDrafts] = useState<Partial<Record<OverridableGoal, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDrafts(
+      Object.fromEntries(
+        Object.entries(profile?.goalOverrides ?? {}).map(([goal, value]) => [
+          goal,
+          String(goal === "waterMl" ? toDisplayVolume(value, units) : value),
+        ])
+      )
+    );
+  }, [open, profile, units.system]);
+
+  if (!profile) return null;
+
+  // Metas que saldrían de la guía, como referencia
+  const computed = calculateDailyNeeds({ ...profile, goalOverrides: undefined });
+
+  const save = async (goalOverrides: GoalOverrides) => {
+    setIsSaving(true);
+    const saved = await setGoalOverrides(goalOverrides);
+    setIsSaving(false);
+    if (!saved) {
+      toast.error(m.goals.saveFailed);
+      return;
+    }
+    toast.success(
+      Object.keys(goalOverrides).length > 0 ? m.goals.saved : m.goals.reset
+    );
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    const goalOverrides: GoalOverrides = {};
+    for (const goal of OVERRIDABLE_GOALS) {
+      const draft = drafts[goal]?.trim();
+      if (!draft) continue;
+      const value = Number(draft);
+      if (!(value > 0)) {
+        toast.error(m.goals.invalid(goalLabel(goal, units, m)));
+        return;
+      }
+      goalOverrides[goal] = goal === "waterMl" ? fromDisplayVolume(value, units) : value;
+    }
+    void save(goalOverrides);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gray-800">{m.goals.title}</DialogTitle>
+          <DialogDescription>{m.goals.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {OVERRIDABLE_GOALS.map((goal) => (
+            <label key={goal} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-gray-600">{goalLabel(goal, units, m)}</span>
+              <Input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                className="w-28 text-right"
+                placeholder={String(goal === "waterMl" ? toDisplayVolume(computed.waterMl, units) : computed[goal])}
+                value={drafts[goal] ?? ""}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [goal]: e.target.value }))}
+              />
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" disabled={isSaving} onClick={() => void save({})}>
+            {m.goals.useCalculated}
+          </Button>
+          <Button
+            disabled={isSaving}
+            onClick={handleSave}
+            className="bg-gradient-to-r from-purple-400 to-pink-400 text-white"
+          >
+            {m.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { LANGUAGES } from "../shared/i18n";
+import { useI18n } from "../utils/useI18n";
+
+// Selector de idioma: se guarda en el perfil, o en el dispositivo si aún no hay sesión
+export function LanguagePicker({ className = "" }: { className?: string }) {
+  const { m, language, setLanguage } = useI18n();
+
+  return (
+    <div className={`grid grid-cols-2 gap-1 bg-gray-100 rounded-xl p-1 ${className}`} role="group" aria-label={m.language.title}>
+      {LANGUAGES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          onClick={() => option !== language && setLanguage(option)}
+          aria-pressed={language === option}
+          className={`rounded-lg px-3 py-1 text-xs transition-all ${
+            language === option ? "bg-white text-teal-600 shadow-sm" : "text-gray-500"
+          }`}
+        >
+          {m.language.names[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { Coffee, Sun, Moon, Apple, Cookie, Sandwich, Salad, CupSoda, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  MealSlot,
+  MealSlotIcon,
+  MAX_MEAL_SLOTS,
+  createMealSlotId,
+  sortMealSlots,
+  validateMealSlots,
+} from "../utils/mealSlots";
+import { useI18n } from "../utils/useI18n";
+
+// Ícono y colores de cada comida según su ícono configurado
+export const MEAL_SLOT_STYLES: Record<
+  MealSlotIcon,
+  { Icon: typeof Coffee; gradientFrom: string; gradientTo: string }
+> = {
+  coffee: { Icon: Coffee, gradientFrom: "from-orange-400", gradientTo: "to-yellow-400" },
+  sun: { Icon: Sun, gradientFrom: "from-yellow-400", gradientTo: "to-amber-400" },
+  moon: { Icon: Moon, gradientFrom: "from-indigo-400", gradientTo: "to-purple-400" },
+  apple: { Icon: Apple, gradientFrom: "from-red-400", gradientTo: "to-pink-400" },
+  cookie: { Icon: Cookie, gradientFrom: "from-amber-400", gradientTo: "to-orange-400" },
+  sandwich: { Icon: Sandwich, gradientFrom: "from-lime-400", gradientTo: "to-green-400" },
+  salad: { Icon: Salad, gradientFrom: "from-green-400", gradientTo: "to-emerald-400" },
+  cup: { Icon: CupSoda, gradientFrom: "from-sky-400", gradientTo: "to-blue-400" },
+};
+
+interface MealSlotsEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slots: MealSlot[];
+  dayStartTime: string;
+  dayEndTime: string;
+  onSave: (slots: MealSlot[]) => Promise<void>;
+}
+
+export function MealSlotsEditor({
+  open,
+  onOpenChange,
+  slots,
+  dayStartTime,
+  dayEndTime,
+  onSave,
+}: MealSlotsEditorProps) {
+  const { m } = useI18n();
+  const text = m.mealSlots.editor;
+  const [draft, setDraft] = useState<MealSlot[]>(slots);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Reiniciar el borrador cada vez que se abre el editor
+  useEffect(() => {
+    if (open) {
+      setDraft(slots);
+      setError(null);
+    }
+  }, [open]);
+
+  const updateSlot = (id: string, changes: Partial<MealSlot>) => {
+    setDraft((prev) => prev.map((slot) => (slot.id === id ? { ...slot, ...changes } : slot)));
+  };
+
+  const addSlot = () => {
+    const name = text.snack;
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: createMealSlotId(name, prev),
+        name,
+        icon: "apple",
+        startTime: "16:00",
+        endTime: "17:00",
+        kind: "snack",
+      },
+    ]);
+  };
+
+  const removeSlot = (id: string) => {
+    setDraft((prev) => prev.filter((slot) => slot.id !== id));
+  };
+
+  const handleSave = async () => {
+    const validationError = validateMealSlots(draft, m.mealSlots.errors, dayStartTime, dayEndTime);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(sortMealSlots(draft.map((slot) => ({ ...slot, name: slot.name.trim() })), dayStartTime));
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gray-800">{text.title}</DialogTitle>
+          <DialogDescription>{text.description(dayStartTime, dayEndTime)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {draft.map((slot) => {
+            const style = MEAL_SLOT_STYLES[slot.icon];
+            return (
+              <div key={slot.id} className="rounded-2xl border border-gray-100 bg-gray-50 p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={slot.icon}
+                    onValueChange={(value) => updateSlot(slot.id, { icon: value as MealSlotIcon })}
+                  >
+                    <SelectTrigger className="w-16 bg-white" aria-label={text.icon}>
+                      <SelectValue>
+                        <style.Icon className="w-4 h-4" />
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MEAL_SLOT_STYLES) as MealSlotIcon[]).map((icon) => {
+                        const { Icon } = MEAL_SLOT_STYLES[icon];
+                        return (
+                          <SelectItem key={icon} value={icon}>
+                            <Icon className="w-4 h-4" /> {m.mealSlots.icons[icon]}
+                          </SelectItem>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={slot.name}
+                    maxLength={30}
+                    onChange={(e) => updateSlot(slot.id, { name: e.target.value })}
+                    className="bg-white"
+                    aria-label={text.name}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-gray-400 hover:text-red-500"
+                    onClick={() => removeSlot(slot.id)}
+                    disabled={draft.length <= 1}
+                    aria-label={text.remove(slot.name)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={slot.startTime}
+                    onChange={(e) => updateSlot(slot.id, { startTime: e.target.value })}
+                    className="bg-white"
+                    aria-label={text.from}
+                  />
+                  <span className="text-xs text-gray-400">{text.until}</span>
+                  <Input
+                    type="time"
+                    value={slot.endTime}
+                    onChange={(e) => updateSlot(slot.id, { endTime: e.target.value })}
+                    className="bg-white"
+                    aria-label={text.to}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                    <Switch
+                      checked={slot.kind === "snack"}
+                      onCheckedChange={(checked) => updateSlot(slot.id, { kind: checked ? "snack" : "meal" })}
+                    />
+                    {text.snack}
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          {draft.length < MAX_MEAL_SLOTS && (
+            <Button variant="outline" className="w-full" onClick={addSlot}>
+              <Plus className="w-4 h-4 mr-2" />
+              {text.add}
+            </Button>
+          )}
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <p className="text-xs text-gray-400">{text.hint}</p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-gradient-to-r from-pink-400 to-green-500 text-white"
+          >
+            {saving ? m.common.saving : m.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from "react";
 import { Button } from "./ui/button";
 import { requestNotificationPermission, showNotification } from "../utils/pwa";
 import { useUser } from "../contexts/UserContext";
+import { useI18n } from "../utils/useI18n";
 
 const DISMISS_KEY = "lumi_notifications_prompt_dismissed";
 
@@ -12,6 +13,7 @@ export default function NotificationPermissionPrompt() {
     return Notification.permission;
   });
   const { userId } = useUser();
+  const { m } = useI18n();
 
   useEffect(() => {
     // Only show when user is logged in
@@ -34,8 +36,8 @@ export default function NotificationPermissionPrompt() {
 
     if (result === "granted") {
       try {
-        await showNotification("Lumi listo", {
-          body: "Has activado las notificaciones. Recibirás alertas cuando tu Lumi lo indique.",
+        await showNotification(m.notificationPrompt.enabledTitle, {
+          body: m.notificationPrompt.enabledBody,
           tag: "notifications-enabled",
         });
       } catch (e) {
@@ -55,12 +57,12 @@ export default function NotificationPermissionPrompt() {
     <div className="fixed top-4 inset-x-0 z-60 flex justify-center px-4">
       <div className="max-w-xl w-full bg-white/95 backdrop-blur-sm shadow-lg border border-gray-200 rounded-xl p-4 flex items-center justify-between gap-4">
         <div>
-          <p className="text-sm font-medium text-gray-800">¿Quieres recibir notificaciones?</p>
-          <p className="text-xs text-gray-500">Activa las notificaciones para recibir alertas cuando tu Lumi lo indique (hidratación, recordatorios).</p>
+          <p className="text-sm font-medium text-gray-800">{m.notificationPrompt.question}</p>
+          <p className="text-xs text-gray-500">{m.notificationPrompt.description}</p>
         </div>
         <div className="flex items-center gap-2">
-          <Button className="px-3 py-1" onClick={handleEnable}>Activar</Button>
-          <Button variant="ghost" className="px-3 py-1" onClick={handleDismiss}>Recordármelo después</Button>
+          <Button className="px-3 py-1" onClick={handleEnable}>{m.notificationPrompt.enable}</Button>
+          <Button variant="ghost" className="px-3 py-1" onClick={handleDismiss}>{m.notificationPrompt.later}</Button>
         </div>
       </div>
     </div>
@@ -1,12 +1,16 @@
 import { motion } from "motion/react";
 import { Droplet } from "lucide-react";
 import { Button } from "./ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface OnboardingBlueProps {
   onNext: () => void;
 }
 
 export function OnboardingBlue({ onNext }: OnboardingBlueProps) {
+  const { m } = useI18n();
+  const text = m.onboarding.blue;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-blue-100 via-blue-50 to-cyan-50 overflow-hidden p-6 flex flex-col">
       {/* Background elements */}
@@ -83,7 +87,7 @@ export function OnboardingBlue({ onNext }: OnboardingBlueProps) {
           transition={{ delay: 0.3, type: "spring" }}
         >
           <Droplet className="w-5 h-5" />
-          <span className="font-medium">Azul - Hidratación</span>
+          <span className="font-medium">{text.badge}</span>
         </motion.div>
 
         <motion.div
@@ -92,24 +96,20 @@ export function OnboardingBlue({ onNext }: OnboardingBlueProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5 }}
         >
-          <h2 className="text-gray-800 mb-3 text-center">💧 ¡Dale aguita a tu cuerpo!</h2>
+          <h2 className="text-gray-800 mb-3 text-center">{text.title}</h2>
           <p className="text-sm text-gray-700 text-center mb-4 leading-relaxed">
-            Cuando brillo en <span className="text-blue-600">azul</span>, es tu recordatorio chill de que necesitas hidratarte
+            {text.intro.before}
+            <span className="text-blue-600">{text.intro.highlight}</span>
+            {text.intro.after}
           </p>
           
           <div className="bg-blue-50 rounded-2xl p-4 space-y-2">
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-blue-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Te hago un reminder suave para que bebas agua</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-blue-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Aparezco cada rato si te olvidas del H₂O</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-blue-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Me relajo cuando registras tu vasito 🌊</p>
-            </div>
+            {text.points.map((point) => (
+              <div key={point} className="flex items-start gap-3">
+                <div className="w-2 h-2 bg-blue-500 rounded-full mt-1.5" />
+                <p className="text-xs text-gray-600">{point}</p>
+              </div>
+            ))}
           </div>
         </motion.div>
 
@@ -117,7 +117,7 @@ export function OnboardingBlue({ onNext }: OnboardingBlueProps) {
           className="w-full max-w-xs bg-gradient-to-r from-blue-300 to-cyan-300 hover:from-blue-400 hover:to-cyan-400 text-blue-900 rounded-full mt-8"
           onClick={onNext}
         >
-          Siguiente color
+          {m.onboarding.nextColor}
         </Button>
       </div>
 
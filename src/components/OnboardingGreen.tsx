@@ -1,12 +1,16 @@
 import { motion } from "motion/react";
 import { Leaf, Sparkles } from "lucide-react";
 import { Button } from "./ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface OnboardingGreenProps {
   onNext: () => void;
 }
 
 export function OnboardingGreen({ onNext }: OnboardingGreenProps) {
+  const { m } = useI18n();
+  const text = m.onboarding.green;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-green-100 via-emerald-50 to-teal-50 overflow-hidden p-6 flex flex-col">
       {/* Background elements */}
@@ -96,7 +100,7 @@ export function OnboardingGreen({ onNext }: OnboardingGreenProps) {
           transition={{ delay: 0.3, type: "spring" }}
         >
           <Leaf className="w-5 h-5" />
-          <span className="font-medium">Verde - Balance</span>
+          <span className="font-medium">{text.badge}</span>
         </motion.div>
 
         <motion.div
@@ -105,24 +109,20 @@ export function OnboardingGreen({ onNext }: OnboardingGreenProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5 }}
         >
-          <h2 className="text-gray-800 mb-3 text-center">🌸 ¡Eso sí es balance!</h2>
+          <h2 className="text-gray-800 mb-3 text-center">{text.title}</h2>
           <p className="text-sm text-gray-700 text-center mb-4 leading-relaxed">
-            Cuando me pongo <span className="text-green-600">verde</span>, estoy celebrando que estás comiendo súper bien
+            {text.intro.before}
+            <span className="text-green-600">{text.intro.highlight}</span>
+            {text.intro.after}
           </p>
           
           <div className="bg-green-50 rounded-2xl p-4 space-y-2">
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-green-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Brillo así cuando logras tus metas de proteína y fibra</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-green-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Es mi forma de decir "¡Qué nutritivo, me encanta!"</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-green-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Tu señal de que estás en el camino correcto 🚀</p>
-            </div>
+            {text.points.map((point) => (
+              <div key={point} className="flex items-start gap-3">
+                <div className="w-2 h-2 bg-green-600 rounded-full mt-1.5" />
+                <p className="text-xs text-gray-600">{point}</p>
+              </div>
+            ))}
           </div>
         </motion.div>
 
@@ -130,7 +130,7 @@ export function OnboardingGreen({ onNext }: OnboardingGreenProps) {
           className="w-full max-w-xs bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white rounded-full mt-8"
           onClick={onNext}
         >
-          Siguiente color
+          {m.onboarding.nextColor}
         </Button>
       </div>
 
@@ -1,12 +1,16 @@
 import { motion } from "motion/react";
 import { AlertCircle } from "lucide-react";
 import { Button } from "./ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface OnboardingOrangeProps {
   onNext: () => void;
 }
 
 export function OnboardingOrange({ onNext }: OnboardingOrangeProps) {
+  const { m } = useI18n();
+  const text = m.onboarding.orange;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-orange-100 via-orange-50 to-red-50 overflow-hidden p-6 flex flex-col">
       {/* Background elements */}
@@ -93,7 +97,7 @@ export function OnboardingOrange({ onNext }: OnboardingOrangeProps) {
           transition={{ delay: 0.3, type: "spring" }}
         >
           <AlertCircle className="w-5 h-5" />
-          <span className="font-medium">Naranja - Alerta Nutricional</span>
+          <span className="font-medium">{text.badge}</span>
         </motion.div>
 
         <motion.div
@@ -102,24 +106,20 @@ export function OnboardingOrange({ onNext }: OnboardingOrangeProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5 }}
         >
-          <h2 className="text-gray-800 mb-3 text-center">🍽️ ¡A comer con poder!</h2>
+          <h2 className="text-gray-800 mb-3 text-center">{text.title}</h2>
           <p className="text-sm text-gray-700 text-center mb-4 leading-relaxed">
-            Cuando brillo en <span className="text-orange-600">naranja</span>, es mi forma de decirte: "¡Hey, tus comidas necesitan más love nutritivo!"
+            {text.intro.before}
+            <span className="text-orange-600">{text.intro.highlight}</span>
+            {text.intro.after}
           </p>
           
           <div className="bg-orange-50 rounded-2xl p-4 space-y-2">
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-orange-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Te aviso cuando necesitas más proteína o fibra</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-orange-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Es mi nudge para que agregues comida que nutre de verdad</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-orange-600 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Cambia a verde cuando mejoras tu nutrición</p>
-            </div>
+            {text.points.map((point) => (
+              <div key={point} className="flex items-start gap-3">
+                <div className="w-2 h-2 bg-orange-600 rounded-full mt-1.5" />
+                <p className="text-xs text-gray-600">{point}</p>
+              </div>
+            ))}
           </div>
         </motion.div>
 
@@ -127,7 +127,7 @@ export function OnboardingOrange({ onNext }: OnboardingOrangeProps) {
           className="w-full max-w-xs bg-gradient-to-r from-orange-300 to-orange-400 hover:from-orange-400 hover:to-orange-500 text-orange-900 rounded-full mt-8"
           onClick={onNext}
         >
-          Siguiente color
+          {m.onboarding.nextColor}
         </Button>
       </div>
 
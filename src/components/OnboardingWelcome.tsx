@@ -1,11 +1,15 @@
 import { motion } from "motion/react";
 import { Button } from "./ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface OnboardingWelcomeProps {
   onNext: () => void;
 }
 
 export function OnboardingWelcome({ onNext }: OnboardingWelcomeProps) {
+  const { m } = useI18n();
+  const text = m.onboarding.welcome;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50 overflow-hidden p-6 flex flex-col">
       {/* Background blur circles */}
@@ -107,7 +111,7 @@ export function OnboardingWelcome({ onNext }: OnboardingWelcomeProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
         >
-          ¡Hola! Soy Lumi ✨
+          {text.title}
         </motion.h1>
 
         <motion.p
@@ -116,7 +120,7 @@ export function OnboardingWelcome({ onNext }: OnboardingWelcomeProps) {
           animate={{ opacity: 1 }}
           transition={{ delay: 0.4 }}
         >
-          Tu bestie de luz que te cuida 24/7
+          {text.subtitle}
         </motion.p>
 
         <motion.div
@@ -126,10 +130,10 @@ export function OnboardingWelcome({ onNext }: OnboardingWelcomeProps) {
           transition={{ delay: 0.6 }}
         >
           <p className="text-sm text-gray-700 text-center mb-2">
-            Soy un llavero inteligente que brilla con colores mágicos para guiarte hacia tu mejor versión
+            {text.description}
           </p>
           <p className="text-xs text-gray-500 text-center italic">
-            Cada color tiene su vibe especial 🌈
+            {text.vibe}
           </p>
         </motion.div>
 
@@ -137,7 +141,7 @@ export function OnboardingWelcome({ onNext }: OnboardingWelcomeProps) {
           className="w-full max-w-xs bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white rounded-full"
           onClick={onNext}
         >
-          Descubre los colores
+          {text.next}
         </Button>
       </div>
 
@@ -1,12 +1,16 @@
 import { motion } from "motion/react";
 import { Sparkles, Star } from "lucide-react";
 import { Button } from "./ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface OnboardingYellowProps {
   onNext: () => void;
 }
 
 export function OnboardingYellow({ onNext }: OnboardingYellowProps) {
+  const { m } = useI18n();
+  const text = m.onboarding.yellow;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-yellow-50 via-amber-50 to-orange-50 overflow-hidden p-6 flex flex-col">
       {/* Background elements */}
@@ -96,7 +100,7 @@ export function OnboardingYellow({ onNext }: OnboardingYellowProps) {
           transition={{ delay: 0.3, type: "spring" }}
         >
           <Star className="w-5 h-5" />
-          <span className="font-medium">Amarillo - Perfección Total</span>
+          <span className="font-medium">{text.badge}</span>
         </motion.div>
 
         <motion.div
@@ -105,24 +109,20 @@ export function OnboardingYellow({ onNext }: OnboardingYellowProps) {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5 }}
         >
-          <h2 className="text-gray-800 mb-3 text-center">✨ ¡Estás brillando!</h2>
+          <h2 className="text-gray-800 mb-3 text-center">{text.title}</h2>
           <p className="text-sm text-gray-700 text-center mb-4 leading-relaxed">
-            El <span className="text-amber-600">amarillo suave</span> es mi nivel máximo de felicidad — ¡estás en tu mejor momento!
+            {text.intro.before}
+            <span className="text-amber-600">{text.intro.highlight}</span>
+            {text.intro.after}
           </p>
           
           <div className="bg-yellow-50 rounded-2xl p-4 space-y-2">
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-amber-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Brillo así cuando logras TODAS tus metas del día</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-amber-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Hidratación ✓ Proteína ✓ Fibra ✓ ¡Full balance!</p>
-            </div>
-            <div className="flex items-start gap-3">
-              <div className="w-2 h-2 bg-amber-500 rounded-full mt-1.5" />
-              <p className="text-xs text-gray-600">Es mi manera de decir "¡Eres increíble!" 🌟</p>
-            </div>
+            {text.points.map((point) => (
+              <div key={point} className="flex items-start gap-3">
+                <div className="w-2 h-2 bg-amber-500 rounded-full mt-1.5" />
+                <p className="text-xs text-gray-600">{point}</p>
+              </div>
+            ))}
           </div>
         </motion.div>
 
@@ -130,7 +130,7 @@ export function OnboardingYellow({ onNext }: OnboardingYellowProps) {
           className="w-full max-w-xs bg-gradient-to-r from-yellow-300 to-amber-400 hover:from-yellow-400 hover:to-amber-500 text-amber-900 rounded-full mt-8"
           onClick={onNext}
         >
-          Comencemos
+          {m.onboarding.start}
         </Button>
       </div>
 
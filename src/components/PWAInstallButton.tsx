@@ -2,8 +2,10 @@ import { useState, useEffect } from "react";
 import { Download, Check } from "lucide-react";
 import { motion } from "motion/react";
 import { showInstallPrompt, canInstallPWA, isPWA, getInstallationStatus } from "../utils/pwa";
+import { useI18n } from "../utils/useI18n";
 
 export function PWAInstallButton() {
+  const { m } = useI18n();
   const [installStatus, setInstallStatus] = useState<'installed' | 'installable' | 'not-installable'>('not-installable');
   const [showButton, setShowButton] = useState(false);
 
@@ -50,12 +52,12 @@ export function PWAInstallButton() {
       {installStatus === 'installed' ? (
         <>
           <Check className="w-4 h-4" />
-          <span className="text-sm">Instalada</span>
+          <span className="text-sm">{m.pwa.installed}</span>
         </>
       ) : (
         <>
           <Download className="w-4 h-4" />
-          <span className="text-sm">Instalar Lumi</span>
+          <span className="text-sm">{m.pwa.install}</span>
         </>
       )}
     </motion.button>
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Ruler } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useUser } from "../contexts/UserContext";
+import {
+  CONTAINER_PRESETS,
+  DEFAULT_CONTAINER_ML,
+  MAX_CONTAINER_ML,
+  MIN_CONTAINER_ML,
+  UnitPreferences,
+  UnitSystem,
+  WaterContainer,
+  fromDisplayVolume,
+  toDisplayVolume,
+  volumeUnit,
+} from "../utils/units";
+import { useI18n } from "../utils/useI18n";
+
+const SYSTEM_OPTIONS: { system: UnitSystem; hint: string }[] = [
+  { system: "metric", hint: "kg · cm · ml" },
+  { system: "imperial", hint: "lb · ft · fl oz" },
+];
+
+const CONTAINERS: WaterContainer[] = ["glass", "bottle"];
+
+// Unidades del perfil y recipiente con el que se cuenta el agua
+export function UnitsCard() {
+  const { profile, setProfile, units } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.units;
+  const [sizeDraft, setSizeDraft] = useState("");
+
+  useEffect(() => {
+    setSizeDraft(String(toDisplayVolume(units.containerMl, units)));
+  }, [units.containerMl, units.system]);
+
+  if (!profile) return null;
+
+  const updateUnits = (changes: Partial<UnitPreferences>) => {
+    void setProfile({ ...profile, units: { ...units, ...changes } });
+  };
+
+  const selectContainer = (container: WaterContainer) => {
+    if (container === units.container) return;
+    updateUnits({ container, containerMl: DEFAULT_CONTAINER_ML[container] });
+  };
+
+  const saveCustomSize = () => {
+    const containerMl = fromDisplayVolume(Number(sizeDraft), units);
+    if (!(containerMl >= MIN_CONTAINER_ML && containerMl <= MAX_CONTAINER_ML)) {
+      toast.error(text.sizeError(fmt.volume(MIN_CONTAINER_ML), fmt.volume(MAX_CONTAINER_ML)));
+      return;
+    }
+    updateUnits({ containerMl });
+    toast.success(text.sizeSaved(fmt.volume(containerMl)));
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
+      <div className="flex items-center gap-2 mb-3">
+        <Ruler className="w-4 h-4 text-teal-500" />
+        <h3 className="text-gray-800">{text.title}</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-100 rounded-xl p-1 mb-4">
+        {SYSTEM_OPTIONS.map(({ system, hint }) => (
+          <button
+            key={system}
+            type="button"
+            onClick={() => system !== units.system && updateUnits({ system })}
+            aria-pressed={units.system === system}
+            className={`rounded-lg py-1 text-xs transition-all ${
+              units.system === system ? "bg-white text-teal-600 shadow-sm" : "text-gray-500"
+            }`}
+          >
+            <span className="block">{text[system]}</span>
+            <span className="block text-[10px] text-gray-400">{hint}</span>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-2">{text.countIn}</p>
+      <div className="flex flex-wrap gap-1 mb-3">
+        {CONTAINERS.map((container) => (
+          <button
+            key={container}
+            type="button"
+            onClick={() => selectContainer(container)}
+            aria-pressed={units.container === container}
+            className={`px-3 h-7 rounded-full text-xs transition-all ${
+              units.container === container ? "bg-teal-100 text-teal-700" : "bg-gray-100 text-gray-500"
+            }`}
+          >
+            {text[container]}
+          </button>
+        ))}
+        {CONTAINER_PRESETS[units.container].map((containerMl) => (
+          <button
+            key={containerMl}
+            type="button"
+            onClick={() => updateUnits({ containerMl })}
+            aria-pressed={units.containerMl === containerMl}
+            className={`px-3 h-7 rounded-full text-xs transition-all ${
+              units.containerMl === containerMl ? "bg-sky-100 text-sky-700" : "bg-gray-100 text-gray-500"
+            }`}
+          >
+            {fmt.volume(containerMl)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          inputMode="decimal"
+          className="w-24 text-right"
+          value={sizeDraft}
+          onChange={(e) => setSizeDraft(e.target.value)}
+        />
+        <span className="text-xs text-gray-500">{volumeUnit(units)}</span>
+        <Button size="sm" variant="outline" className="ml-auto" disabled={!sizeDraft.trim()} onClick={saveCustomSize}>
+          {text.useSize}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { motion } from "motion/react";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from "./ui/drawer";
+import { BEVERAGES, BeverageType, VOLUME_PRESETS } from "../utils/beverages";
+import { useUser } from "../contexts/UserContext";
+import { useI18n } from "../utils/useI18n";
+
+interface WaterVolumePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (volumeMl: number, beverage: BeverageType) => void;
+}
+
+// Selector de volumen y bebida (se abre con long-press sobre el botón "+")
+export function WaterVolumePicker({ open, onOpenChange, onSelect }: WaterVolumePickerProps) {
+  const { units } = useUser();
+  const { m, fmt } = useI18n();
+  const [beverage, setBeverage] = useState<BeverageType>("water");
+
+  // El recipiente del usuario siempre aparece entre los volúmenes rápidos
+  const presets = [...new Set([...VOLUME_PRESETS, units.containerMl])].sort((a, b) => a - b);
+
+  const handleSelect = (volumeMl: number) => {
+    onSelect(volumeMl, beverage);
+    onOpenChange(false);
+  };
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className="bg-white">
+        <DrawerHeader>
+          <DrawerTitle className="text-gray-800">{m.waterPicker.title}</DrawerTitle>
+          <DrawerDescription>{m.waterPicker.description}</DrawerDescription>
+        </DrawerHeader>
+
+        <div className="px-6 pb-8 space-y-5">
+          {/* Beverage type */}
+          <div className="grid grid-cols-4 gap-2">
+            {BEVERAGES.map((b) => (
+              <motion.button
+                key={b.type}
+                type="button"
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setBeverage(b.type)}
+                className={`flex flex-col items-center gap-1 rounded-2xl py-3 border transition-all ${
+                  beverage === b.type
+                    ? "bg-blue-100 border-blue-300 text-blue-700"
+                    : "bg-gray-50 border-gray-100 text-gray-500"
+                }`}
+              >
+                <span className="text-xl">{b.emoji}</span>
+                <span className="text-xs">{m.beverages[b.type]}</span>
+              </motion.button>
+            ))}
+          </div>
+
+          {/* Volume presets */}
+          <div className="grid grid-cols-3 gap-2">
+            {presets.map((volumeMl) => (
+              <motion.button
+                key={volumeMl}
+                type="button"
+                whileTap={{ scale: 0.95 }}
+                onClick={() => handleSelect(volumeMl)}
+                className={`rounded-2xl py-3 text-sm shadow-sm ${
+                  volumeMl === units.containerMl
+                    ? "bg-gradient-to-br from-blue-300 to-blue-400 text-blue-900"
+                    : "bg-blue-50 text-blue-700"
+                }`}
+              >
+                {fmt.volume(volumeMl)}
+              </motion.button>
+            ))}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { requestNotificationPermission, showNotification } from "../utils/pwa";
+import { useI18n } from "../utils/useI18n";
 
 // Arduino BLE Commands
 export const LED_COMMANDS = {
@@ -31,6 +32,8 @@ const ARDUINO_SERVICE_UUID = "19b10000-e8f2-537e-4f6c-d104768a1214";
 const ARDUINO_CHARACTERISTIC_UUID = "19b10001-e8f2-537e-4f6c-d104768a1214";
 
 export function BluetoothProvider({ children }: { children: ReactNode }) {
+  const { m } = useI18n();
+  const text = m.bluetooth;
   const [device, setDevice] = useState<any | null>(null);
   const [characteristic, setCharacteristic] = useState<any | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -42,7 +45,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     if (!(navigator as any).bluetooth) {
-      setError("Bluetooth no está disponible en este navegador. Usa Chrome, Edge o Opera.");
+      setError(text.errors.unsupported);
       console.error("Web Bluetooth API no disponible");
     }
   }, []);
@@ -58,10 +61,10 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
     setIsConnected(false);
     setCharacteristic(null);
     setDeviceName(null);
-    setError("Dispositivo desconectado");
+    setError(text.errors.disconnected);
     try {
-      showNotification("Lumi desconectado", {
-        body: "Se perdió la conexión con tu dispositivo Lumi.",
+      showNotification(text.notifications.disconnected.title, {
+        body: text.notifications.disconnected.body,
         tag: "bluetooth-connection",
       });
     } catch (e) {
@@ -71,12 +74,12 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
 
   const connect = async () => {
     if (!(navigator as any).bluetooth) {
-      setError("Bluetooth no está disponible en este navegador");
+      setError(text.errors.unsupported);
       return;
     }
 
     if (!window.isSecureContext) {
-      setError("Bluetooth requiere HTTPS. Por favor, accede a la app mediante HTTPS.");
+      setError(text.errors.httpsRequired);
       return;
     }
 
@@ -97,10 +100,10 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
       });
 
       console.log("Dispositivo seleccionado:", selectedDevice?.name || selectedDevice?.id);
-      if (!selectedDevice) throw new Error("No se seleccionó ningún dispositivo");
+      if (!selectedDevice) throw new Error(text.errors.noDeviceSelected);
 
   setDevice(selectedDevice as any);
-  setDeviceName(selectedDevice.name || selectedDevice.id || "Dispositivo BLE");
+  setDeviceName(selectedDevice.name || selectedDevice.id || text.defaultDeviceName);
 
       selectedDevice.addEventListener("gattserverdisconnected", async () => {
         console.log("Dispositivo GATT desconectado, manejador de evento activado");
@@ -126,7 +129,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
 
       console.log("Conectando al servidor GATT...");
       const server = await selectedDevice.gatt?.connect();
-      if (!server) throw new Error("No se pudo conectar al servidor GATT");
+      if (!server) throw new Error(text.errors.gattFailed);
 
       // Try to find the Arduino-specific service/characteristic first. If it's not present,
       // iterate the available services and characteristics to find a writable characteristic.
@@ -154,7 +157,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
         }
       }
 
-      if (!char) throw new Error("No se encontró una característica escribible en el dispositivo BLE");
+      if (!char) throw new Error(text.errors.noWritableCharacteristic);
 
       // Enable notifications if the characteristic supports it
       if (char.properties.notify) {
@@ -172,8 +175,8 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
       setError(null);
 
       try {
-        showNotification("Lumi conectado", {
-          body: `Conectado a ${selectedDevice.name || "Arduino Nado"}`,
+        showNotification(text.notifications.connected.title, {
+          body: text.notifications.connected.body(selectedDevice.name || "Arduino Nado"),
           tag: "bluetooth-connection",
         });
       } catch (e) {
@@ -186,18 +189,18 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
     } catch (err) {
       console.error("Error de conexión Bluetooth:", err);
       
-  let errorMessage = "Error al conectar";
+  let errorMessage = text.errors.connectFailed;
       
       if (err instanceof DOMException) {
         switch (err.name) {
           case 'SecurityError':
-            errorMessage = "Bluetooth bloqueado por política de seguridad. Verifica que estés usando HTTPS y que los permisos estén habilitados.";
+            errorMessage = text.errors.security;
             break;
           case 'NotFoundError':
-            errorMessage = "No se encontró ningún dispositivo Arduino Nado. Asegúrate de que esté encendido y cerca.";
+            errorMessage = text.errors.notFound;
             break;
           case 'NotAllowedError':
-            errorMessage = "Permiso denegado. Por favor, permite el acceso a Bluetooth.";
+            errorMessage = text.errors.notAllowed;
             break;
           default:
             errorMessage = err.message;
@@ -211,7 +214,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
       setCharacteristic(null);
       
       try {
-        showNotification("Error Bluetooth", {
+        showNotification(text.notifications.errorTitle, {
           body: errorMessage,
           tag: "bluetooth-error",
         });
@@ -261,16 +264,20 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
       setLastCommand(command);
       // Show a user notification for any command sent. Provide contextual text per command.
       try {
+        const commands = text.notifications.commands;
         const titles: Record<number, { title: string; body: string; tag?: string; url?: string }> = {
-          [LED_COMMANDS.OFF]: { title: 'Lumi apagado', body: 'Tu Lumi fue apagado.' },
-          [LED_COMMANDS.WATER]: { title: 'Hora de hidratarte', body: 'Tu Lumi indica que necesitas agua. Toca para ver el recordatorio.', tag: 'hydration-alert', url: '/hydration' },
-          [LED_COMMANDS.BALANCED]: { title: 'Nutrición balanceada', body: 'Tu Lumi muestra un estado nutricional balanceado.' },
-          [LED_COMMANDS.UNBALANCED]: { title: 'Nutrición desbalanceada', body: 'Tu Lumi indica que tu última comida no estuvo balanceada.' },
-          [LED_COMMANDS.GREAT_FINISH]: { title: '¡Buen trabajo!', body: 'Terminaste una actividad con buena ejecución. Sigue así.' },
-          [LED_COMMANDS.BAD_FINISH]: { title: 'Actividad incompleta', body: 'Tu Lumi marcó una finalización pobre. Intenta mejorar la próxima vez.' },
+          [LED_COMMANDS.OFF]: commands.off,
+          [LED_COMMANDS.WATER]: { ...commands.water, tag: 'hydration-alert', url: '/hydration' },
+          [LED_COMMANDS.BALANCED]: commands.balanced,
+          [LED_COMMANDS.UNBALANCED]: commands.unbalanced,
+          [LED_COMMANDS.GREAT_FINISH]: commands.greatFinish,
+          [LED_COMMANDS.BAD_FINISH]: commands.badFinish,
         };
 
-        const info = titles[command] || { title: 'Comando enviado', body: `Se envió el comando ${command}` };
+        const info = titles[command] || {
+          title: text.notifications.unknownCommand.title,
+          body: text.notifications.unknownCommand.body(command),
+        };
 
         await showNotification(info.title, {
           body: info.body,
@@ -290,7 +297,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
   const sendCommand = async (command: LEDCommand) => {
     if (!isConnected || !characteristic) {
       console.warn("No hay conexión Bluetooth activa");
-      setError("No hay conexión Bluetooth activa");
+      setError(text.errors.notConnected);
       return;
     }
 
@@ -299,7 +306,7 @@ export function BluetoothProvider({ children }: { children: ReactNode }) {
       setError(null);
     } catch (err) {
       console.error("Error al enviar comando:", err);
-      setError("Error al enviar comando al dispositivo");
+      setError(text.errors.sendFailed);
       
       // Si hay error, intentar reconectar
       if (device?.gatt && device.gatt.connected === false) {
@@ -3,29 +3,105 @@ import { projectId, publicAnonKey } from "../utils/supabase/info";
 import { supabase } from "../utils/supabase/client";
 import { debugLog, debugError, debugWarn } from "../utils/debug";
 import { showNotification } from "../utils/pwa";
-
-interface UserProfile {
+import { toast } from "sonner";
+import { BeverageType } from "../utils/beverages";
+import { MealSlot, DEFAULT_MEAL_SLOTS, sortMealSlots } from "../utils/mealSlots";
+import { getHistory } from "../utils/history";
+import { saveGoalOverrides } from "../utils/goals";
+import { deleteWeight, saveWeight } from "../utils/weights";
+import { Workout, addWorkout as postWorkout, deleteWorkout, setDayTemperature } from "../utils/workouts";
+import { UnitPreferences, getUnits } from "../utils/units";
+import { createFormatter, getMessages } from "../locales";
+import { addDays, getBrowserTimeZone, getDayKey } from "../shared/dates";
+import { Language, isLanguage, matchLanguage } from "../shared/i18n";
+import {
+  ActivityLevel,
+  GoalOverrides,
+  AgeGroup,
+  GuidelineId,
+  LifeStage,
+  OverridableGoal,
+  WorkoutIntensity,
+  calculateDailyNeeds,
+  getDayWaterGoal,
+  isBalanced,
+  splitMealTargets,
+} from "../shared/nutritionRules";
+import { NutrientAmounts, MealNutrients, EXTRA_NUTRIENT_KEYS, sumNutrients } from "../utils/nutrients";
+
+export interface UserProfile {
   name: string;
   age: number;
   gender: "male" | "female" | "other";
   weight: number; // kg
   height: number; // cm
-  activityLevel: "sedentary" | "light" | "moderate" | "very";
+  activityLevel: ActivityLevel;
   dayStartTime?: string; // "HH:MM"
   dayEndTime?: string; // "HH:MM"
+  timeZone?: string; // IANA, ej. "America/Bogota"
+  mealSlots?: MealSlot[]; // comidas configuradas (por defecto desayuno, almuerzo y cena)
+  restDays?: number[]; // días de descanso de la racha (0 = domingo), máximo 2
+  guideline?: GuidelineId; // guía nutricional de las metas (por defecto IOM)
+  lifeStage?: LifeStage | null; // embarazo o lactancia
+  trimester?: 1 | 2 | 3; // trimestre, durante el embarazo
+  goalOverrides?: GoalOverrides; // metas manuales (agua en ml), reemplazan a las calculadas
+  goalsLock?: { lockedBy: string; lockedAt: string }; // metas bloqueadas por un coach
+  units?: UnitPreferences; // cómo se muestran peso, altura y agua (se guarda todo en métrico)
+  language?: Language; // idioma de la app y de las notificaciones
+}
+
+// Perfil a partir del usuario guardado en el servidor (/users/:userId o /users/profile)
+function toUserProfile(user: any): UserProfile {
+  return {
+    name: user.name,
+    age: user.age,
+    gender: user.gender,
+    weight: user.weight,
+    height: user.height,
+    activityLevel: user.activityLevel,
+    dayStartTime: user.dayStartTime,
+    dayEndTime: user.dayEndTime,
+    timeZone: user.timeZone,
+    mealSlots: user.mealSlots,
+    restDays: user.restDays,
+    guideline: user.guideline,
+    lifeStage: user.lifeStage,
+    trimester: user.trimester,
+    goalOverrides: user.goalOverrides,
+    goalsLock: user.goalsLock,
+    units: user.units,
+    language: user.language,
+  };
 }
 
 interface NutritionalNeeds {
   dailyProtein: number; // gramos
   dailyFiber: number; // gramos
   dailyWater: number; // vasos (250ml cada uno)
-  proteinPerMeal: number;
-  fiberPerMeal: number;
+  dailyWaterMl: number; // ml, sin los ajustes del día
+  dailyCalories: number; // kcal (Mifflin-St Jeor × actividad)
+  dailyCarbs: number; // gramos
+  dailyFat: number; // gramos
+  dailyAddedSugar: number; // gramos, límite máximo
+  dailySodium: number; // mg, límite máximo
+  mealTargets: Record<string, NutrientAmounts>; // metas por comida (slot id)
+  guideline: GuidelineId; // guía con la que se calcularon las metas
+  balanceThreshold: number; // fracción de la meta que cuenta como cumplida
+  ageGroup: AgeGroup; // adolescente, adulto o adulto mayor
+  lifeStage: LifeStage | null; // etapa aplicada a las metas
+  overriddenGoals: OverridableGoal[]; // metas que vienen de goalOverrides
 }
 
-interface MealIntake {
-  protein: number;
-  fiber: number;
+type MealIntake = MealNutrients & {
+  id?: string; // id estable de la comida en el servidor
+};
+
+export interface WaterEntry {
+  id: string;
+  timestamp: string; // ISO
+  volumeMl: number;
+  beverage: BeverageType;
+  coefficient: number; // coeficiente de hidratación aplicado por el servidor
 }
 
 interface DailyProgress {
@@ -36,10 +112,20 @@ interface DailyProgress {
   totalFiber: number;
 }
 
-interface StreakData {
+export interface StreakData {
   currentStreak: number;
   longestStreak: number;
   lastBalancedDate: string | null;
+  lastFinalizedDate?: string | null; // último día cerrado por el servidor
+  freezes?: number; // protectores disponibles (se gana uno cada 7 días balanceados)
+  freezesUsed?: StreakFreeze[];
+}
+
+// Protector usado por el servidor para salvar la racha en un día sin balance
+export interface StreakFreeze {
+  date: string; // día protegido
+  streak: number; // racha que se salvó
+  usedAt: string;
 }
 
 interface UserContextType {
@@ -49,17 +135,31 @@ interface UserContextType {
   accessToken: string | null;
   userName: string | null;
   setAuth: (userId: string, accessToken: string, name: string) => void;
-  setProfile: (profile: UserProfile) => Promise<void>;
-  setUserProfile: (profile: UserProfile) => Promise<void>;
-  mealIntakes: {
-    breakfast: MealIntake;
-    lunch: MealIntake;
-    dinner: MealIntake;
-  };
-  updateMealIntake: (meal: "breakfast" | "lunch" | "dinner", intake: MealIntake) => Promise<void>;
-  getTotalIntake: () => { protein: number; fiber: number };
+  setProfile: (profile: UserProfile) => Promise<boolean>; // false si no se pudo guardar
+  setUserProfile: (profile: UserProfile) => Promise<boolean>;
+  setGoalOverrides: (goalOverrides: GoalOverrides) => Promise<boolean>;
+  logWeight: (date: string, weightKg: number) => Promise<boolean>; // el perfil usa el registro más reciente
+  removeWeight: (date: string) => Promise<boolean>;
+  units: UnitPreferences; // preferencias del perfil, con los valores por defecto
+  language: Language; // del perfil, o el elegido antes de iniciar sesión
+  setLanguage: (language: Language) => void;
+  mealSlots: MealSlot[];
+  mealIntakes: Record<string, MealIntake>; // por slot id
+  updateMealIntake: (meal: string, intake: MealIntake) => Promise<void>;
+  deleteMealIntake: (meal: string) => Promise<void>;
+  repeatYesterdayMeal: (meal: string) => Promise<"repeated" | "not_found" | "error">;
+  getTotalIntake: () => NutrientAmounts;
   waterGlasses: number;
-  addWater: (glasses?: number) => Promise<void>;
+  waterEntries: WaterEntry[];
+  addWater: (volumeMl?: number, beverage?: BeverageType) => Promise<WaterEntry | null>;
+  updateWaterEntry: (entryId: string, changes: { volumeMl?: number; beverage?: BeverageType }) => Promise<void>;
+  removeWaterEntry: (entryId: string) => Promise<void>;
+  workouts: Workout[]; // entrenamientos de hoy
+  temperatureC: number | null; // temperatura de hoy, ingresada a mano
+  waterGoal: { glasses: number; ml: number; extraMl: number }; // meta de agua de hoy, con entrenamientos y calor
+  addWorkout: (durationMin: number, intensity: WorkoutIntensity) => Promise<boolean>;
+  removeWorkout: (workoutId: string) => Promise<void>;
+  setTemperature: (temperatureC: number | null) => Promise<boolean>;
   dailyHistory: DailyProgress[];
   streakData: StreakData | null;
   checkAndUpdateDailyProgress: () => void;
@@ -76,14 +176,18 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const [profile, setProfileState] = useState<UserProfile | null>(null);
   const [nutritionalNeeds, setNutritionalNeeds] = useState<NutritionalNeeds | null>(null);
   const [waterGlasses, setWaterGlasses] = useState(0);
-  const [mealIntakes, setMealIntakes] = useState({
-    breakfast: { protein: 0, fiber: 0 },
-    lunch: { protein: 0, fiber: 0 },
-    dinner: { protein: 0, fiber: 0 },
-  });
+  const [waterEntries, setWaterEntries] = useState<WaterEntry[]>([]);
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [temperatureC, setTemperatureC] = useState<number | null>(null);
+  const [mealIntakes, setMealIntakes] = useState<Record<string, MealIntake>>({});
   const [dailyHistory, setDailyHistory] = useState<DailyProgress[]>([]);
   const [streakData, setStreakData] = useState<StreakData | null>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  // Idioma antes de tener perfil: el último elegido en este dispositivo o el del navegador
+  const [localLanguage, setLocalLanguage] = useState<Language>(() => {
+    const saved = localStorage.getItem("lumi_language");
+    return isLanguage(saved) ? saved : matchLanguage(navigator.languages ?? [navigator.language]);
+  });
 
   const setAuth = (newUserId: string, newAccessToken: string, name: string) => {
     setUserId(newUserId);
@@ -104,11 +208,10 @@ export function UserProvider({ children }: { children: ReactNode }) {
     setProfileState(null);
     setNutritionalNeeds(null);
     setWaterGlasses(0);
-    setMealIntakes({
-      breakfast: { protein: 0, fiber: 0 },
-      lunch: { protein: 0, fiber: 0 },
-      dinner: { protein: 0, fiber: 0 },
-    });
+    setWaterEntries([]);
+    setWorkouts([]);
+    setTemperatureC(null);
+    setMealIntakes({});
     setDailyHistory([]);
     setStreakData(null);
     
@@ -228,14 +331,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
         debugLog('UserContext', 'Loaded user data:', data);
         
         if (data.user && data.user.weight && data.user.height && data.user.age) {
-          const userProfile: UserProfile = {
-            name: data.user.name,
-            age: data.user.age,
-            gender: data.user.gender,
-            weight: data.user.weight,
-            height: data.user.height,
-            activityLevel: data.user.activityLevel,
-          };
+          const userProfile = toUserProfile(data.user);
           setProfileState(userProfile);
           const needs = calculateNutritionalNeeds(userProfile);
           setNutritionalNeeds(needs);
@@ -292,39 +388,43 @@ export function UserProvider({ children }: { children: ReactNode }) {
   }, [isLoggingOut]);
 
   const calculateNutritionalNeeds = (profile: UserProfile): NutritionalNeeds => {
-    // Proteína: 1.2g por kg de peso corporal (ajustado por actividad)
-    let proteinMultiplier = 1.0;
-    if (profile.activityLevel === "light") proteinMultiplier = 1.2;
-    if (profile.activityLevel === "moderate") proteinMultiplier = 1.4;
-    if (profile.activityLevel === "very") proteinMultiplier = 1.6;
-
-    const dailyProtein = Math.round(profile.weight * proteinMultiplier);
-
-    // Fibra: basado en género y edad
-    let dailyFiber = 25;
-    if (profile.gender === "male") {
-      dailyFiber = profile.age < 50 ? 38 : 30;
-    } else {
-      dailyFiber = profile.age < 50 ? 25 : 21;
-    }
-
-    // Agua: basado en peso (30-35ml por kg, convertido a vasos de 250ml)
-    const dailyWaterMl = profile.weight * 33; // 33ml por kg
-    const dailyWater = Math.round(dailyWaterMl / 250); // convertir a vasos de 250ml
+    // Proteína, fibra, agua, calorías y macros según la guía del perfil (reglas compartidas con el servidor)
+    const needs = calculateDailyNeeds(profile);
 
     return {
-      dailyProtein,
-      dailyFiber,
-      dailyWater,
-      proteinPerMeal: Math.round(dailyProtein / 3),
-      fiberPerMeal: Math.round(dailyFiber / 3),
+      dailyProtein: needs.protein,
+      dailyFiber: needs.fiber,
+      dailyWater: needs.waterGlasses,
+      dailyWaterMl: needs.waterMl,
+      dailyCalories: needs.calories,
+      dailyCarbs: needs.carbs,
+      dailyFat: needs.fat,
+      dailyAddedSugar: needs.addedSugar,
+      dailySodium: needs.sodium,
+      mealTargets: splitMealTargets<NutrientAmounts>(
+        {
+          protein: needs.protein,
+          fiber: needs.fiber,
+          calories: needs.calories,
+          carbs: needs.carbs,
+          fat: needs.fat,
+          addedSugar: needs.addedSugar,
+          sodium: needs.sodium,
+        },
+        profile.mealSlots ?? DEFAULT_MEAL_SLOTS
+      ),
+      guideline: needs.guideline,
+      balanceThreshold: needs.balanceThreshold,
+      ageGroup: needs.ageGroup,
+      lifeStage: needs.lifeStage,
+      overriddenGoals: needs.overridden,
     };
   };
 
-  const setProfile = async (newProfile: UserProfile) => {
+  const setProfile = async (newProfile: UserProfile): Promise<boolean> => {
     if (!userId || !accessToken) {
       console.error("No userId or accessToken available");
-      return;
+      return false;
     }
 
     setProfileState(newProfile);
@@ -351,17 +451,115 @@ export function UserProvider({ children }: { children: ReactNode }) {
         throw new Error(errorData.error || "Failed to save profile");
       }
 
+      // El servidor devuelve el perfil guardado, con los campos que no se
+      // enviaron (como el horario del día elegido al registrarse)
+      const data = await response.json();
+      if (data.user) {
+        const savedProfile = toUserProfile(data.user);
+        setProfileState(savedProfile);
+        setNutritionalNeeds(calculateNutritionalNeeds(savedProfile));
+      }
+
       // Refresh data after saving profile
       await refreshData();
+      return true;
     } catch (error) {
       console.error("Error saving profile:", error);
+      return false;
     }
   };
 
-  const addWater = async (glasses: number = 1) => {
+  const units = getUnits(profile?.units);
+  const language = profile?.language ?? localLanguage;
+  const m = getMessages(language);
+  const fmt = createFormatter(language, units, m);
+
+  const setLanguage = (newLanguage: Language) => {
+    localStorage.setItem("lumi_language", newLanguage);
+    setLocalLanguage(newLanguage);
+    if (profile) void setProfile({ ...profile, language: newLanguage });
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Meta de agua de hoy: la diaria más lo que suman los entrenamientos y el calor
+  const dayWaterGoal = nutritionalNeeds
+    ? getDayWaterGoal(
+        { waterMl: nutritionalNeeds.dailyWaterMl, overridden: nutritionalNeeds.overriddenGoals },
+        { workouts, temperatureC }
+      )
+    : null;
+  const waterGoal = {
+    glasses: dayWaterGoal?.waterGlasses ?? nutritionalNeeds?.dailyWater ?? 8,
+    ml: dayWaterGoal?.waterMl ?? nutritionalNeeds?.dailyWaterMl ?? 2000,
+    extraMl: dayWaterGoal?.extraMl ?? 0,
+  };
+
+  const addWorkout = async (durationMin: number, intensity: WorkoutIntensity): Promise<boolean> => {
+    if (!userId || !accessToken) return false;
+    const workout = await postWorkout(userId, accessToken, durationMin, intensity);
+    if (workout) setWorkouts((prev) => [...prev, workout]);
+    return workout !== null;
+  };
+
+  const removeWorkout = async (workoutId: string) => {
+    if (!userId || !accessToken) return;
+    if (await deleteWorkout(userId, accessToken, workoutId)) {
+      setWorkouts((prev) => prev.filter((w) => w.id !== workoutId));
+    }
+  };
+
+  const setTemperature = async (value: number | null): Promise<boolean> => {
+    if (!userId || !accessToken) return false;
+    const saved = await setDayTemperature(userId, accessToken, value);
+    if (saved) setTemperatureC(value);
+    return saved;
+  };
+
+  // Metas manuales: se guardan aparte del perfil porque un coach puede bloquearlas
+  const setGoalOverrides = async (goalOverrides: GoalOverrides): Promise<boolean> => {
+    if (!userId || !accessToken || !profile) {
+      console.error("No userId, accessToken or profile available");
+      return false;
+    }
+
+    const saved = await saveGoalOverrides(userId, accessToken, goalOverrides);
+    if (saved) {
+      const newProfile = { ...profile, goalOverrides };
+      setProfileState(newProfile);
+      setNutritionalNeeds(calculateNutritionalNeeds(newProfile));
+    }
+    return saved;
+  };
+
+  // Registro de peso: el servidor devuelve el peso del perfil (el del registro
+  // más reciente) y las metas se recalculan con él
+  const applyProfileWeight = (weight: number | null): boolean => {
+    if (weight === null) return false;
+    if (profile && weight !== profile.weight) {
+      const newProfile = { ...profile, weight };
+      setProfileState(newProfile);
+      setNutritionalNeeds(calculateNutritionalNeeds(newProfile));
+    }
+    return true;
+  };
+
+  const logWeight = async (date: string, weightKg: number): Promise<boolean> => {
+    if (!userId || !accessToken) return false;
+    return applyProfileWeight(await saveWeight(userId, accessToken, date, weightKg));
+  };
+
+  const removeWeight = async (date: string): Promise<boolean> => {
+    if (!userId || !accessToken) return false;
+    return applyProfileWeight(await deleteWeight(userId, accessToken, date));
+  };
+
+  const addWater = async (volumeMl: number = units.containerMl, beverage: BeverageType = "water"): Promise<WaterEntry | null> => {
     if (!userId || !accessToken) {
       console.error("No userId or accessToken available");
-      return;
+      return null;
     }
 
     try {
@@ -373,7 +571,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
             "Content-Type": "application/json",
             Authorization: `Bearer ${accessToken}`,
           },
-          body: JSON.stringify({ glasses }),
+          body: JSON.stringify({ volumeMl, beverage }),
         }
       );
 
@@ -384,38 +582,123 @@ export function UserProvider({ children }: { children: ReactNode }) {
       }
 
       const data = await response.json();
+      const entry: WaterEntry = data.entry;
       setWaterGlasses(data.waterGlasses);
+      setWaterEntries((prev) => [...prev, entry]);
       debugLog('UserContext', 'Water added successfully:', data.waterGlasses);
+
+      // Undo toast for accidental taps
+      toast(m.water.logged(fmt.volume(volumeMl)), {
+        description: m.water.todayTotal(fmt.containers(data.waterMl)),
+        action: {
+          label: m.common.undo,
+          onClick: () => {
+            void removeWaterEntry(entry.id);
+          },
+        },
+      });
+
       try {
-        await showNotification('Hidratación registrada', {
-          body: `¡Has registrado ${glasses} vaso(s) de agua! Llevas ${data.waterGlasses} hoy.`,
+        await showNotification(m.water.notificationTitle, {
+          body: m.water.notificationBody(fmt.volume(volumeMl), fmt.containers(data.waterMl)),
           tag: 'hydration-logged',
           data: { url: '/hydration' },
         });
       } catch (e) {
         console.debug('Notification failed after addWater:', e);
       }
+      return entry;
     } catch (error) {
       debugError('UserContext', 'Error adding water:', error);
+      return null;
+    }
+  };
+
+  const updateWaterEntry = async (entryId: string, changes: { volumeMl?: number; beverage?: BeverageType }) => {
+    if (!userId || !accessToken) {
+      console.error("No userId or accessToken available");
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/hydration/${userId}/entries/${entryId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(changes),
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        debugError('UserContext', 'Failed to update water entry:', errorText);
+        throw new Error("Failed to update water entry");
+      }
+
+      const data = await response.json();
+      setWaterGlasses(data.waterGlasses);
+      setWaterEntries((prev) => prev.map((e) => (e.id === entryId ? data.entry : e)));
+    } catch (error) {
+      debugError('UserContext', 'Error updating water entry:', error);
+    }
+  };
+
+  const removeWaterEntry = async (entryId: string) => {
+    if (!userId || !accessToken) {
+      console.error("No userId or accessToken available");
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/hydration/${userId}/entries/${entryId}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        debugError('UserContext', 'Failed to remove water entry:', errorText);
+        throw new Error("Failed to remove water entry");
+      }
+
+      const data = await response.json();
+      setWaterGlasses(data.waterGlasses);
+      setWaterEntries((prev) => prev.filter((e) => e.id !== entryId));
+      debugLog('UserContext', 'Water entry removed:', entryId);
+    } catch (error) {
+      debugError('UserContext', 'Error removing water entry:', error);
+      toast.error(m.water.undoFailed);
     }
   };
 
-  const updateMealIntake = async (meal: "breakfast" | "lunch" | "dinner", intake: MealIntake) => {
+  const updateMealIntake = async (meal: string, intake: MealIntake) => {
     if (!userId || !accessToken) {
       console.error("No userId or accessToken available");
       return;
     }
 
+    // Reuse the slot's meal id so repeated edits update the same meal
+    const mealId = intake.id ?? mealIntakes[meal]?.id ?? crypto.randomUUID();
+
     setMealIntakes((prev) => ({
       ...prev,
-      [meal]: intake,
+      [meal]: { ...intake, id: mealId },
     }));
 
     try {
       const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/nutrition/${userId}`,
+        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/nutrition/${userId}/meals/${mealId}`,
         {
-          method: "POST",
+          method: "PUT",
           headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${accessToken}`,
@@ -425,6 +708,9 @@ export function UserProvider({ children }: { children: ReactNode }) {
               type: meal,
               protein: intake.protein,
               fiber: intake.fiber,
+              ...Object.fromEntries(
+                EXTRA_NUTRIENT_KEYS.filter((key) => intake[key] !== undefined).map((key) => [key, intake[key]])
+              ),
             },
           }),
         }
@@ -444,12 +730,84 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const getTotalIntake = () => {
-    const totalProtein = mealIntakes.breakfast.protein + mealIntakes.lunch.protein + mealIntakes.dinner.protein;
-    const totalFiber = mealIntakes.breakfast.fiber + mealIntakes.lunch.fiber + mealIntakes.dinner.fiber;
-    return { protein: totalProtein, fiber: totalFiber };
+  const deleteMealIntake = async (meal: string) => {
+    if (!userId || !accessToken) {
+      console.error("No userId or accessToken available");
+      return;
+    }
+
+    const mealId = mealIntakes[meal]?.id;
+    setMealIntakes((prev) => ({
+      ...prev,
+      [meal]: { protein: 0, fiber: 0 },
+    }));
+
+    if (!mealId) return;
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/nutrition/${userId}/meals/${mealId}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok && response.status !== 404) {
+        const errorText = await response.text();
+        debugError('UserContext', 'Failed to delete meal:', errorText);
+        throw new Error("Failed to delete meal");
+      }
+
+      debugLog('UserContext', 'Meal deleted successfully');
+      await refreshData();
+    } catch (error) {
+      debugError('UserContext', 'Error deleting meal:', error);
+    }
+  };
+
+  // Copiar la comida de ayer de este slot a hoy (reemplaza la de hoy)
+  const repeatYesterdayMeal = async (meal: string) => {
+    if (!userId || !accessToken) {
+      console.error("No userId or accessToken available");
+      return "error" as const;
+    }
+
+    try {
+      const response = await fetch(
+        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/nutrition/${userId}/meals/repeat`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({ type: meal }),
+        }
+      );
+
+      if (response.status === 404) {
+        return "not_found" as const;
+      }
+      if (!response.ok) {
+        const errorText = await response.text();
+        debugError('UserContext', 'Failed to repeat meal:', errorText);
+        throw new Error("Failed to repeat meal");
+      }
+
+      debugLog('UserContext', 'Meal repeated from yesterday');
+      await refreshData();
+      return "repeated" as const;
+    } catch (error) {
+      debugError('UserContext', 'Error repeating meal:', error);
+      return "error" as const;
+    }
   };
 
+  const getTotalIntake = () => sumNutrients(Object.values(mealIntakes));
+
   const refreshData = async () => {
     if (!userId || !accessToken) {
       console.log("refreshData: No userId or accessToken");
@@ -481,21 +839,24 @@ export function UserProvider({ children }: { children: ReactNode }) {
         
         if (summary.daily) {
           setWaterGlasses(summary.daily.waterGlasses || 0);
+          setWaterEntries(summary.daily.waterEntries || []);
+          setWorkouts(summary.daily.workouts || []);
+          setTemperatureC(summary.daily.temperatureC ?? null);
           console.log("refreshData: Water glasses set", summary.daily.waterGlasses || 0);
           
-          // Reconstruct meal intakes from meals array
+          // Reconstruct meal intakes from meals array (one meal per slot)
           const meals = summary.daily.meals || [];
-          const newMealIntakes = {
-            breakfast: { protein: 0, fiber: 0 },
-            lunch: { protein: 0, fiber: 0 },
-            dinner: { protein: 0, fiber: 0 },
-          };
+          const newMealIntakes: Record<string, MealIntake> = {};
 
           meals.forEach((meal: any) => {
-            if (meal.type && newMealIntakes[meal.type as keyof typeof newMealIntakes]) {
-              newMealIntakes[meal.type as keyof typeof newMealIntakes] = {
+            if (meal.type) {
+              newMealIntakes[meal.type] = {
+                id: meal.id,
                 protein: meal.protein || 0,
                 fiber: meal.fiber || 0,
+                ...Object.fromEntries(
+                  EXTRA_NUTRIENT_KEYS.filter((key) => typeof meal[key] === "number").map((key) => [key, meal[key]])
+                ),
               };
             }
           });
@@ -507,36 +868,20 @@ export function UserProvider({ children }: { children: ReactNode }) {
         console.log("refreshData: Summary response not ok", summaryResponse.status);
       }
 
-      // Get history
-      const historyResponse = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/hydration/${userId}?days=14`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
+      // Get history (last 14 Lumi days, oldest first)
+      const today = getDayKey(profile?.timeZone || getBrowserTimeZone(), profile?.dayStartTime || "00:00");
+      const history = await getHistory(userId, accessToken, addDays(today, -13), today);
 
-      if (historyResponse.ok) {
-        const historyData = await historyResponse.json();
-        const history = historyData.history || [];
-        
-        // Convert to DailyProgress format
-        const formattedHistory: DailyProgress[] = history.map((day: any) => {
-          const proteinMet = nutritionalNeeds ? day.totalProtein >= nutritionalNeeds.dailyProtein * 0.8 : false;
-          const fiberMet = nutritionalNeeds ? day.totalFiber >= nutritionalNeeds.dailyFiber * 0.8 : false;
-          
-          return {
-            date: day.date,
-            isBalanced: proteinMet && fiberMet,
-            waterGlasses: day.waterGlasses || 0,
-            totalProtein: day.totalProtein || 0,
-            totalFiber: day.totalFiber || 0,
-          };
-        });
+      // Convert to DailyProgress format
+      const formattedHistory: DailyProgress[] = history.map((day) => ({
+        date: day.date,
+        isBalanced: day.isBalanced,
+        waterGlasses: day.waterGlasses || 0,
+        totalProtein: day.totalProtein || 0,
+        totalFiber: day.totalFiber || 0,
+      }));
 
-        setDailyHistory(formattedHistory);
-      }
+      setDailyHistory(formattedHistory);
     } catch (error) {
       console.error("Error refreshing data:", error);
     }
@@ -551,15 +896,22 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   }, [nutritionalNeeds]); // Only trigger when nutritionalNeeds changes
 
+  // Las comidas por defecto toman el nombre del idioma actual hasta que el usuario las edite
+  const mealSlots = sortMealSlots(
+    profile?.mealSlots ??
+      DEFAULT_MEAL_SLOTS.map((slot) => ({ ...slot, name: m.mealSlots.defaultNames[slot.id] ?? slot.name })),
+    profile?.dayStartTime
+  );
+
   const checkAndUpdateDailyProgress = () => {
     if (!nutritionalNeeds) return;
     
-    const totalIntake = getTotalIntake();
-    const proteinMet = totalIntake.protein >= nutritionalNeeds.dailyProtein * 0.8; // 80% threshold
-    const fiberMet = totalIntake.fiber >= nutritionalNeeds.dailyFiber * 0.8;
-    
-    const isBalanced = proteinMet && fiberMet;
-    return isBalanced;
+    // Misma regla que el dashboard, el dispositivo y la racha
+    return isBalanced(
+      getTotalIntake(),
+      { protein: nutritionalNeeds.dailyProtein, fiber: nutritionalNeeds.dailyFiber },
+      nutritionalNeeds.balanceThreshold
+    );
   };
 
   return (
@@ -573,11 +925,29 @@ export function UserProvider({ children }: { children: ReactNode }) {
         setAuth,
         setProfile,
         setUserProfile: setProfile,
+        setGoalOverrides,
+        logWeight,
+        removeWeight,
+        units,
+        language,
+        setLanguage,
+        mealSlots,
         mealIntakes,
         updateMealIntake,
+        deleteMealIntake,
+        repeatYesterdayMeal,
         getTotalIntake,
         waterGlasses,
+        waterEntries,
         addWater,
+        updateWaterEntry,
+        removeWaterEntry,
+        workouts,
+        temperatureC,
+        waterGoal,
+        addWorkout,
+        removeWorkout,
+        setTemperature,
         dailyHistory,
         streakData,
         checkAndUpdateDailyProgress,
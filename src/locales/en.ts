@@ -0,0 +1,683 @@
+// Catálogo en inglés. Mismas claves que es.ts (el tipo Messages lo verifica).
+
+import { Messages } from "./es";
+
+const CALORIES_SOURCE = "Mifflin-St Jeor × activity";
+
+export const en: Messages = {
+  common: {
+    save: "Save",
+    saving: "Saving...",
+    delete: "Delete",
+    clear: "Clear",
+    add: "Add",
+    undo: "Undo",
+    back: "Back",
+    continue: "Continue",
+    withUnit: (label, unit) => `${label} (${unit})`,
+    proteinAndFiber: (protein, fiber) => `${protein} protein · ${fiber} fiber`,
+    weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+    weekdayInitials: ["S", "M", "T", "W", "T", "F", "S"],
+  },
+  language: {
+    title: "Language",
+    names: { es: "Español", en: "English" },
+  },
+  nav: {
+    home: "Home",
+    meals: "Meals",
+    history: "History",
+    profile: "Profile",
+  },
+  app: {
+    loading: "Loading Lumi...",
+  },
+  auth: {
+    serverConnected: "✅ Server connected",
+    title: "Welcome to Lumi",
+    loginSubtitle: "Sign in to keep taking care of yourself",
+    signupSubtitle: "Create your account to get started",
+    name: "Name",
+    namePlaceholder: "Your name",
+    email: "Email",
+    emailPlaceholder: "you@email.com",
+    password: "Password",
+    schedule: "Your day's schedule",
+    dayStart: "Starts",
+    dayEnd: "Ends",
+    scheduleHint: "We'll use this schedule to reset your daily habits and send you personalized reminders.",
+    pleaseWait: "Just a moment...",
+    signIn: "Sign in",
+    createAccount: "Create account",
+    noAccount: "Don't have an account?",
+    signUpLink: "Sign up",
+    haveAccount: "Already have an account?",
+    signInLink: "Sign in",
+    privacy: "🔒 Your data is encrypted and stored securely. Track your hydration, nutrition and wellbeing with Lumi.",
+    errors: {
+      signIn: (message) => `Sign-in error: ${message}`,
+      noSession: "Sign-in error: the session could not be created",
+      nameRequired: "Please enter your name",
+      passwordTooShort: "Your password must be at least 6 characters",
+      signUpFailed: "The account could not be created",
+      autoLoginFailed: "Your account was created but signing in failed. Please try signing in.",
+      unexpected: (message) => `Unexpected error: ${message}`,
+      tryAgain: "Please try again",
+    },
+  },
+  onboarding: {
+    welcome: {
+      title: "Hi! I'm Lumi ✨",
+      subtitle: "Your glowing bestie who's got you 24/7",
+      description: "I'm a smart keychain that glows in magic colors to guide you to your best self",
+      vibe: "Every color has its own vibe 🌈",
+      next: "Discover the colors",
+    },
+    blue: {
+      badge: "Blue - Hydration",
+      title: "💧 Give your body some water!",
+      intro: {
+        before: "When I glow ",
+        highlight: "blue",
+        after: ", it's your chill reminder that you need to hydrate",
+      },
+      points: [
+        "I give you a gentle reminder to drink water",
+        "I show up every so often if you forget your H₂O",
+        "I relax when you log your glass 🌊",
+      ],
+    },
+    orange: {
+      badge: "Orange - Nutrition Alert",
+      title: "🍽️ Time to eat with power!",
+      intro: {
+        before: "When I glow ",
+        highlight: "orange",
+        after: ', it\'s my way of saying: "Hey, your meals need more nourishing love!"',
+      },
+      points: [
+        "I let you know when you need more protein or fiber",
+        "It's my nudge to add food that truly nourishes",
+        "I turn green when your nutrition improves",
+      ],
+    },
+    green: {
+      badge: "Green - Balance",
+      title: "🌸 Now that's balance!",
+      intro: {
+        before: "When I turn ",
+        highlight: "green",
+        after: ", I'm celebrating that you're eating super well",
+      },
+      points: [
+        "I glow like this when you hit your protein and fiber goals",
+        'It\'s my way of saying "So nourishing, I love it!"',
+        "Your sign that you're on the right track 🚀",
+      ],
+    },
+    yellow: {
+      badge: "Yellow - Total Perfection",
+      title: "✨ You're shining!",
+      intro: {
+        before: "Soft ",
+        highlight: "yellow",
+        after: " is my highest level of happiness — you're at your best!",
+      },
+      points: [
+        "I glow like this when you hit ALL your goals for the day",
+        "Hydration ✓ Protein ✓ Fiber ✓ Full balance!",
+        'It\'s my way of saying "You\'re amazing!" 🌟',
+      ],
+    },
+    nextColor: "Next color",
+    start: "Let's start",
+  },
+  profileFields: {
+    gender: { male: "Male", female: "Female", other: "Other" },
+    activity: {
+      sedentary: "Sedentary",
+      light: "Lightly active",
+      moderate: "Moderately active",
+      very: "Very active",
+    },
+    activityDetail: {
+      sedentary: "Sedentary (little or no exercise)",
+      light: "Light (1-3 days/week)",
+      moderate: "Moderate (3-5 days/week)",
+      very: "Very active (6-7 days/week)",
+    },
+    lifeStage: { none: "None", pregnant: "Pregnancy", lactating: "Breastfeeding" },
+    trimester: (trimester) => ["1st", "2nd", "3rd"][trimester - 1] ?? `${trimester}th`,
+    years: (age) => `${age} years old`,
+  },
+  profileSetup: {
+    title: "Create your profile",
+    subtitle: "Help us personalize your path to wellbeing",
+    name: "Name",
+    namePlaceholder: "Your name",
+    age: "Age",
+    gender: "Gender",
+    select: "Select",
+    adolescentNote: "We'll adjust your protein and fiber goals for teens.",
+    olderAdultNote: "We'll raise your protein goal to help you keep your muscle.",
+    lifeStage: "Pregnancy or breastfeeding",
+    lifeStageNone: "None",
+    pregnant: "Pregnant",
+    lactating: "Breastfeeding",
+    trimester: "Trimester",
+    metric: "Metric (kg, cm)",
+    imperial: "Imperial (lb, ft)",
+    weight: (unit) => `Weight (${unit})`,
+    heightImperial: "Height (ft, in)",
+    heightMetric: "Height (cm)",
+    activity: "Activity level",
+    activityPlaceholder: "Choose your activity level",
+    privacy:
+      "🔒 Your data is private and stored securely. We use this information to calculate your personalized daily goals.",
+  },
+  bluetooth: {
+    connectedTo: (device) => `Connected to ${device}! ✨`,
+    connectingTitle: "Connecting to Lumi...",
+    connectTitle: "Connect your Lumi",
+    ready: "Your Lumi is ready to shine",
+    selectDevice: "Select your Arduino Nano",
+    keepClose: "Make sure your device is nearby",
+    unsupportedHint: "Open this app in Chrome, Edge or Opera",
+    entering: "Entering your wellbeing space...",
+    connecting: "Connecting...",
+    connect: "Connect to Lumi",
+    skip: "Skip for now",
+    defaultDeviceName: "BLE device",
+    errors: {
+      unsupported: "Bluetooth isn't available in this browser. Use Chrome, Edge or Opera.",
+      disconnected: "Device disconnected",
+      httpsRequired: "Bluetooth requires HTTPS. Please open the app over HTTPS.",
+      noDeviceSelected: "No device was selected",
+      gattFailed: "Could not connect to the GATT server",
+      noWritableCharacteristic: "No writable characteristic was found on the BLE device",
+      connectFailed: "Connection error",
+      security: "Bluetooth is blocked by a security policy. Check that you're using HTTPS and that permissions are enabled.",
+      notFound: "No Arduino Nano device was found. Make sure it's on and nearby.",
+      notAllowed: "Permission denied. Please allow Bluetooth access.",
+      notConnected: "No active Bluetooth connection",
+      sendFailed: "Error sending the command to the device",
+    },
+    notifications: {
+      disconnected: { title: "Lumi disconnected", body: "The connection to your Lumi device was lost." },
+      connected: { title: "Lumi connected", body: (device) => `Connected to ${device}` },
+      errorTitle: "Bluetooth error",
+      commands: {
+        off: { title: "Lumi off", body: "Your Lumi was turned off." },
+        water: {
+          title: "Time to hydrate",
+          body: "Your Lumi says you need water. Tap to see the reminder.",
+        },
+        balanced: { title: "Balanced nutrition", body: "Your Lumi shows a balanced nutrition status." },
+        unbalanced: {
+          title: "Unbalanced nutrition",
+          body: "Your Lumi says your last meal wasn't balanced.",
+        },
+        greatFinish: { title: "Great job!", body: "You finished an activity with good form. Keep it up." },
+        badFinish: {
+          title: "Activity incomplete",
+          body: "Your Lumi marked a poor finish. Try to do better next time.",
+        },
+      },
+      unknownCommand: { title: "Command sent", body: (command) => `Command ${command} was sent` },
+    },
+  },
+  hydrationAlert: {
+    title: "Your body is calling! 💧",
+    description: "Your Lumi is glowing blue because you need to hydrate. Give yourself the H₂O boost you deserve!",
+    drank: "I drank water",
+    snooze: "Remind me in 10 min",
+    funFactLabel: "Fun fact:",
+    funFact: "Water gives your brain superpowers, fills you with energy and makes your skin shine like a diamond ✨",
+  },
+  nutrients: {
+    protein: "Protein",
+    fiber: "Fiber",
+    calories: "Calories",
+    carbs: "Carbs",
+    fat: "Fat",
+    addedSugar: "Added sugar",
+    sodium: "Sodium",
+  },
+  beverages: {
+    water: "Water",
+    sparkling: "Sparkling",
+    tea: "Tea",
+    coffee: "Coffee",
+  },
+  workouts: {
+    light: "Light",
+    moderate: "Moderate",
+    vigorous: "Vigorous",
+  },
+  guidelines: {
+    iom: {
+      label: "IOM",
+      description: "Dietary Reference Intakes from the Institute of Medicine (US)",
+      sources: {
+        protein: "IOM · 1.0–1.6 g/kg by activity",
+        fiber: "IOM · adequate intake by sex and age",
+        waterMl: "33 ml/kg of body weight",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    efsa: {
+      label: "EFSA",
+      description: "Dietary Reference Values from the European Food Safety Authority",
+      sources: {
+        protein: "EFSA · 0.83 g/kg",
+        fiber: "EFSA · 25 g",
+        waterMl: "EFSA · 2.5 L men / 2.0 L women, 80% from drinks",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    who: {
+      label: "WHO",
+      description: "World Health Organization recommendations",
+      sources: {
+        protein: "WHO/FAO/UNU · 0.83 g/kg",
+        fiber: "WHO · 25 g",
+        waterMl: "33 ml/kg of body weight",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    sports: {
+      label: "Sports",
+      description: "Sports nutrition (ISSN): more protein and a 90% balance threshold",
+      sources: {
+        protein: "ISSN · 1.6–2.2 g/kg by activity",
+        fiber: "IOM · adequate intake by sex and age",
+        waterMl: "40 ml/kg of body weight",
+        calories: CALORIES_SOURCE,
+      },
+    },
+  },
+  dashboard: {
+    todayBalance: "Today's balance",
+    connectedTo: (device) => `Connected: ${device}`,
+    disconnected: "Disconnected",
+    lumi: {
+      shining: "You're shining! ✨",
+      nourished: "Super nourishing! 🌸",
+      thirsty: "Drink some water! 💧",
+      hungry: "Time for a tasty meal! 🍽️",
+    },
+    hydration: "Hydration 💧",
+    waterProgress: (done, goal, containers) => `${done} of ${goal} ${containers}`,
+    extraWater: (volume) => ` · +${volume} for activity and heat`,
+    addWater: "Log water (press and hold to choose an amount)",
+    waterMessages: {
+      done: "✨ You're an H₂O legend! Pro-level hydration",
+      almost: "🌊 Almost there! One more glass and you're unstoppable",
+      halfway: "💙 You're doing great! Keep it up, drink water",
+      low: "🐠 Your body is asking for water, give it some liquid love!",
+    },
+    removeEntry: "Delete entry",
+    nutrition: "Nutrition",
+    balancedMeals: (count) => `${count} ${count === 1 ? "balanced meal" : "balanced meals"}`,
+    week: "Your week",
+    perDay: (containers) => `${containers} / day`,
+    waterGoalDays: "days at water goal",
+    balancedDays: "balanced days",
+    bestWeekday: (weekday) => `Your best hydration day was ${weekday}. `,
+    timeOfDayShare: (share, timeOfDay) => `You drink ${share}% of your water ${timeOfDay}.`,
+    timeOfDay: {
+      morning: "in the morning",
+      afternoon: "in the afternoon",
+      evening: "in the evening",
+      night: "at night",
+    },
+    tip: "✨ Pro tip: Go to Meals and log your meals to track your full glow-up",
+  },
+  waterPicker: {
+    title: "What did you drink? 💧",
+    description: "Choose the drink and the amount",
+  },
+  dayConditions: {
+    title: "Activity and heat",
+    extraWater: (volume) => `+${volume} of water today`,
+    workouts: "Today's workouts",
+    noWorkouts: "No workouts logged",
+    workout: (minutes, intensity) => `${minutes} min · ${intensity}`,
+    removeWorkout: "Delete workout",
+    minutes: "Minutes",
+    durationError: (max) => `Enter a duration between 1 and ${max} minutes`,
+    workoutFailed: "The workout could not be logged",
+    workoutSaved: "Workout logged, your water goal went up 💪",
+    temperature: "Today's temperature",
+    hotDay: "Hot day",
+    temperatureError: "Enter a valid temperature",
+    temperatureFailed: "The temperature could not be saved",
+    hotDaySaved: "Hot day: drink a little more ☀️",
+    temperatureSaved: "Temperature saved",
+  },
+  units: {
+    title: "Units",
+    metric: "Metric",
+    imperial: "Imperial",
+    countIn: "I count water in",
+    glass: "Glass",
+    bottle: "Bottle",
+    containerNames: {
+      glass: (plural) => (plural ? "glasses" : "glass"),
+      bottle: (plural) => (plural ? "bottles" : "bottle"),
+    },
+    useSize: "Use this size",
+    sizeError: (min, max) => `The size must be between ${min} and ${max}`,
+    sizeSaved: (volume) => `You now count water in ${volume} containers`,
+  },
+  goals: {
+    title: "Custom goals",
+    description:
+      "Use these fields if your doctor or dietitian gave you different goals. Leave a field empty to use the calculated goal.",
+    water: (unit) => `Water (${unit})`,
+    invalid: (label) => `${label}: enter a number greater than 0`,
+    saveFailed: "Your goals could not be saved",
+    saved: "Custom goals saved",
+    reset: "You're back on the calculated goals",
+    useCalculated: "Use calculated goals",
+  },
+  nutrition: {
+    completeProfile: "Please complete your profile first",
+    title: "Daily Nutrition",
+    subtitle: "Track your luminous meals",
+    recipes: "Recipes",
+    meals: "Meals",
+    dailyProtein: "Daily protein",
+    dailyFiber: "Daily fiber",
+    max: " (max)",
+    todayBalance: "Today's balance",
+    perfectBalance: "Perfect balance! 🌸",
+    balanceHint: "Every balanced meal helps your light grow",
+    bloomed: (percent) => `${percent}% bloomed`,
+    petals: "Petals",
+    repeated: (meal) => `Yesterday's ${meal.toLowerCase()} logged`,
+    notFoundYesterday: (meal) => `You didn't log ${meal.toLowerCase()} yesterday`,
+    repeatFailed: "The meal could not be repeated. Please try again.",
+    templateSaveFailed: "The favorite could not be saved. Please try again.",
+    templateSaved: (name) => `"${name}" saved to favorites`,
+    foodAdded: (food, quantity, portion, meal) => `${food} (${quantity} × ${portion}) added to ${meal}`,
+    templateApplied: (template, meal) => `${template} logged for ${meal}`,
+    searchFood: (meal) => `Search food for ${meal}`,
+    favoritesOf: (meal) => `${meal} favorites`,
+    repeatYesterday: (meal) => `Repeat yesterday's ${meal.toLowerCase()}`,
+    favorites: "Favorites",
+    templateProtein: (protein) => `${protein} P`,
+    deleteTemplate: (name) => `Delete ${name}`,
+    saveAsFavorite: "Save as favorite",
+    clearMeal: (meal) => `Clear ${meal}`,
+    moreNutrients: "More nutrients",
+    maxPlaceholder: (value) => `max ${value}`,
+    templatePlaceholder: "e.g. Oatmeal with banana",
+  },
+  foodSearch: {
+    title: (target) => `Add to ${target}`,
+    description: "Search for a food and choose the portion",
+    placeholder: "Search food, e.g. lentils",
+    myRecipes: "My recipes",
+    myFoods: "My foods",
+    foods: "Foods",
+    create: (query) => (query ? `Create food "${query}"` : "Create food"),
+    quantity: "Quantity",
+    name: "Name",
+    portion: "Portion",
+    defaultPortion: "1 serving",
+    recipePortion: "1 recipe serving",
+    saveFood: "Save food",
+    errors: {
+      required: "Enter the food's name and portion",
+      saveFailed: "The food could not be saved. Please try again.",
+    },
+  },
+  recipes: {
+    title: "My recipes",
+    subtitle: "Log your dishes in one tap",
+    newRecipe: "New recipe",
+    editRecipe: "Edit recipe",
+    draftSubtitle: "Nutrients are calculated from the ingredients",
+    loading: "Loading recipes...",
+    empty: 'Create a recipe once and log it in any meal as "1 serving".',
+    summary: (servings, protein, fiber, calories) =>
+      `${servings} servings · per serving: ${protein} protein · ${fiber} fiber · ${calories}`,
+    name: "Name",
+    namePlaceholder: "e.g. Grandma's lentils",
+    servings: "Servings",
+    ingredients: "Ingredients",
+    noIngredients: "No ingredients yet",
+    removeIngredient: (name) => `Remove ${name}`,
+    addIngredient: "Add ingredient",
+    perServing: "Per serving",
+    discard: "Discard",
+    saveRecipe: "Save recipe",
+    saved: (name) => `Recipe "${name}" saved`,
+    fallbackTarget: "the recipe",
+    errors: {
+      nameRequired: "Give your recipe a name",
+      noIngredients: "Add at least one ingredient",
+      saveFailed: "The recipe could not be saved. Please try again.",
+      deleteFailed: "The recipe could not be deleted. Please try again.",
+    },
+  },
+  history: {
+    title: "History",
+    subtitle: "Your days of light, one by one",
+    trends: "Trends",
+    balancedDays: "Balanced days",
+    logged: (count) => ` / ${count} logged`,
+    averageHydration: "Average hydration",
+    legend: {
+      balanced: "Balanced",
+      unbalanced: "Unbalanced",
+      waterFull: "Water 100%",
+      waterHalf: "Water ≥ 50%",
+    },
+    dayBalanced: "Balanced day ✨",
+    dayUnbalanced: "Unbalanced day",
+    noRecords: "Nothing logged this day",
+    backdateHint: "Forgot to log something? You can still add water to yesterday.",
+    backdated: (volume) => `+${volume} logged for yesterday 💧`,
+    dayClosed: "That day is already closed and can't be changed",
+    water: "Water",
+    waterSummary: (volume, percent) => `${volume} · ${percent}% of your goal`,
+    noWater: "No water logged",
+    meals: "Meals",
+    noMeals: "No meals logged",
+    balancedNote: (percent) => `You reached at least ${percent}% of your protein and fiber`,
+  },
+  insights: {
+    title: "Trends",
+    subtitle: "Averages of the days you logged",
+    weekly: "Weekly",
+    monthly: "Monthly",
+    loading: "Loading trends...",
+    notEnoughData: "There aren't enough logged days yet. Come back after a few days of light ✨",
+    water: "Water",
+    waterSeries: (containers) => `${containers[0].toUpperCase()}${containers.slice(1)} of water`,
+    waterGoal: "Goal",
+    waterSubtitle: (series) => `${series} per day · the line is each period's goal`,
+    nutrients: "Protein and fiber",
+    nutrientsSubtitle: (summary) => `% of each day's goal in force (today ${summary})`,
+    balancedDays: "Balanced days",
+    balancedSubtitle: "% of logged days",
+  },
+  profile: {
+    loading: "Loading your profile...",
+    logout: "Sign out",
+    title: "Your Profile",
+    subtitle: "Information and progress",
+    reconnect: "Reconnect",
+    defaultName: "User",
+    edit: "Edit profile",
+    weightHistory: "Weight history",
+    weight: "Weight",
+    height: "Height",
+    goals: "Nutrition Goals",
+    customize: "Customize",
+    lockedBy: (coach) => `${coach} set your goals; only your coach can change them`,
+    guidelineSelected: (guideline) => `Goals calculated with the ${guideline} guideline`,
+    lifeStageNotes: {
+      pregnant: (trimester) => `Adjusted for pregnancy (${["1st", "2nd", "3rd"][trimester - 1] ?? trimester} trimester)`,
+      lactating: "Adjusted for breastfeeding",
+      adolescent: "Adjusted for teens",
+      olderAdult: "Protein adjusted for older adults",
+    },
+    dailyProtein: "Daily protein",
+    dailyFiber: "Daily fiber",
+    dailyWater: "Daily water",
+    calories: "Calories",
+    lockedGoal: (coach) => `Set by ${coach}`,
+    customGoal: "Custom goal",
+    balancedDay: "Balanced day",
+    balancedRule: (percent) => `Protein and fiber ≥ ${percent}%`,
+    activityLevel: "Activity level",
+    device: "Lumi device",
+    connected: "Connected",
+    disconnect: "Disconnect",
+    connectedHint: "Your Lumi will change color automatically based on your habits",
+    notConnected: "Not connected",
+    notConnectedHint: "Connect your Lumi keychain to get wellbeing notifications",
+    connect: "Connect Lumi",
+    notifications: {
+      title: "Notifications",
+      status: "Current status: ",
+      permission: { granted: "allowed", denied: "blocked", default: "not decided" },
+      unsupported: "not supported",
+      enable: "Enable notifications",
+      enabledTitle: "Notifications enabled",
+      enabledBody: "You've enabled notifications.",
+      showPromptAgain: "Show the prompt again",
+      promptResetTitle: "Reminder turned back on",
+      promptResetBody: "You'll see the reminder to enable notifications again.",
+      hint: "Notifications work best when the app is installed as a PWA and the service worker is allowed.",
+    },
+    streak: {
+      title: "Balance Streak",
+      current: "Current streak",
+      days: "days",
+      longest: "Best streak",
+      longestDays: (days) => `${days} days`,
+      last7Days: "Last 7 days",
+      sevenDaysAgo: "7d ago",
+      today: "Today",
+      freezes: "Streak freezes",
+      freezesHint: "You earn one every 7 balanced days in a row. If you miss your goal one day, it's used automatically.",
+      freezeUsed: (date, streak) => `❄️ ${date} · saved your ${streak}-day streak`,
+      restDays: "Rest days",
+      restDaysHint: (max) => `Up to ${max} per week: on those days your streak won't break even if you miss your goal.`,
+      tooManyRestDays: (max) => `You can choose up to ${max} rest days per week`,
+      recalculate: "Recalculate streak",
+      recalculating: "Recalculating...",
+      recalculated: "Streak recalculated",
+      upToDate: "Your streak was already up to date ✨",
+      recalculateFailed: "Your streak could not be recalculated. Please try again.",
+      changes: {
+        current: ({ before, after }) => `current streak ${before} → ${after}`,
+        longest: ({ before, after }) => `best streak ${before} → ${after}`,
+        freezes: ({ before, after }) => `freezes ${before} → ${after}`,
+        fixedDays: (count) => (count === 1 ? "1 day fixed" : `${count} days fixed`),
+      },
+      messages: [
+        "Your adventure starts today! Hit play 🌟",
+        "That's my team! Let's keep going 🔥",
+        "On fire! You're unstoppable 🚀",
+        "WOW! A whole week of being amazing ✨",
+        "LEGENDARY! Your energy is contagious 🌈💫",
+      ],
+    },
+    balancedDays: "Balanced days",
+    ofLogged: (count) => `of ${count} logged`,
+    successRate: "Success rate",
+    last14Days: "last 14 days",
+  },
+  editProfile: {
+    title: "Edit profile",
+    subtitle: "Your goals are recalculated from these details",
+    feet: "ft",
+    inches: "in",
+    dayStart: "Day starts",
+    dayEnd: "Day ends",
+    scheduleHint: "Your meals have to fit within this schedule",
+    goalsDiff: "Your goals",
+    goalsDiffHint: "Before and after saving",
+    noChanges: "Your goals stay the same",
+    saved: "Profile updated ✨",
+    saveFailed: "Your profile could not be saved. Please try again.",
+    errors: {
+      required: "This field is required",
+      range: (min, max) => `Must be between ${min} and ${max}`,
+      wholeNumber: "Use a whole number",
+      sameTimes: "Your day must start and end at different times",
+    },
+  },
+  weight: {
+    title: "Your weight",
+    subtitle: "Your goals use your latest entry",
+    date: "Date",
+    log: "Log weight",
+    hint: "Each day keeps its own weight: past days are judged with the weight you had then.",
+    saved: (weight) => `Weight logged: ${weight}`,
+    saveFailed: "Your weight could not be logged. Please try again.",
+    deleteFailed: "The entry could not be deleted",
+    delete: (date) => `Delete the weight of ${date}`,
+    outOfRange: (min, max) => `Weight must be between ${min} and ${max}`,
+    loading: "Loading your log...",
+    empty: "You haven't logged your weight yet. Start today ✨",
+    chart: "Progress",
+  },
+  pwa: {
+    installed: "Installed",
+    install: "Install Lumi",
+  },
+  notificationPrompt: {
+    question: "Do you want to get notifications?",
+    description: "Turn on notifications to get alerts when your Lumi says so (hydration, reminders).",
+    enable: "Enable",
+    later: "Remind me later",
+    enabledTitle: "Lumi is ready",
+    enabledBody: "You've enabled notifications. You'll get alerts when your Lumi says so.",
+  },
+  water: {
+    logged: (volume) => `+${volume} logged 💧`,
+    todayTotal: (containers) => `${containers} so far today`,
+    notificationTitle: "Hydration logged",
+    notificationBody: (volume, containers) => `You logged ${volume}! That's ${containers} today.`,
+    undoFailed: "The water entry could not be undone",
+  },
+  mealSlots: {
+    defaultNames: { breakfast: "Breakfast", lunch: "Lunch", dinner: "Dinner" },
+    errors: {
+      empty: "You need at least one meal",
+      tooMany: (max) => `${max} meals at most`,
+      nameRequired: "Every meal needs a name",
+      outsideDay: (name, start, end) => `${name}: the time must be between ${start} and ${end}`,
+      endBeforeStart: (name) => `${name}: the end time must be after the start`,
+    },
+    editor: {
+      title: "Your meals",
+      description: (start, end) => `Set how many times you eat a day. Your day runs from ${start} to ${end}.`,
+      icon: "Icon",
+      name: "Name",
+      from: "From",
+      to: "To",
+      until: "to",
+      snack: "Snack",
+      add: "Add meal",
+      remove: (name) => `Delete ${name}`,
+      hint: "Per-meal goals are split across your meals; a snack counts as half a meal.",
+    },
+    icons: {
+      coffee: "Coffee",
+      sun: "Sun",
+      moon: "Moon",
+      apple: "Fruit",
+      cookie: "Cookie",
+      sandwich: "Sandwich",
+      salad: "Salad",
+      cup: "Drink",
+    },
+  },
+};
@@ -0,0 +1,706 @@
+// Catálogo en español, el idioma por defecto. en.ts debe tener las mismas claves.
+// Los textos con valores son funciones; los números y unidades llegan ya
+// formateados (ver createFormatter en index.ts).
+
+import { GuidelineId } from "../shared/nutritionRules";
+import { GuidelineInfo } from "../utils/guidelines";
+import { MealSlotIcon } from "../utils/mealSlots";
+import { StreakChange } from "../utils/streak";
+
+// Las calorías usan Mifflin-St Jeor en todas las guías
+const CALORIES_SOURCE = "Mifflin-St Jeor × actividad";
+
+export const es = {
+  common: {
+    save: "Guardar",
+    saving: "Guardando...",
+    delete: "Eliminar",
+    clear: "Borrar",
+    add: "Agregar",
+    undo: "Deshacer",
+    back: "Volver",
+    continue: "Continuar",
+    withUnit: (label: string, unit: string) => `${label} (${unit})`,
+    // "30g proteína · 12g fibra", el resumen de una comida
+    proteinAndFiber: (protein: string, fiber: string) => `${protein} proteína · ${fiber} fibra`,
+    // Indexados por día de la semana (0 = domingo)
+    weekdays: ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"],
+    weekdayInitials: ["D", "L", "M", "X", "J", "V", "S"],
+  },
+  language: {
+    title: "Idioma",
+    // Cada idioma con su propio nombre, igual en todos los catálogos
+    names: { es: "Español", en: "English" },
+  },
+  nav: {
+    home: "Inicio",
+    meals: "Comidas",
+    history: "Historial",
+    profile: "Perfil",
+  },
+  app: {
+    loading: "Cargando Lumi...",
+  },
+  auth: {
+    serverConnected: "✅ Servidor conectado",
+    title: "Bienvenido a Lumi",
+    loginSubtitle: "Inicia sesión para seguir cuidando tu bienestar",
+    signupSubtitle: "Crea tu cuenta para empezar",
+    name: "Nombre",
+    namePlaceholder: "Tu nombre",
+    email: "Correo",
+    emailPlaceholder: "tu@correo.com",
+    password: "Contraseña",
+    schedule: "Horario de tu día",
+    dayStart: "Comienza",
+    dayEnd: "Termina",
+    scheduleHint:
+      "Usaremos este horario para resetear tus hábitos diarios y enviarte recordatorios personalizados.",
+    pleaseWait: "Espera un momento...",
+    signIn: "Iniciar sesión",
+    createAccount: "Crear cuenta",
+    noAccount: "¿No tienes cuenta?",
+    signUpLink: "Regístrate",
+    haveAccount: "¿Ya tienes cuenta?",
+    signInLink: "Inicia sesión",
+    privacy:
+      "🔒 Tus datos se cifran y se guardan de forma segura. Sigue tu hidratación, nutrición y bienestar con Lumi.",
+    errors: {
+      signIn: (message: string) => `Error al iniciar sesión: ${message}`,
+      noSession: "Error al iniciar sesión: No se pudo crear la sesión",
+      nameRequired: "Por favor ingresa tu nombre",
+      passwordTooShort: "La contraseña debe tener al menos 6 caracteres",
+      signUpFailed: "No se pudo crear la cuenta",
+      autoLoginFailed: "Cuenta creada pero el inicio de sesión falló. Por favor intenta iniciar sesión.",
+      unexpected: (message: string) => `Error inesperado: ${message}`,
+      tryAgain: "Por favor intenta nuevamente",
+    },
+  },
+  onboarding: {
+    welcome: {
+      title: "¡Hola! Soy Lumi ✨",
+      subtitle: "Tu bestie de luz que te cuida 24/7",
+      description: "Soy un llavero inteligente que brilla con colores mágicos para guiarte hacia tu mejor versión",
+      vibe: "Cada color tiene su vibe especial 🌈",
+      next: "Descubre los colores",
+    },
+    // Cada intro se parte alrededor del color resaltado
+    blue: {
+      badge: "Azul - Hidratación",
+      title: "💧 ¡Dale aguita a tu cuerpo!",
+      intro: {
+        before: "Cuando brillo en ",
+        highlight: "azul",
+        after: ", es tu recordatorio chill de que necesitas hidratarte",
+      },
+      points: [
+        "Te hago un reminder suave para que bebas agua",
+        "Aparezco cada rato si te olvidas del H₂O",
+        "Me relajo cuando registras tu vasito 🌊",
+      ],
+    },
+    orange: {
+      badge: "Naranja - Alerta Nutricional",
+      title: "🍽️ ¡A comer con poder!",
+      intro: {
+        before: "Cuando brillo en ",
+        highlight: "naranja",
+        after: ', es mi forma de decirte: "¡Hey, tus comidas necesitan más love nutritivo!"',
+      },
+      points: [
+        "Te aviso cuando necesitas más proteína o fibra",
+        "Es mi nudge para que agregues comida que nutre de verdad",
+        "Cambia a verde cuando mejoras tu nutrición",
+      ],
+    },
+    green: {
+      badge: "Verde - Balance",
+      title: "🌸 ¡Eso sí es balance!",
+      intro: {
+        before: "Cuando me pongo ",
+        highlight: "verde",
+        after: ", estoy celebrando que estás comiendo súper bien",
+      },
+      points: [
+        "Brillo así cuando logras tus metas de proteína y fibra",
+        'Es mi forma de decir "¡Qué nutritivo, me encanta!"',
+        "Tu señal de que estás en el camino correcto 🚀",
+      ],
+    },
+    yellow: {
+      badge: "Amarillo - Perfección Total",
+      title: "✨ ¡Estás brillando!",
+      intro: {
+        before: "El ",
+        highlight: "amarillo suave",
+        after: " es mi nivel máximo de felicidad — ¡estás en tu mejor momento!",
+      },
+      points: [
+        "Brillo así cuando logras TODAS tus metas del día",
+        "Hidratación ✓ Proteína ✓ Fibra ✓ ¡Full balance!",
+        'Es mi manera de decir "¡Eres increíble!" 🌟',
+      ],
+    },
+    nextColor: "Siguiente color",
+    start: "Comencemos",
+  },
+  // Valores del perfil que se muestran en varias pantallas
+  profileFields: {
+    gender: { male: "Masculino", female: "Femenino", other: "Otro" },
+    activity: {
+      sedentary: "Sedentario",
+      light: "Ligeramente activo",
+      moderate: "Moderadamente activo",
+      very: "Muy activo",
+    },
+    activityDetail: {
+      sedentary: "Sedentario (poco o nada de ejercicio)",
+      light: "Ligero (1-3 días/semana)",
+      moderate: "Moderado (3-5 días/semana)",
+      very: "Muy activo (6-7 días/semana)",
+    },
+    lifeStage: { none: "Ninguna", pregnant: "Embarazo", lactating: "Lactancia" },
+    trimester: (trimester: number) => `${trimester}º`,
+    years: (age: number) => `${age} años`,
+  },
+  profileSetup: {
+    title: "Crea tu perfil",
+    subtitle: "Ayúdanos a personalizar tu camino hacia el bienestar",
+    name: "Nombre",
+    namePlaceholder: "Tu nombre",
+    age: "Edad",
+    gender: "Género",
+    select: "Elegir",
+    adolescentNote: "Ajustaremos tus metas de proteína y fibra para adolescentes.",
+    olderAdultNote: "Subiremos tu meta de proteína para ayudarte a conservar tu músculo.",
+    lifeStage: "Embarazo o lactancia",
+    lifeStageNone: "Ninguno",
+    pregnant: "Embarazada",
+    lactating: "Lactando",
+    trimester: "Trimestre",
+    metric: "Métrico (kg, cm)",
+    imperial: "Imperial (lb, ft)",
+    weight: (unit: string) => `Peso (${unit})`,
+    heightImperial: "Altura (ft, in)",
+    heightMetric: "Altura (cm)",
+    activity: "Nivel de actividad",
+    activityPlaceholder: "Elige tu nivel de actividad",
+    privacy:
+      "🔒 Tus datos son privados y se guardan de forma segura. Usamos esta información para calcular tus metas diarias personalizadas.",
+  },
+  bluetooth: {
+    connectedTo: (device: string) => `¡Conectado a ${device}! ✨`,
+    connectingTitle: "Conectando a Lumi...",
+    connectTitle: "Conecta tu Lumi",
+    ready: "Tu Lumi está listo para brillar",
+    selectDevice: "Selecciona tu Arduino Nano",
+    keepClose: "Asegúrate de que tu dispositivo esté cerca",
+    unsupportedHint: "Abre esta app en Chrome, Edge u Opera",
+    entering: "Entrando a tu espacio de bienestar...",
+    connecting: "Conectando...",
+    connect: "Conectar a Lumi",
+    skip: "Omitir por ahora",
+    defaultDeviceName: "Dispositivo BLE",
+    errors: {
+      unsupported: "Bluetooth no está disponible en este navegador. Usa Chrome, Edge o Opera.",
+      disconnected: "Dispositivo desconectado",
+      httpsRequired: "Bluetooth requiere HTTPS. Por favor, accede a la app mediante HTTPS.",
+      noDeviceSelected: "No se seleccionó ningún dispositivo",
+      gattFailed: "No se pudo conectar al servidor GATT",
+      noWritableCharacteristic: "No se encontró una característica escribible en el dispositivo BLE",
+      connectFailed: "Error al conectar",
+      security:
+        "Bluetooth bloqueado por política de seguridad. Verifica que estés usando HTTPS y que los permisos estén habilitados.",
+      notFound: "No se encontró ningún dispositivo Arduino Nado. Asegúrate de que esté encendido y cerca.",
+      notAllowed: "Permiso denegado. Por favor, permite el acceso a Bluetooth.",
+      notConnected: "No hay conexión Bluetooth activa",
+      sendFailed: "Error al enviar comando al dispositivo",
+    },
+    notifications: {
+      disconnected: { title: "Lumi desconectado", body: "Se perdió la conexión con tu dispositivo Lumi." },
+      connected: { title: "Lumi conectado", body: (device: string) => `Conectado a ${device}` },
+      errorTitle: "Error Bluetooth",
+      // Una por cada comando de LED
+      commands: {
+        off: { title: "Lumi apagado", body: "Tu Lumi fue apagado." },
+        water: {
+          title: "Hora de hidratarte",
+          body: "Tu Lumi indica que necesitas agua. Toca para ver el recordatorio.",
+        },
+        balanced: { title: "Nutrición balanceada", body: "Tu Lumi muestra un estado nutricional balanceado." },
+        unbalanced: {
+          title: "Nutrición desbalanceada",
+          body: "Tu Lumi indica que tu última comida no estuvo balanceada.",
+        },
+        greatFinish: { title: "¡Buen trabajo!", body: "Terminaste una actividad con buena ejecución. Sigue así." },
+        badFinish: {
+          title: "Actividad incompleta",
+          body: "Tu Lumi marcó una finalización pobre. Intenta mejorar la próxima vez.",
+        },
+      },
+      unknownCommand: { title: "Comando enviado", body: (command: number) => `Se envió el comando ${command}` },
+    },
+  },
+  hydrationAlert: {
+    title: "¡Tu cuerpo te llama! 💧",
+    description: "Tu Lumi brilla en azul porque necesitas hidratarte. ¡Dale ese boost de H₂O que mereces!",
+    drank: "Ya bebí agua",
+    snooze: "Recordar en 10 min",
+    funFactLabel: "Fun fact:",
+    funFact: "El agua le da superpoderes a tu cerebro, te llena de energía y hace que tu piel brille como diamante ✨",
+  },
+  nutrients: {
+    protein: "Proteína",
+    fiber: "Fibra",
+    calories: "Calorías",
+    carbs: "Carbohidratos",
+    fat: "Grasa",
+    addedSugar: "Azúcar añadido",
+    sodium: "Sodio",
+  },
+  beverages: {
+    water: "Agua",
+    sparkling: "Con gas",
+    tea: "Té",
+    coffee: "Café",
+  },
+  workouts: {
+    light: "Suave",
+    moderate: "Moderado",
+    vigorous: "Intenso",
+  },
+  guidelines: {
+    iom: {
+      label: "IOM",
+      description: "Ingestas de referencia del Institute of Medicine (EE. UU.)",
+      sources: {
+        protein: "IOM · 1.0–1.6 g/kg según actividad",
+        fiber: "IOM · ingesta adecuada por sexo y edad",
+        waterMl: "33 ml/kg de peso",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    efsa: {
+      label: "EFSA",
+      description: "Valores de referencia de la Autoridad Europea de Seguridad Alimentaria",
+      sources: {
+        protein: "EFSA · 0.83 g/kg",
+        fiber: "EFSA · 25 g",
+        waterMl: "EFSA · 2.5 L hombres / 2.0 L mujeres, 80% en bebidas",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    who: {
+      label: "OMS",
+      description: "Recomendaciones de la Organización Mundial de la Salud",
+      sources: {
+        protein: "OMS/FAO/UNU · 0.83 g/kg",
+        fiber: "OMS · 25 g",
+        waterMl: "33 ml/kg de peso",
+        calories: CALORIES_SOURCE,
+      },
+    },
+    sports: {
+      label: "Deportiva",
+      description: "Nutrición deportiva (ISSN): más proteína y un umbral de balance del 90%",
+      sources: {
+        protein: "ISSN · 1.6–2.2 g/kg según actividad",
+        fiber: "IOM · ingesta adecuada por sexo y edad",
+        waterMl: "40 ml/kg de peso",
+        calories: CALORIES_SOURCE,
+      },
+    },
+  } satisfies Record<GuidelineId, GuidelineInfo>,
+  dashboard: {
+    todayBalance: "Balance de hoy",
+    connectedTo: (device: string) => `Conectado: ${device}`,
+    disconnected: "Sin conexión",
+    lumi: {
+      shining: "¡Estás brillando! ✨",
+      nourished: "¡Súper nutritivo! 🌸",
+      thirsty: "¡Dale aguita! 💧",
+      hungry: "¡A comer rico! 🍽️",
+    },
+    hydration: "Hidratación 💧",
+    waterProgress: (done: string, goal: string, containers: string) => `${done} de ${goal} ${containers}`,
+    extraWater: (volume: string) => ` · +${volume} por actividad y calor`,
+    addWater: "Registrar agua (mantén presionado para elegir cantidad)",
+    waterMessages: {
+      done: "✨ ¡Eres una leyenda del H₂O! Hidratación nivel pro",
+      almost: "🌊 ¡Ya merito! Un vasito más y eres imparable",
+      halfway: "💙 ¡Vas súper bien! Keep it up, bebe agua",
+      low: "🐠 Tu cuerpo te pide aguita, ¡dale amor líquido!",
+    },
+    removeEntry: "Eliminar registro",
+    nutrition: "Nutrición",
+    balancedMeals: (count: number) => `${count} ${count === 1 ? "comida balanceada" : "comidas balanceadas"}`,
+    week: "Tu semana",
+    perDay: (containers: string) => `${containers} / día`,
+    waterGoalDays: "días con meta de agua",
+    balancedDays: "días balanceados",
+    bestWeekday: (weekday: string) => `Tu mejor día de hidratación fue el ${weekday}. `,
+    timeOfDayShare: (share: number, timeOfDay: string) => `Tomas el ${share}% de tu agua ${timeOfDay}.`,
+    timeOfDay: {
+      morning: "por la mañana",
+      afternoon: "por la tarde",
+      evening: "al atardecer",
+      night: "por la noche",
+    },
+    tip: "✨ Pro tip: Ve a Comidas y registra tus comidas para trackear tu glow-up completo",
+  },
+  waterPicker: {
+    title: "¿Qué tomaste? 💧",
+    description: "Elige la bebida y la cantidad",
+  },
+  dayConditions: {
+    title: "Actividad y calor",
+    extraWater: (volume: string) => `+${volume} de agua hoy`,
+    workouts: "Entrenamientos de hoy",
+    noWorkouts: "Sin entrenamientos registrados",
+    workout: (minutes: number, intensity: string) => `${minutes} min · ${intensity}`,
+    removeWorkout: "Eliminar entrenamiento",
+    minutes: "Minutos",
+    durationError: (max: number) => `Escribe una duración entre 1 y ${max} minutos`,
+    workoutFailed: "No se pudo registrar el entrenamiento",
+    workoutSaved: "Entrenamiento registrado, tu meta de agua subió 💪",
+    temperature: "Temperatura de hoy",
+    hotDay: "Día caluroso",
+    temperatureError: "Escribe una temperatura válida",
+    temperatureFailed: "No se pudo guardar la temperatura",
+    hotDaySaved: "Día caluroso: bebe un poco más ☀️",
+    temperatureSaved: "Temperatura guardada",
+  },
+  units: {
+    title: "Unidades",
+    metric: "Métrico",
+    imperial: "Imperial",
+    countIn: "Cuento el agua en",
+    glass: "Vaso",
+    bottle: "Botella",
+    containerNames: {
+      glass: (plural: boolean): string => (plural ? "vasos" : "vaso"),
+      bottle: (plural: boolean): string => (plural ? "botellas" : "botella"),
+    },
+    useSize: "Usar este tamaño",
+    sizeError: (min: string, max: string) => `El tamaño debe estar entre ${min} y ${max}`,
+    sizeSaved: (volume: string) => `Ahora cuentas el agua en recipientes de ${volume}`,
+  },
+  goals: {
+    title: "Metas personalizadas",
+    description:
+      "Usa estos campos si tu médico o nutricionista te indicó metas distintas. Deja vacío para usar la meta calculada.",
+    water: (unit: string) => `Agua (${unit})`,
+    invalid: (label: string) => `${label}: escribe un número mayor que 0`,
+    saveFailed: "No se pudieron guardar tus metas",
+    saved: "Metas personalizadas guardadas",
+    reset: "Volviste a las metas calculadas",
+    useCalculated: "Usar metas calculadas",
+  },
+  nutrition: {
+    completeProfile: "Por favor completa tu perfil primero",
+    title: "Nutrición del día",
+    subtitle: "Registra tus comidas luminosas",
+    recipes: "Recetas",
+    meals: "Comidas",
+    dailyProtein: "Proteína diaria",
+    dailyFiber: "Fibra diaria",
+    max: " (máx.)",
+    todayBalance: "Balance de hoy",
+    perfectBalance: "¡Perfecto equilibrio! 🌸",
+    balanceHint: "Cada comida balanceada ayuda a crecer tu luz",
+    bloomed: (percent: number) => `${percent}% florecido`,
+    petals: "Pétalos",
+    repeated: (meal: string) => `${meal} de ayer registrado`,
+    notFoundYesterday: (meal: string) => `Ayer no registraste ${meal.toLowerCase()}`,
+    repeatFailed: "No se pudo repetir la comida. Intenta de nuevo.",
+    templateSaveFailed: "No se pudo guardar la favorita. Intenta de nuevo.",
+    templateSaved: (name: string) => `"${name}" guardada en favoritas`,
+    foodAdded: (food: string, quantity: number, portion: string, meal: string) =>
+      `${food} (${quantity} × ${portion}) agregado a ${meal}`,
+    templateApplied: (template: string, meal: string) => `${template} registrado en ${meal}`,
+    searchFood: (meal: string) => `Buscar alimento para ${meal}`,
+    favoritesOf: (meal: string) => `Favoritas de ${meal}`,
+    repeatYesterday: (meal: string) => `Repetir ${meal.toLowerCase()} de ayer`,
+    favorites: "Favoritas",
+    templateProtein: (protein: string) => `${protein} P`,
+    deleteTemplate: (name: string) => `Eliminar ${name}`,
+    saveAsFavorite: "Guardar como favorita",
+    clearMeal: (meal: string) => `Borrar ${meal}`,
+    moreNutrients: "Más nutrientes",
+    maxPlaceholder: (value: number) => `máx. ${value}`,
+    templatePlaceholder: "ej. Avena con banano",
+  },
+  foodSearch: {
+    title: (target: string) => `Agregar a ${target}`,
+    description: "Busca un alimento y elige la porción",
+    placeholder: "Buscar alimento, ej. lentejas",
+    myRecipes: "Mis recetas",
+    myFoods: "Mis alimentos",
+    foods: "Alimentos",
+    create: (query: string) => (query ? `Crear alimento "${query}"` : "Crear alimento"),
+    quantity: "Cantidad",
+    name: "Nombre",
+    portion: "Porción",
+    defaultPortion: "1 porción",
+    recipePortion: "1 porción de receta",
+    saveFood: "Guardar alimento",
+    errors: {
+      required: "Escribe el nombre del alimento y la porción",
+      saveFailed: "No se pudo guardar el alimento. Intenta de nuevo.",
+    },
+  },
+  recipes: {
+    title: "Mis recetas",
+    subtitle: "Registra tus platos con un toque",
+    newRecipe: "Nueva receta",
+    editRecipe: "Editar receta",
+    draftSubtitle: "Los nutrientes se calculan de los ingredientes",
+    loading: "Cargando recetas...",
+    empty: 'Crea una receta una vez y regístrala en cualquier comida como "1 porción".',
+    summary: (servings: number, protein: string, fiber: string, calories: string) =>
+      `${servings} porciones · por porción: ${protein} proteína · ${fiber} fibra · ${calories}`,
+    name: "Nombre",
+    namePlaceholder: "ej. Lentejas de la abuela",
+    servings: "Porciones",
+    ingredients: "Ingredientes",
+    noIngredients: "Todavía no hay ingredientes",
+    removeIngredient: (name: string) => `Quitar ${name}`,
+    addIngredient: "Agregar ingrediente",
+    perServing: "Por porción",
+    discard: "Descartar",
+    saveRecipe: "Guardar receta",
+    saved: (name: string) => `Receta "${name}" guardada`,
+    fallbackTarget: "la receta",
+    errors: {
+      nameRequired: "Ponle un nombre a tu receta",
+      noIngredients: "Agrega al menos un ingrediente",
+      saveFailed: "No se pudo guardar la receta. Intenta de nuevo.",
+      deleteFailed: "No se pudo eliminar la receta. Intenta de nuevo.",
+    },
+  },
+  history: {
+    title: "Historial",
+    subtitle: "Tus días de luz, uno a uno",
+    trends: "Tendencias",
+    balancedDays: "Días balanceados",
+    logged: (count: number) => ` / ${count} registrados`,
+    averageHydration: "Hidratación promedio",
+    legend: {
+      balanced: "Balanceado",
+      unbalanced: "Sin balancear",
+      waterFull: "Agua 100%",
+      waterHalf: "Agua ≥ 50%",
+    },
+    dayBalanced: "Día balanceado ✨",
+    dayUnbalanced: "Día sin balancear",
+    noRecords: "No hay registros este día",
+    backdateHint: "¿Olvidaste registrar algo? Aún puedes sumar agua a ayer.",
+    backdated: (volume: string) => `+${volume} registrados para ayer 💧`,
+    dayClosed: "Ese día ya se cerró y no se puede modificar",
+    water: "Agua",
+    waterSummary: (volume: string, percent: number) => `${volume} · ${percent}% de tu meta`,
+    noWater: "Sin registros de agua",
+    meals: "Comidas",
+    noMeals: "Sin comidas registradas",
+    balancedNote: (percent: number) => `Alcanzaste al menos el ${percent}% de tu proteína y fibra`,
+  },
+  insights: {
+    title: "Tendencias",
+    subtitle: "Promedios de los días que registraste",
+    weekly: "Semanal",
+    monthly: "Mensual",
+    loading: "Cargando tendencias...",
+    notEnoughData: "Aún no hay suficientes días registrados. Vuelve después de unos días de luz ✨",
+    water: "Agua",
+    waterSeries: (containers: string) => `${containers[0].toUpperCase()}${containers.slice(1)} de agua`,
+    waterGoal: "Meta",
+    waterSubtitle: (series: string) => `${series} por día · la línea es la meta de cada periodo`,
+    nutrients: "Proteína y fibra",
+    nutrientsSubtitle: (summary: string) => `% de la meta vigente cada día (hoy ${summary})`,
+    balancedDays: "Días balanceados",
+    balancedSubtitle: "% de los días registrados",
+  },
+  profile: {
+    loading: "Cargando tu perfil...",
+    logout: "Cerrar sesión",
+    title: "Tu Perfil",
+    subtitle: "Información y progreso",
+    reconnect: "Reconectar",
+    defaultName: "Usuario",
+    edit: "Editar perfil",
+    weightHistory: "Historial de peso",
+    weight: "Peso",
+    height: "Altura",
+    goals: "Metas Nutricionales",
+    customize: "Personalizar",
+    lockedBy: (coach: string) => `${coach} fijó tus metas; solo tu coach puede cambiarlas`,
+    guidelineSelected: (guideline: string) => `Metas calculadas con la guía ${guideline}`,
+    lifeStageNotes: {
+      pregnant: (trimester: number) => `Ajustadas por embarazo (${trimester}º trimestre)`,
+      lactating: "Ajustadas por lactancia",
+      adolescent: "Ajustadas para adolescentes",
+      olderAdult: "Proteína ajustada para adultos mayores",
+    },
+    dailyProtein: "Proteína diaria",
+    dailyFiber: "Fibra diaria",
+    dailyWater: "Agua diaria",
+    calories: "Calorías",
+    lockedGoal: (coach: string) => `Fijada por ${coach}`,
+    customGoal: "Meta personalizada",
+    balancedDay: "Día balanceado",
+    balancedRule: (percent: number) => `Proteína y fibra ≥ ${percent}%`,
+    activityLevel: "Nivel de actividad",
+    device: "Dispositivo Lumi",
+    connected: "Conectado",
+    disconnect: "Desconectar",
+    connectedHint: "Tu Lumi cambiará de color automáticamente según tus hábitos",
+    notConnected: "No conectado",
+    notConnectedHint: "Conecta tu llavero Lumi para recibir notificaciones de bienestar",
+    connect: "Conectar Lumi",
+    notifications: {
+      title: "Notificaciones",
+      status: "Estado actual: ",
+      permission: { granted: "permitidas", denied: "bloqueadas", default: "sin decidir" } as Record<string, string>,
+      unsupported: "no soportado",
+      enable: "Activar notificaciones",
+      enabledTitle: "Notificaciones activadas",
+      enabledBody: "Has activado las notificaciones.",
+      showPromptAgain: "Volver a mostrar prompt",
+      promptResetTitle: "Recordatorio reactivado",
+      promptResetBody: "Volverás a ver el recordatorio para activar notificaciones.",
+      hint: "Las notificaciones funcionan mejor cuando la app está instalada como PWA y el service worker está permitido.",
+    },
+    streak: {
+      title: "Racha de Balance",
+      current: "Racha actual",
+      days: "días",
+      longest: "Mejor racha",
+      longestDays: (days: number) => `${days} días`,
+      last7Days: "Últimos 7 días",
+      sevenDaysAgo: "Hace 7d",
+      today: "Hoy",
+      freezes: "Protectores de racha",
+      freezesHint: "Ganas uno cada 7 días balanceados seguidos. Si un día no llegas a tu meta, se usa solo.",
+      freezeUsed: (date: string, streak: number) => `❄️ ${date} · salvó tu racha de ${streak} días`,
+      restDays: "Días de descanso",
+      restDaysHint: (max: number) =>
+        `Hasta ${max} por semana: esos días la racha no se corta aunque no llegues a tu meta.`,
+      tooManyRestDays: (max: number) => `Puedes elegir hasta ${max} días de descanso por semana`,
+      recalculate: "Recalcular racha",
+      recalculating: "Recalculando...",
+      recalculated: "Racha recalculada",
+      upToDate: "Tu racha ya estaba al día ✨",
+      recalculateFailed: "No se pudo recalcular tu racha. Intenta de nuevo.",
+      changes: {
+        current: ({ before, after }: StreakChange) => `racha actual ${before} → ${after}`,
+        longest: ({ before, after }: StreakChange) => `mejor racha ${before} → ${after}`,
+        freezes: ({ before, after }: StreakChange) => `protectores ${before} → ${after}`,
+        fixedDays: (count: number) => (count === 1 ? "1 día corregido" : `${count} días corregidos`),
+      },
+      // Según la racha actual: 0, 1-2, 3-6, 7-13 y 14 o más
+      messages: [
+        "¡Hoy empieza tu aventura! Dale play 🌟",
+        "¡Ese es mi team! Sigamos con todo 🔥",
+        "¡On fire! Estás que ardes 🚀",
+        "¡WOW! Una semana siendo increíble ✨",
+        "¡LEGENDARY! Tu energía es contagiosa 🌈💫",
+      ],
+    },
+    balancedDays: "Días balanceados",
+    ofLogged: (count: number) => `de ${count} registrados`,
+    successRate: "Tasa de éxito",
+    last14Days: "últimos 14 días",
+  },
+  editProfile: {
+    title: "Editar perfil",
+    subtitle: "Tus metas se recalculan con estos datos",
+    feet: "ft",
+    inches: "in",
+    dayStart: "Inicio del día",
+    dayEnd: "Fin del día",
+    scheduleHint: "Tus comidas tienen que quedar dentro de este horario",
+    goalsDiff: "Tus metas",
+    goalsDiffHint: "Antes y después de guardar",
+    noChanges: "Tus metas no cambian",
+    saved: "Perfil actualizado ✨",
+    saveFailed: "No se pudo guardar tu perfil. Intenta de nuevo.",
+    errors: {
+      required: "Este campo es obligatorio",
+      range: (min: string, max: string) => `Debe estar entre ${min} y ${max}`,
+      wholeNumber: "Usa un número entero",
+      sameTimes: "El día debe empezar y terminar a horas distintas",
+    },
+  },
+  weight: {
+    title: "Tu peso",
+    subtitle: "Tus metas usan tu registro más reciente",
+    date: "Fecha",
+    log: "Registrar peso",
+    hint: "Cada día guarda su propio peso: los días pasados se evalúan con el peso que tenías entonces.",
+    saved: (weight: string) => `Peso registrado: ${weight}`,
+    saveFailed: "No se pudo registrar tu peso. Intenta de nuevo.",
+    deleteFailed: "No se pudo eliminar el registro",
+    delete: (date: string) => `Eliminar el peso del ${date}`,
+    outOfRange: (min: string, max: string) => `El peso debe estar entre ${min} y ${max}`,
+    loading: "Cargando tu registro...",
+    empty: "Aún no registras tu peso. Empieza hoy ✨",
+    chart: "Evolución",
+  },
+  pwa: {
+    installed: "Instalada",
+    install: "Instalar Lumi",
+  },
+  notificationPrompt: {
+    question: "¿Quieres recibir notificaciones?",
+    description:
+      "Activa las notificaciones para recibir alertas cuando tu Lumi lo indique (hidratación, recordatorios).",
+    enable: "Activar",
+    later: "Recordármelo después",
+    enabledTitle: "Lumi listo",
+    enabledBody: "Has activado las notificaciones. Recibirás alertas cuando tu Lumi lo indique.",
+  },
+  water: {
+    logged: (volume: string) => `+${volume} registrados 💧`,
+    todayTotal: (containers: string) => `Llevas ${containers} hoy`,
+    notificationTitle: "Hidratación registrada",
+    notificationBody: (volume: string, containers: string) => `¡Has registrado ${volume}! Llevas ${containers} hoy.`,
+    undoFailed: "No se pudo deshacer el registro de agua",
+  },
+  mealSlots: {
+    defaultNames: { breakfast: "Desayuno", lunch: "Almuerzo", dinner: "Cena" } as Record<string, string>,
+    errors: {
+      empty: "Necesitas al menos una comida",
+      tooMany: (max: number) => `Máximo ${max} comidas`,
+      nameRequired: "Cada comida necesita un nombre",
+      outsideDay: (name: string, start: string, end: string) =>
+        `${name}: el horario debe estar entre ${start} y ${end}`,
+      endBeforeStart: (name: string) => `${name}: la hora de fin debe ser después del inicio`,
+    },
+    editor: {
+      title: "Tus comidas",
+      description: (start: string, end: string) =>
+        `Configura cuántas veces comes al día. Tu día va de ${start} a ${end}.`,
+      icon: "Ícono",
+      name: "Nombre",
+      from: "Desde",
+      to: "Hasta",
+      until: "a",
+      snack: "Snack",
+      add: "Agregar comida",
+      remove: (name: string) => `Eliminar ${name}`,
+      hint: "Las metas por comida se reparten entre tus comidas; un snack cuenta como media comida.",
+    },
+    icons: {
+      coffee: "Café",
+      sun: "Sol",
+      moon: "Luna",
+      apple: "Fruta",
+      cookie: "Galleta",
+      sandwich: "Sándwich",
+      salad: "Ensalada",
+      cup: "Bebida",
+    } satisfies Record<MealSlotIcon, string>,
+  },
+};
+
+export type Messages = typeof es;
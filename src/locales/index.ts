@@ -0,0 +1,91 @@
+// Catálogos de mensajes y formato de números, fechas y unidades según el idioma.
+// Los componentes los usan a través de useI18n; este módulo no depende de React
+// para que el contexto del usuario también pueda usarlo.
+
+import type { Locale } from "date-fns";
+import { enUS, es as esDateLocale } from "date-fns/locale";
+import { Language, formatNumber } from "../shared/i18n";
+import { FoodPortion } from "../utils/foods";
+import { NutrientKey, getNutrient } from "../utils/nutrients";
+import {
+  UnitPreferences,
+  cmToFeetInches,
+  gramsToOunces,
+  isImperial,
+  temperatureUnit,
+  toContainers,
+  toDisplayTemperature,
+  toDisplayVolume,
+  toDisplayWeight,
+  volumeUnit,
+  weightUnit,
+} from "../utils/units";
+import { es, Messages } from "./es";
+import { en } from "./en";
+
+export type { Messages };
+
+const CATALOGS: Record<Language, Messages> = { es, en };
+
+export function getMessages(language: Language): Messages {
+  return CATALOGS[language];
+}
+
+// Locale de date-fns para los calendarios (nombres de meses y días, primer día de la semana)
+const DATE_LOCALES: Record<Language, Locale> = { es: esDateLocale, en: enUS };
+
+export function getDateLocale(language: Language): Locale {
+  return DATE_LOCALES[language];
+}
+
+export interface Formatter {
+  number: (value: number, maxDecimals?: number) => string;
+  date: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+  time: (date: Date, timeZone?: string) => string;
+  weight: (kg: number) => string;
+  height: (cm: number) => string;
+  volume: (ml: number) => string;
+  containers: (ml: number) => string; // "8 vasos", "1 bottle"
+  containerLabel: (count?: number) => string; // plural salvo que count sea 1
+  grams: (grams: number) => string;
+  temperature: (celsius: number) => string;
+  nutrient: (key: NutrientKey, value: number) => string;
+  portion: (portion: FoodPortion) => string; // "1 taza (198g)"
+}
+
+// Formato en el idioma y las unidades del usuario. El servidor guarda todo en
+// métrico; aquí solo se convierte y se escribe con los separadores del idioma.
+export function createFormatter(language: Language, units: UnitPreferences, m: Messages): Formatter {
+  const number = (value: number, maxDecimals = 1) => formatNumber(language, value, maxDecimals);
+
+  const grams = (value: number) =>
+    isImperial(units) ? `${number(gramsToOunces(value))} oz` : `${number(value, 0)}g`;
+
+  const containerLabel = (count?: number) => m.units.containerNames[units.container](count !== 1);
+
+  return {
+    number,
+    date: (date, options) => date.toLocaleDateString(language, options),
+    time: (date, timeZone) => date.toLocaleTimeString(language, { hour: "2-digit", minute: "2-digit", timeZone }),
+    weight: (kg) => `${number(toDisplayWeight(kg, units))} ${weightUnit(units)}`,
+    height: (cm) => {
+      if (!isImperial(units)) return `${number(cm, 0)} cm`;
+      const { feet, inches } = cmToFeetInches(cm);
+      return `${feet}′ ${inches}″`;
+    },
+    volume: (ml) => `${number(toDisplayVolume(ml, units))} ${volumeUnit(units)}`,
+    containers: (ml) => {
+      const count = toContainers(ml, units);
+      return `${number(count)} ${containerLabel(count)}`;
+    },
+    containerLabel,
+    grams,
+    temperature: (celsius) => `${number(toDisplayTemperature(celsius, units))} ${temperatureUnit(units)}`,
+    nutrient: (key, value) => {
+      const { unit } = getNutrient(key);
+      // Los nutrientes siempre van en gramos, como en las etiquetas nutricionales
+      return unit === "g" ? `${number(value)}g` : `${number(value, 0)} ${unit}`;
+    },
+    portion: (portion) => (portion.grams ? `${portion.label} (${grams(portion.grams)})` : portion.label),
+  };
+}
@@ -7,13 +7,17 @@ import { useState, useEffect } from "react";
 import { projectId, publicAnonKey } from "../utils/supabase/info";
 import { supabase } from "../utils/supabase/client";
 import { PWAInstallButton } from "../components/PWAInstallButton";
+import { LanguagePicker } from "../components/LanguagePicker";
+import { useI18n } from "../utils/useI18n";
 import { testSupabaseConnection, debugLog, debugError } from "../utils/debug";
+import { getBrowserTimeZone } from "../shared/dates";
 
 interface AuthScreenProps {
   onAuthSuccess: (userId: string, accessToken: string, name: string, hasProfile: boolean) => void;
 }
 
 export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
+  const { m, language } = useI18n();
   const [isLogin, setIsLogin] = useState(true);
   const [formData, setFormData] = useState({
     name: "",
@@ -33,7 +37,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
       const result = await testSupabaseConnection(projectId, publicAnonKey);
       
       if (result.success) {
-        setDebugInfo("✅ Servidor conectado");
+        setDebugInfo(m.auth.serverConnected);
         debugLog('AuthScreen', 'Connection test passed');
       } else {
         setDebugInfo(`⚠️ ${result.message}`);
@@ -59,14 +63,14 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
         if (error) {
           debugError('AuthScreen', 'Sign in error:', error);
-          setError(`Error al iniciar sesión: ${error.message}`);
+          setError(m.auth.errors.signIn(error.message));
           setLoading(false);
           return;
         }
 
         if (!data.session) {
           debugError('AuthScreen', 'No session returned from sign in');
-          setError("Error al iniciar sesión: No se pudo crear la sesión");
+          setError(m.auth.errors.noSession);
           setLoading(false);
           return;
         }
@@ -108,13 +112,13 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
       } else {
         // Sign up
         if (!formData.name.trim()) {
-          setError("Por favor ingresa tu nombre");
+          setError(m.auth.errors.nameRequired);
           setLoading(false);
           return;
         }
 
         if (formData.password.length < 6) {
-          setError("La contraseña debe tener al menos 6 caracteres");
+          setError(m.auth.errors.passwordTooShort);
           setLoading(false);
           return;
         }
@@ -134,6 +138,8 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
               name: formData.name,
               dayStartTime: formData.dayStartTime,
               dayEndTime: formData.dayEndTime,
+              timeZone: getBrowserTimeZone(),
+              language,
             }),
           }
         );
@@ -143,7 +149,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
         if (!response.ok) {
           debugError('AuthScreen', 'Signup failed:', result);
-          setError(result.error || "No se pudo crear la cuenta");
+          setError(result.error || m.auth.errors.signUpFailed);
           setLoading(false);
           return;
         }
@@ -158,14 +164,14 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
         if (error) {
           debugError('AuthScreen', 'Auto-login error:', error);
-          setError("Cuenta creada pero el inicio de sesión falló. Por favor intenta iniciar sesión.");
+          setError(m.auth.errors.autoLoginFailed);
           setLoading(false);
           return;
         }
 
         if (!data.session) {
           debugError('AuthScreen', 'No session after auto-login');
-          setError("Cuenta creada pero el inicio de sesión falló. Por favor intenta iniciar sesión.");
+          setError(m.auth.errors.autoLoginFailed);
           setLoading(false);
           return;
         }
@@ -176,7 +182,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
       }
     } catch (err: any) {
       debugError('AuthScreen', 'Unexpected auth error:', err);
-      setError(`Error inesperado: ${err.message || 'Por favor intenta nuevamente'}`);
+      setError(m.auth.errors.unexpected(err.message || m.auth.errors.tryAgain));
       setLoading(false);
     }
   };
@@ -211,6 +217,10 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
       <div className="relative h-full overflow-y-auto p-6 pb-24 flex items-start [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
         <div className="w-full max-w-md mx-auto pt-8">
+          <div className="flex justify-end mb-2">
+            <LanguagePicker className="w-44 bg-white/60" />
+          </div>
+
           {/* Header */}
           <motion.div
             className="text-center mb-8"
@@ -231,10 +241,10 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
               <Sparkles className="w-12 h-12 text-white" />
             </motion.div>
             <h1 className="text-gray-800 mb-2">
-              Welcome to Lumi
+              {m.auth.title}
             </h1>
             <p className="text-sm text-gray-600">
-              {isLogin ? "Sign in to continue your wellness journey" : "Create your account to get started"}
+              {isLogin ? m.auth.loginSubtitle : m.auth.signupSubtitle}
             </p>
           </motion.div>
 
@@ -249,13 +259,13 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
               {/* Name field - only for signup */}
               {!isLogin && (
                 <div className="space-y-2">
-                  <Label htmlFor="name" className="text-gray-700">Name</Label>
+                  <Label htmlFor="name" className="text-gray-700">{m.auth.name}</Label>
                   <div className="relative">
                     <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                     <Input
                       id="name"
                       type="text"
-                      placeholder="Your name"
+                      placeholder={m.auth.namePlaceholder}
                       value={formData.name}
                       onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                       className="pl-10 bg-white/80 border-yellow-200 focus:border-yellow-400 rounded-xl"
@@ -267,13 +277,13 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
               {/* Email */}
               <div className="space-y-2">
-                <Label htmlFor="email" className="text-gray-700">Email</Label>
+                <Label htmlFor="email" className="text-gray-700">{m.auth.email}</Label>
                 <div className="relative">
                   <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                   <Input
                     id="email"
                     type="email"
-                    placeholder="your@email.com"
+                    placeholder={m.auth.emailPlaceholder}
                     value={formData.email}
                     onChange={(e) => setFormData({ ...formData, email: e.target.value })}
                     className="pl-10 bg-white/80 border-yellow-200 focus:border-yellow-400 rounded-xl"
@@ -284,7 +294,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
 
               {/* Password */}
               <div className="space-y-2">
-                <Label htmlFor="password" className="text-gray-700">Password</Label>
+                <Label htmlFor="password" className="text-gray-700">{m.auth.password}</Label>
                 <div className="relative">
                   <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                   <Input
@@ -305,12 +315,12 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
                 <div className="space-y-3 pt-2">
                   <div className="flex items-center gap-2 text-gray-700">
                     <Clock className="w-4 h-4 text-yellow-600" />
-                    <Label className="text-sm">Horario de tu día</Label>
+                    <Label className="text-sm">{m.auth.schedule}</Label>
                   </div>
                   
                   <div className="grid grid-cols-2 gap-3">
                     <div className="space-y-2">
-                      <Label htmlFor="dayStartTime" className="text-xs text-gray-600">Comienza</Label>
+                      <Label htmlFor="dayStartTime" className="text-xs text-gray-600">{m.auth.dayStart}</Label>
                       <Input
                         id="dayStartTime"
                         type="time"
@@ -322,7 +332,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
                     </div>
                     
                     <div className="space-y-2">
-                      <Label htmlFor="dayEndTime" className="text-xs text-gray-600">Termina</Label>
+                      <Label htmlFor="dayEndTime" className="text-xs text-gray-600">{m.auth.dayEnd}</Label>
                       <Input
                         id="dayEndTime"
                         type="time"
@@ -336,7 +346,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
                   
                   <p className="text-xs text-gray-500 flex items-start gap-1.5">
                     <span className="text-yellow-600 mt-0.5">💡</span>
-                    <span>Usaremos este horario para resetear tus hábitos diarios y enviarte recordatorios personalizados.</span>
+                    <span>{m.auth.scheduleHint}</span>
                   </p>
                 </div>
               )}
@@ -358,7 +368,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
                 disabled={loading}
                 className="w-full bg-gradient-to-r from-yellow-400 to-amber-500 hover:from-yellow-500 hover:to-amber-600 text-gray-800 rounded-xl h-12 shadow-lg disabled:opacity-50"
               >
-                {loading ? "Please wait..." : isLogin ? "Sign In" : "Create Account"}
+                {loading ? m.auth.pleaseWait : isLogin ? m.auth.signIn : m.auth.createAccount}
               </Button>
             </form>
 
@@ -373,11 +383,11 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
               >
                 {isLogin ? (
                   <>
-                    Don't have an account? <span className="text-yellow-600">Sign up</span>
+                    {m.auth.noAccount} <span className="text-yellow-600">{m.auth.signUpLink}</span>
                   </>
                 ) : (
                   <>
-                    Already have an account? <span className="text-yellow-600">Sign in</span>
+                    {m.auth.haveAccount} <span className="text-yellow-600">{m.auth.signInLink}</span>
                   </>
                 )}
               </button>
@@ -404,7 +414,7 @@ export function AuthScreen({ onAuthSuccess }: AuthScreenProps) {
             transition={{ delay: 0.5 }}
           >
             <p className="text-xs text-gray-600 text-center">
-              🔒 Your data is encrypted and stored securely. Track your hydration, nutrition, and wellness journey with Lumi.
+              {m.auth.privacy}
             </p>
           </motion.div>
         </div>
@@ -3,6 +3,7 @@ import { Bluetooth, Check, AlertCircle, X } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { useEffect } from "react";
 import { useBluetooth } from "../contexts/BluetoothContext";
+import { useI18n } from "../utils/useI18n";
 
 interface BluetoothScreenProps {
   onNext: () => void;
@@ -10,6 +11,8 @@ interface BluetoothScreenProps {
 
 export function BluetoothScreen({ onNext }: BluetoothScreenProps) {
   const { isConnected, isConnecting, deviceName, error, connect } = useBluetooth();
+  const { m } = useI18n();
+  const text = m.bluetooth;
   
   // Auto advance after connection
   useEffect(() => {
@@ -154,14 +157,14 @@ export function BluetoothScreen({ onNext }: BluetoothScreenProps) {
           animate={{ opacity: 1, y: 0 }}
         >
           <h2 className="text-gray-800 mb-2">
-            {isConnected ? `¡Conectado a ${deviceName}! ✨` : isConnecting ? "Conectando a Lumi..." : "Conecta tu Lumi"}
+            {isConnected ? text.connectedTo(deviceName ?? "Lumi") : isConnecting ? text.connectingTitle : text.connectTitle}
           </h2>
           <p className="text-sm text-gray-500">
             {isConnected
-              ? "Tu Lumi está listo para brillar"
+              ? text.ready
               : isConnecting
-              ? "Selecciona tu Arduino Nano"
-              : "Asegúrate de que tu dispositivo esté cerca"}
+              ? text.selectDevice
+              : text.keepClose}
           </p>
         </motion.div>
 
@@ -175,9 +178,9 @@ export function BluetoothScreen({ onNext }: BluetoothScreenProps) {
             <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
             <div className="flex-1">
               <p className="text-sm text-red-800">{error}</p>
-              {error.includes("no disponible") && (
+              {!("bluetooth" in navigator) && (
                 <p className="text-xs text-red-600 mt-1">
-                  Abre esta app en Chrome, Edge u Opera
+                  {text.unsupportedHint}
                 </p>
               )}
             </div>
@@ -206,7 +209,7 @@ export function BluetoothScreen({ onNext }: BluetoothScreenProps) {
               animate={{ opacity: 1, scale: 1 }}
             >
               <p className="text-sm text-center text-gray-600">
-                Entrando a tu espacio de bienestar...
+                {text.entering}
               </p>
             </motion.div>
           ) : (
@@ -216,14 +219,14 @@ export function BluetoothScreen({ onNext }: BluetoothScreenProps) {
                 onClick={handleConnect}
                 disabled={isConnecting}
               >
-                {isConnecting ? "Conectando..." : "Conectar a Lumi"}
+                {isConnecting ? text.connecting : text.connect}
               </Button>
               <Button
                 variant="ghost"
                 className="w-full text-gray-600 rounded-full"
                 onClick={onNext}
               >
-                Omitir por ahora
+                {text.skip}
               </Button>
             </>
           )}
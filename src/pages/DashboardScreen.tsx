@@ -1,28 +1,60 @@
 import { motion } from "motion/react";
-import { Droplet, Sun, Flower2, Plus, Flame, Bluetooth, Check, X } from "lucide-react";
+import { Droplet, Sun, Flower2, Plus, Flame, Bluetooth, Check, X, CalendarDays } from "lucide-react";
 import { useUser } from "../contexts/UserContext";
 import { Button } from "../components/ui/button";
-import { useState, useEffect } from "react";
-import { logUserEvent } from "../utils/analytics";
+import { useState, useEffect, useRef } from "react";
+import { TimeOfDay, UserStats, getStats, logUserEvent } from "../utils/analytics";
 import { useArduinoAlarms } from "../utils/useArduinoAlarms";
 import { useBluetooth } from "../contexts/BluetoothContext";
+import { WaterVolumePicker } from "../components/WaterVolumePicker";
+import { DayConditionsCard } from "../components/DayConditionsCard";
+import { BeverageType, getBeverage } from "../utils/beverages";
+import { glassesToContainers, toContainers } from "../utils/units";
+import { useI18n } from "../utils/useI18n";
+import { addDays, getBrowserTimeZone, getDayKey } from "../shared/dates";
+import {
+  GLASS_ML,
+  LUMI_COLORS,
+  getDayProgress,
+  getLumiStatus,
+  goalPercentage,
+  isBalanced,
+} from "../shared/nutritionRules";
+
+// Duración del long-press sobre "+" para abrir el selector de volumen
+const LONG_PRESS_MS = 500;
 
 export function DashboardScreen() {
-  const { nutritionalNeeds, waterGlasses, addWater, getTotalIntake, mealIntakes, streakData, userName, userId, accessToken, profile } = useUser();
+  const { nutritionalNeeds, waterGlasses, waterEntries, addWater, removeWaterEntry, getTotalIntake, mealSlots, mealIntakes, streakData, userName, userId, accessToken, profile, waterGoal, units } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.dashboard;
   const [isAddingWater, setIsAddingWater] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressTriggeredRef = useRef(false);
+  const [weekStats, setWeekStats] = useState<UserStats | null>(null);
 
   const totalIntake = getTotalIntake();
+  const todayKey = getDayKey(profile?.timeZone || getBrowserTimeZone(), profile?.dayStartTime || "00:00");
+
+  // Estadísticas de los últimos 7 días
+  useEffect(() => {
+    if (!userId || !accessToken) return;
+    getStats(userId, accessToken, addDays(todayKey, -6), todayKey).then(setWeekStats);
+  }, [userId, accessToken, todayKey]);
 
   // Activar sistema de alarmas de Arduino
   useArduinoAlarms({
     waterGlasses,
-    dailyWaterGoal: nutritionalNeeds?.dailyWater || 8,
+    dailyWaterGoal: waterGoal.glasses,
     totalProtein: totalIntake.protein,
     totalFiber: totalIntake.fiber,
     dailyProteinGoal: nutritionalNeeds?.dailyProtein || 60,
     dailyFiberGoal: nutritionalNeeds?.dailyFiber || 25,
     dayStartTime: profile?.dayStartTime || "07:00",
     dayEndTime: profile?.dayEndTime || "22:00",
+    timeZone: profile?.timeZone,
+    balanceThreshold: nutritionalNeeds?.balanceThreshold,
     lastMealBalanced: false, // Se puede calcular basado en la última comida
   });
   
@@ -38,77 +70,38 @@ export function DashboardScreen() {
   }, [nutritionalNeeds, waterGlasses, totalIntake, mealIntakes, streakData]);
   
   // Calculate percentages
-  const waterPercentage = nutritionalNeeds 
-    ? Math.round((waterGlasses / nutritionalNeeds.dailyWater) * 100) 
-    : 0;
-  
-  const proteinPercentage = nutritionalNeeds 
-    ? Math.round((totalIntake.protein / nutritionalNeeds.dailyProtein) * 100) 
-    : 0;
-  
-  const fiberPercentage = nutritionalNeeds 
-    ? Math.round((totalIntake.fiber / nutritionalNeeds.dailyFiber) * 100) 
-    : 0;
-
-  const nutritionPercentage = Math.round((proteinPercentage + fiberPercentage) / 2);
-
-  // Calculate total balance
-  const totalBalance = Math.round((waterPercentage + nutritionPercentage) / 2);
-
-  // Determine Lumi color based on status
-  const getLumiColor = () => {
-    const waterMet = waterPercentage >= 80;
-    const proteinMet = proteinPercentage >= 80;
-    const fiberMet = fiberPercentage >= 80;
-
-    // Amarillo pastel - todo perfecto
-    if (waterMet && proteinMet && fiberMet) {
-      return {
-        gradient: "linear-gradient(135deg, #FEF3C7, #FDE68A)",
-        shadow: "rgba(254, 243, 199, 0.7)",
-        message: "¡Estás brillando! ✨",
-      };
-    }
+  const progress = nutritionalNeeds
+    ? getDayProgress(
+        { waterGlasses, protein: totalIntake.protein, fiber: totalIntake.fiber },
+        {
+          waterGlasses: waterGoal.glasses,
+          protein: nutritionalNeeds.dailyProtein,
+          fiber: nutritionalNeeds.dailyFiber,
+        }
+      )
+    : { water: 0, protein: 0, fiber: 0, nutrition: 0, total: 0 };
+  const waterPercentage = progress.water;
+  const nutritionPercentage = progress.nutrition;
+  const totalBalance = progress.total;
 
-    // Verde - nutrición balanceada
-    if (proteinMet && fiberMet) {
-      return {
-        gradient: "linear-gradient(135deg, #D1FAE5, #86EFAC)",
-        shadow: "rgba(209, 250, 229, 0.7)",
-        message: "¡Súper nutritivo! 🌸",
-      };
-    }
-
-    // Azul - necesita hidratación
-    if (!waterMet) {
-      return {
-        gradient: "linear-gradient(135deg, #DBEAFE, #93C5FD)",
-        shadow: "rgba(219, 234, 254, 0.7)",
-        message: "¡Dale aguita! 💧",
-      };
-    }
-
-    // Naranja - falta nutrición
-    return {
-      gradient: "linear-gradient(135deg, #FED7AA, #FDBA74)",
-      shadow: "rgba(254, 215, 170, 0.7)",
-      message: "¡A comer rico! 🍽️",
-    };
-  };
+  // Color y mensaje de Lumi según su estado
+  const lumiState = getLumiStatus(progress, nutritionalNeeds?.balanceThreshold);
+  const lumiStatus = { ...LUMI_COLORS[lumiState], message: text.lumi[lumiState] };
 
-  const lumiStatus = getLumiColor();
-
-  const handleAddWater = async () => {
+  const handleAddWater = async (volumeMl: number = units.containerMl, beverage: BeverageType = "water") => {
     setIsAddingWater(true);
-    await addWater(1);
+    const entry = await addWater(volumeMl, beverage);
     
     // Log hydration event (fire-and-forget to avoid blocking UI and to tolerate network failures/adblockers)
-    if (userId && accessToken) {
+    if (entry && userId && accessToken) {
+      const glasses = (volumeMl * entry.coefficient) / GLASS_ML;
       void logUserEvent(userId, accessToken, "hydration_logged", {
-        glasses: 1,
-        totalGlasses: waterGlasses + 1,
+        volumeMl,
+        beverage,
+        glasses,
+        totalGlasses: waterGlasses + glasses,
         percentage: nutritionalNeeds 
-          ? Math.round(((waterGlasses + 1) / nutritionalNeeds.dailyWater) * 100)
+          ? goalPercentage(waterGlasses + glasses, waterGoal.glasses)
           : 0,
       });
     }
@@ -116,12 +109,45 @@ export function DashboardScreen() {
     setTimeout(() => setIsAddingWater(false), 300);
   };
 
+  // Meta de hoy en los recipientes del usuario (vasos o botellas de su tamaño)
+  const goalContainers = toContainers(waterGoal.ml, units);
+  const goalMarkings = Math.max(1, Math.round(goalContainers));
+
+  // Tap: +1 vaso (o botella) de agua. Long-press: abrir el selector de volumen y bebida.
+  const handleWaterPressStart = () => {
+    longPressTriggeredRef.current = false;
+    longPressTimerRef.current = setTimeout(() => {
+      longPressTriggeredRef.current = true;
+      setIsPickerOpen(true);
+    }, LONG_PRESS_MS);
+  };
+
+  const handleWaterPressEnd = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const handleWaterClick = () => {
+    if (longPressTriggeredRef.current) {
+      longPressTriggeredRef.current = false;
+      return;
+    }
+    void handleAddWater();
+  };
+
+  // Últimos registros de agua (más recientes primero)
+  const recentWaterEntries = [...waterEntries]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, 5);
+
   // Count balanced meals
-  const balancedMealsCount = Object.values(mealIntakes).filter(meal => {
-    if (!nutritionalNeeds) return false;
-    const proteinOk = meal.protein >= nutritionalNeeds.proteinPerMeal * 0.8;
-    const fiberOk = meal.fiber >= nutritionalNeeds.fiberPerMeal * 0.8;
-    return proteinOk && fiberOk;
+  const balancedMealsCount = mealSlots.filter(slot => {
+    const meal = mealIntakes[slot.id];
+    const target = nutritionalNeeds?.mealTargets[slot.id];
+    if (!meal || !target) return false;
+    return isBalanced(meal, target, nutritionalNeeds?.balanceThreshold);
   }).length;
 
   const { isConnected, deviceName } = useBluetooth();
@@ -145,14 +171,14 @@ export function DashboardScreen() {
         {/* Header */}
         <div className="mb-6 flex items-center justify-between">
           <div>
-            <p className="text-sm text-gray-500">Balance de hoy</p>
+            <p className="text-sm text-gray-500">{text.todayBalance}</p>
             <h2 className="text-gray-800">{lumiStatus.message}</h2>
           </div>
           {/* Bluetooth status chip */}
           <div className="flex items-center gap-2">
             <div className={`px-3 py-1 rounded-full text-xs font-medium flex items-center gap-2 shadow ${isConnected ? 'bg-green-50 text-green-800 border border-green-100' : 'bg-gray-50 text-gray-700 border border-gray-100'}`}>
               {isConnected ? <Check className="w-4 h-4 text-green-600" /> : <Bluetooth className="w-4 h-4 text-gray-500" />}
-              <span>{isConnected ? `Conectado: ${deviceName || 'Lumi'}` : 'Sin conexión'}</span>
+              <span>{isConnected ? text.connectedTo(deviceName || 'Lumi') : text.disconnected}</span>
             </div>
           </div>
         </div>
@@ -248,9 +274,14 @@ export function DashboardScreen() {
                   <Droplet className="w-7 h-7 text-blue-600" fill="currentColor" />
                 </motion.div>
                 <div>
-                  <p className="text-gray-800">Hidratación 💧</p>
+                  <p className="text-gray-800">{text.hydration}</p>
                   <p className="text-xs text-gray-500">
-                    {waterGlasses} de {nutritionalNeeds?.dailyWater || 8} vasos
+                    {text.waterProgress(
+                      fmt.number(glassesToContainers(waterGlasses, units)),
+                      fmt.number(goalContainers),
+                      fmt.containerLabel(goalContainers)
+                    )}
+                    {waterGoal.extraMl > 0 && text.extraWater(fmt.volume(waterGoal.extraMl))}
                   </p>
                 </div>
               </div>
@@ -260,8 +291,13 @@ export function DashboardScreen() {
               >
                 <Button
                   size="sm"
-                  className="h-10 w-10 p-0 rounded-full bg-gradient-to-br from-blue-300 to-blue-400 hover:from-blue-400 hover:to-blue-500 shadow-lg text-blue-900"
-                  onClick={handleAddWater}
+                  className="h-10 w-10 p-0 rounded-full bg-gradient-to-br from-blue-300 to-blue-400 hover:from-blue-400 hover:to-blue-500 shadow-lg text-blue-900 select-none"
+                  onClick={handleWaterClick}
+                  onPointerDown={handleWaterPressStart}
+                  onPointerUp={handleWaterPressEnd}
+                  onPointerLeave={handleWaterPressEnd}
+                  onContextMenu={(e) => e.preventDefault()}
+                  aria-label={text.addWater}
                 >
                   <Plus className="w-5 h-5" />
                 </Button>
@@ -491,12 +527,12 @@ export function DashboardScreen() {
               </div>
 
               {/* Glass markings */}
-              {[...Array(nutritionalNeeds?.dailyWater || 8)].map((_, i) => (
+              {[...Array(goalMarkings)].map((_, i) => (
                 <div
                   key={i}
                   className="absolute left-0 right-0 border-t border-blue-200/30"
                   style={{
-                    bottom: `${((i + 1) / (nutritionalNeeds?.dailyWater || 8)) * 100}%`,
+                    bottom: `${((i + 1) / goalMarkings) * 100}%`,
                   }}
                 >
                   <span className="absolute right-2 -top-2 text-[10px] text-blue-400/60">
@@ -513,13 +549,48 @@ export function DashboardScreen() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.8 }}
             >
-              {waterPercentage >= 100 && "✨ ¡Eres una leyenda del H₂O! Hidratación nivel pro"}
-              {waterPercentage >= 80 && waterPercentage < 100 && "🌊 ¡Ya merito! Un vasito más y eres imparable"}
-              {waterPercentage >= 50 && waterPercentage < 80 && "💙 ¡Vas súper bien! Keep it up, bebe agua"}
-              {waterPercentage < 50 && "🐠 Tu cuerpo te pide aguita, ¡dale amor líquido!"}
+              {waterPercentage >= 100 && text.waterMessages.done}
+              {waterPercentage >= 80 && waterPercentage < 100 && text.waterMessages.almost}
+              {waterPercentage >= 50 && waterPercentage < 80 && text.waterMessages.halfway}
+              {waterPercentage < 50 && text.waterMessages.low}
             </motion.p>
+
+            {/* Today's water log */}
+            {recentWaterEntries.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-blue-100 space-y-1.5">
+                {recentWaterEntries.map((entry) => {
+                  const beverage = getBeverage(entry.beverage);
+                  return (
+                    <div key={entry.id} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-500">
+                        {fmt.time(new Date(entry.timestamp))}
+                      </span>
+                      <span className="flex-1 ml-3 text-gray-700">
+                        {beverage.emoji} {m.beverages[beverage.type]} · {fmt.volume(entry.volumeMl)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeWaterEntry(entry.id)}
+                        className="w-6 h-6 rounded-full flex items-center justify-center text-gray-400 hover:text-red-500 hover:bg-red-50"
+                        aria-label={text.removeEntry}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </motion.div>
 
+          <DayConditionsCard />
+
+          <WaterVolumePicker
+            open={isPickerOpen}
+            onOpenChange={setIsPickerOpen}
+            onSelect={(volumeMl, beverage) => handleAddWater(volumeMl, beverage)}
+          />
+
           {/* Nutrition card */}
           <motion.div
             className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 shadow-lg"
@@ -543,8 +614,8 @@ export function DashboardScreen() {
                   </motion.div>
                 </div>
                 <div>
-                  <p className="text-gray-800">Nutrición</p>
-                  <p className="text-xs text-gray-500">{balancedMealsCount} comidas balanceadas</p>
+                  <p className="text-gray-800">{text.nutrition}</p>
+                  <p className="text-xs text-gray-500">{text.balancedMeals(balancedMealsCount)}</p>
                 </div>
               </div>
               <div className="text-right">
@@ -563,21 +634,53 @@ export function DashboardScreen() {
             {/* Mini breakdown */}
             <div className="mt-3 pt-3 border-t border-gray-200 grid grid-cols-2 gap-2">
               <div className="text-xs">
-                <span className="text-gray-500">Proteína: </span>
+                <span className="text-gray-500">{m.nutrients.protein}: </span>
                 <span className="text-gray-700">
-                  {totalIntake.protein}g / {nutritionalNeeds?.dailyProtein || 0}g
+                  {fmt.nutrient("protein", totalIntake.protein)} / {fmt.nutrient("protein", nutritionalNeeds?.dailyProtein || 0)}
                 </span>
               </div>
               <div className="text-xs">
-                <span className="text-gray-500">Fibra: </span>
+                <span className="text-gray-500">{m.nutrients.fiber}: </span>
                 <span className="text-gray-700">
-                  {totalIntake.fiber}g / {nutritionalNeeds?.dailyFiber || 0}g
+                  {fmt.nutrient("fiber", totalIntake.fiber)} / {fmt.nutrient("fiber", nutritionalNeeds?.dailyFiber || 0)}
                 </span>
               </div>
             </div>
           </motion.div>
         </div>
 
+        {/* Week stats */}
+        {weekStats && weekStats.trackedDays > 0 && (
+          <motion.div
+            className="mt-4 bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 shadow-lg"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+          >
+            <div className="flex items-center gap-2 mb-3">
+              <CalendarDays className="w-4 h-4 text-purple-500" />
+              <p className="text-sm text-gray-800">{text.week}</p>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-lg text-blue-600">{fmt.number(glassesToContainers(weekStats.metrics.water.average, units))}</p>
+                <p className="text-xs text-gray-500">{text.perDay(fmt.containerLabel())}</p>
+              </div>
+              <div>
+                <p className="text-lg text-blue-600">{weekStats.metrics.water.goalAttainment ?? 0}%</p>
+                <p className="text-xs text-gray-500">{text.waterGoalDays}</p>
+              </div>
+              <div>
+                <p className="text-lg text-green-600">
+                  {weekStats.balancedDays}/{weekStats.trackedDays}
+                </p>
+                <p className="text-xs text-gray-500">{text.balancedDays}</p>
+              </div>
+            </div>
+            <WeekStatsTip stats={weekStats} />
+          </motion.div>
+        )}
+
         {/* Quick tip */}
         <motion.div
           className="mt-4 bg-gradient-to-r from-purple-100 to-pink-100 rounded-2xl p-4"
@@ -586,10 +689,28 @@ export function DashboardScreen() {
           transition={{ delay: 0.6 }}
         >
           <p className="text-xs text-purple-700 text-center">
-            ✨ Pro tip: Ve a Meals y registra tus comidas para trackear tu glow-up completo
+            {text.tip}
           </p>
         </motion.div>
       </div>
     </div>
   );
 }
+
+// Un dato destacado de la semana: el mejor día y cuándo tomas más agua
+function WeekStatsTip({ stats }: { stats: UserStats }) {
+  const { m } = useI18n();
+  const text = m.dashboard;
+  const { bestWeekday, timeOfDay } = stats.metrics.water;
+  const [topPart, topShare] = (Object.entries(timeOfDay) as [TimeOfDay, number][]).reduce((top, entry) =>
+    entry[1] > top[1] ? entry : top
+  );
+  if (bestWeekday === null && topShare === 0) return null;
+
+  return (
+    <p className="mt-3 pt-3 border-t border-gray-200 text-xs text-gray-600">
+      {bestWeekday !== null && text.bestWeekday(m.common.weekdays[bestWeekday])}
+      {topShare > 0 && text.timeOfDayShare(topShare, text.timeOfDay[topPart])}
+    </p>
+  );
+}
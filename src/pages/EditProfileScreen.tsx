@@ -0,0 +1,401 @@
+import { useForm } from "react-hook-form";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { toast } from "sonner";
+import { UserProfile, useUser } from "../contexts/UserContext";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
+import { ACTIVITY_LEVELS, ActivityLevel, PROFILE_LIMITS, calculateDailyNeeds } from "../shared/nutritionRules";
+import { DEFAULT_MEAL_SLOTS, validateMealSlots } from "../utils/mealSlots";
+import {
+  UnitPreferences,
+  cmToFeetInches,
+  feetInchesToCm,
+  fromDisplayWeight,
+  isImperial,
+  toDisplayWeight,
+  weightUnit,
+} from "../utils/units";
+import { useI18n } from "../utils/useI18n";
+
+interface EditProfileScreenProps {
+  onBack: () => void;
+}
+
+// Los campos se escriben como texto, en las unidades del usuario
+interface EditProfileValues {
+  name: string;
+  age: string;
+  weight: string;
+  height: string; // cm
+  heightFeet: string;
+  heightInches: string;
+  activityLevel: ActivityLevel;
+  dayStartTime: string;
+  dayEndTime: string;
+}
+
+const inRange = (value: number, { min, max }: { min: number; max: number }) => value >= min && value <= max;
+
+// Valores iniciales del formulario: el perfil en las unidades del usuario (redondeado)
+function toFormValues(profile: UserProfile, units: UnitPreferences): EditProfileValues {
+  const { feet, inches } = cmToFeetInches(profile.height);
+  return {
+    name: profile.name,
+    age: String(profile.age),
+    weight: String(toDisplayWeight(profile.weight, units)),
+    height: String(Math.round(profile.height)),
+    heightFeet: String(feet),
+    heightInches: String(inches),
+    activityLevel: profile.activityLevel,
+    dayStartTime: profile.dayStartTime || "06:00",
+    dayEndTime: profile.dayEndTime || "22:00",
+  };
+}
+
+// Peso en kg y altura en cm a partir de lo escrito (NaN si no es un número).
+// Si el campo no cambió se conserva el valor guardado: convertir de vuelta lo
+// que se mostró redondeado (ej. en lb o pies) lo alteraría.
+function toMetric(values: EditProfileValues, profile: UserProfile, units: UnitPreferences) {
+  const initial = toFormValues(profile, units);
+  const heightChanged = isImperial(units)
+    ? values.heightFeet !== initial.heightFeet || values.heightInches !== initial.heightInches
+    : values.height !== initial.height;
+  return {
+    weight: values.weight === initial.weight ? profile.weight : fromDisplayWeight(parseFloat(values.weight), units),
+    height: !heightChanged
+      ? profile.height
+      : isImperial(units)
+        ? feetInchesToCm(parseInt(values.heightFeet), parseInt(values.heightInches || "0"))
+        : parseFloat(values.height),
+  };
+}
+
+export function EditProfileScreen({ onBack }: EditProfileScreenProps) {
+  const { profile, units, setProfile } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.editProfile;
+  const imperial = isImperial(units);
+
+  const form = useForm<EditProfileValues>({
+    mode: "onChange",
+    defaultValues: profile ? toFormValues(profile, units) : undefined,
+  });
+
+  if (!profile) return null;
+
+  const values = form.watch();
+  const required = { value: true, message: text.errors.required };
+  const rangeError = (format: (value: number) => string, limits: { min: number; max: number }) =>
+    text.errors.range(format(limits.min), format(limits.max));
+
+  // Perfil con los cambios; mientras un campo no sea válido se muestra el valor guardado
+  const previewChanges = () => {
+    const age = parseInt(values.age);
+    const { weight, height } = toMetric(values, profile, units);
+    return {
+      age: inRange(age, PROFILE_LIMITS.age) ? age : profile.age,
+      weight: inRange(weight, PROFILE_LIMITS.weight) ? weight : profile.weight,
+      height: inRange(height, PROFILE_LIMITS.height) ? height : profile.height,
+      activityLevel: values.activityLevel,
+    };
+  };
+
+  const before = calculateDailyNeeds(profile);
+  const after = calculateDailyNeeds({ ...profile, ...previewChanges() });
+  const goalRows = [
+    { label: m.profile.dailyProtein, before: fmt.nutrient("protein", before.protein), after: fmt.nutrient("protein", after.protein) },
+    { label: m.profile.dailyFiber, before: fmt.nutrient("fiber", before.fiber), after: fmt.nutrient("fiber", after.fiber) },
+    { label: m.profile.dailyWater, before: fmt.containers(before.waterMl), after: fmt.containers(after.waterMl) },
+    { label: m.profile.calories, before: fmt.nutrient("calories", before.calories), after: fmt.nutrient("calories", after.calories) },
+  ];
+  const hasGoalChanges = goalRows.some((row) => row.before !== row.after);
+
+  const handleSubmit = async (values: EditProfileValues) => {
+    const saved = await setProfile({
+      ...profile,
+      ...toMetric(values, profile, units),
+      name: values.name.trim(),
+      age: parseInt(values.age),
+      activityLevel: values.activityLevel,
+      dayStartTime: values.dayStartTime,
+      dayEndTime: values.dayEndTime,
+    });
+    if (!saved) {
+      toast.error(text.saveFailed);
+      return;
+    }
+    toast.success(text.saved);
+    onBack();
+  };
+
+  const inputClass = "bg-white/80 backdrop-blur-md border-white/50";
+
+  return (
+    <div className="relative h-full bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50 overflow-y-auto">
+      <div className="p-6 pb-24 space-y-4 max-w-md mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-9 w-9 p-0 rounded-full bg-white/70"
+            onClick={onBack}
+            aria-label={m.common.back}
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-gray-800">{text.title}</h2>
+            <p className="text-sm text-gray-500">{text.subtitle}</p>
+          </div>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50 space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                rules={{ validate: (name) => !!name.trim() || text.errors.required }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{m.profileSetup.name}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={m.profileSetup.namePlaceholder} className={inputClass} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="age"
+                  rules={{
+                    required,
+                    validate: (age) =>
+                      !Number.isInteger(Number(age))
+                        ? text.errors.wholeNumber
+                        : inRange(Number(age), PROFILE_LIMITS.age) || rangeError(fmt.number, PROFILE_LIMITS.age),
+                  }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{m.profileSetup.age}</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="numeric" className={inputClass} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="weight"
+                  rules={{
+                    required,
+                    validate: (_, all) =>
+                      inRange(toMetric(all, profile, units).weight, PROFILE_LIMITS.weight) ||
+                      rangeError(fmt.weight, PROFILE_LIMITS.weight),
+                  }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{m.profileSetup.weight(weightUnit(units))}</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="decimal" step="0.1" className={inputClass} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {imperial ? (
+                <div className="space-y-2">
+                  <p className="text-sm">{m.profileSetup.heightImperial}</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="heightFeet"
+                      rules={{
+                        required,
+                        validate: (_, all) =>
+                          inRange(toMetric(all, profile, units).height, PROFILE_LIMITS.height) ||
+                          rangeError(fmt.height, PROFILE_LIMITS.height),
+                      }}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs text-gray-500">{text.feet}</FormLabel>
+                          <FormControl>
+                            <Input type="number" inputMode="numeric" min="0" className={inputClass} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="heightInches"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs text-gray-500">{text.inches}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              inputMode="numeric"
+                              min="0"
+                              max="11"
+                              className={inputClass}
+                              {...field}
+                              onChange={(e) => {
+                                field.onChange(e);
+                                // La altura se valida con pies y pulgadas juntos
+                                void form.trigger("heightFeet");
+                              }}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="height"
+                  rules={{
+                    required,
+                    validate: (height) =>
+                      inRange(parseFloat(height), PROFILE_LIMITS.height) || rangeError(fmt.height, PROFILE_LIMITS.height),
+                  }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{m.profileSetup.heightMetric}</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="numeric" className={inputClass} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="activityLevel"
+                rules={{ required }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{m.profileSetup.activity}</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className={inputClass}>
+                          <SelectValue placeholder={m.profileSetup.activityPlaceholder} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ACTIVITY_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>
+                            {m.profileFields.activityDetail[level]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Day schedule */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="dayStartTime"
+                  rules={{ required }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{text.dayStart}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="time"
+                          className={inputClass}
+                          {...field}
+                          onChange={(e) => {
+                            field.onChange(e);
+                            void form.trigger("dayEndTime");
+                          }}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dayEndTime"
+                  rules={{
+                    required,
+                    // Las comidas configuradas tienen que caber en el nuevo horario
+                    validate: (end, all) =>
+                      end === all.dayStartTime
+                        ? text.errors.sameTimes
+                        : validateMealSlots(profile.mealSlots ?? DEFAULT_MEAL_SLOTS, m.mealSlots.errors, all.dayStartTime, end) ??
+                          true,
+                  }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{text.dayEnd}</FormLabel>
+                      <FormControl>
+                        <Input type="time" className={inputClass} {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription className="text-xs">{text.scheduleHint}</FormDescription>
+              {form.formState.errors.dayEndTime && (
+                <p className="text-destructive text-sm">{form.formState.errors.dayEndTime.message}</p>
+              )}
+            </div>
+
+            {/* Goals before and after */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
+              <h3 className="text-gray-800">{text.goalsDiff}</h3>
+              <p className="text-xs text-gray-500 mb-3">{hasGoalChanges ? text.goalsDiffHint : text.noChanges}</p>
+              <div className="space-y-2">
+                {goalRows.map((row) => {
+                  const changed = row.before !== row.after;
+                  return (
+                    <div key={row.label} className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">{row.label}</span>
+                      <span className="flex items-center gap-2 text-sm">
+                        <span className={changed ? "text-gray-400 line-through" : "text-gray-700"}>{row.before}</span>
+                        {changed && (
+                          <>
+                            <ArrowRight className="w-3 h-3 text-gray-400" />
+                            <span className="text-purple-600">{row.after}</span>
+                          </>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-gradient-to-r from-purple-400 to-pink-500 text-white"
+              disabled={form.formState.isSubmitting}
+            >
+              {form.formState.isSubmitting ? m.common.saving : m.common.save}
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
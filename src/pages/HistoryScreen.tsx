@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { Check, Droplet, Plus, TrendingUp, Utensils } from "lucide-react";
+import { toast } from "sonner";
+import { useUser } from "../contexts/UserContext";
+import { Button } from "../components/ui/button";
+import { Calendar } from "../components/ui/calendar";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from "../components/ui/drawer";
+import { HistoryDay, getHistory, logWaterForDay } from "../utils/history";
+import { getBeverage } from "../utils/beverages";
+import { useI18n } from "../utils/useI18n";
+import { getDateLocale } from "../locales";
+import { addDays, getBrowserTimeZone, getDayKey } from "../shared/dates";
+
+// Volúmenes rápidos para completar el agua de ayer (ml)
+const BACKDATE_VOLUMES = [250, 500];
+
+// "YYYY-MM-DD" de una fecha local del calendario (react-day-picker usa fechas locales)
+function toDayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDayKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+interface HistoryScreenProps {
+  onOpenInsights?: () => void;
+}
+
+export function HistoryScreen({ onOpenInsights }: HistoryScreenProps) {
+  const { userId, accessToken, profile, nutritionalNeeds, mealSlots, streakData, refreshData } = useUser();
+  const { m, fmt, language } = useI18n();
+  const text = m.history;
+  const dateLocale = getDateLocale(language);
+  const timeZone = profile?.timeZone || getBrowserTimeZone();
+  const todayKey = getDayKey(timeZone, profile?.dayStartTime || "00:00");
+  const today = fromDayKey(todayKey);
+
+  const [month, setMonth] = useState(() => new Date(today.getFullYear(), today.getMonth(), 1));
+  const [days, setDays] = useState<Record<string, HistoryDay>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const loadRange = async (from: string, to: string) => {
+    if (!userId || !accessToken) return;
+    const loaded = await getHistory(userId, accessToken, from, to);
+    setDays((prev) => ({
+      ...prev,
+      ...Object.fromEntries(loaded.map((day) => [day.date, day])),
+    }));
+  };
+
+  // Cargar el mes visible (hasta hoy)
+  useEffect(() => {
+    const from = toDayKey(new Date(month.getFullYear(), month.getMonth(), 1));
+    const lastOfMonth = toDayKey(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+    const to = lastOfMonth < todayKey ? lastOfMonth : todayKey;
+    if (from > to) return;
+
+    setIsLoading(true);
+    loadRange(from, to).then(() => setIsLoading(false));
+  }, [month, userId, accessToken]);
+
+  // Ayer se puede completar mientras el servidor no haya cerrado el día (periodo de gracia)
+  const yesterdayKey = addDays(todayKey, -1);
+  const canBackdate =
+    selectedKey === yesterdayKey && !(streakData?.lastFinalizedDate && streakData.lastFinalizedDate >= yesterdayKey);
+
+  const handleBackdateWater = async (volumeMl: number) => {
+    if (!userId || !accessToken || !selectedKey) return;
+    const logged = await logWaterForDay(userId, accessToken, selectedKey, volumeMl);
+    if (!logged) {
+      toast.error(text.dayClosed);
+      return;
+    }
+    toast.success(text.backdated(fmt.volume(volumeMl)));
+    await loadRange(selectedKey, selectedKey);
+    void refreshData();
+  };
+
+  // Cada día se compara con las metas que tenía, no con las de hoy
+  const dailyWater = nutritionalNeeds?.dailyWater || 8;
+  const hydrationPercent = (day: HistoryDay) =>
+    Math.round((day.waterGlasses / (day.goals?.waterGlasses || dailyWater)) * 100);
+
+  const loggedDays = Object.values(days);
+  const monthDays = loggedDays.filter((day) => day.date.startsWith(toDayKey(month).slice(0, 7)));
+  const balancedCount = monthDays.filter((day) => day.isBalanced).length;
+  const averageHydration = monthDays.length
+    ? Math.round(monthDays.reduce((sum, day) => sum + Math.min(hydrationPercent(day), 100), 0) / monthDays.length)
+    : 0;
+
+  const modifiers = {
+    balanced: loggedDays.filter((day) => day.isBalanced).map((day) => fromDayKey(day.date)),
+    unbalanced: loggedDays.filter((day) => !day.isBalanced).map((day) => fromDayKey(day.date)),
+    hydrated: loggedDays.filter((day) => hydrationPercent(day) >= 100).map((day) => fromDayKey(day.date)),
+    partiallyHydrated: loggedDays
+      .filter((day) => hydrationPercent(day) >= 50 && hydrationPercent(day) < 100)
+      .map((day) => fromDayKey(day.date)),
+  };
+
+  const selectedDay = selectedKey ? days[selectedKey] : null;
+  const getMealName = (type: string) => mealSlots.find((slot) => slot.id === type)?.name ?? type;
+
+  return (
+    <div className="relative h-full bg-gradient-to-br from-blue-50 via-green-50 to-yellow-50 overflow-y-auto pb-24">
+      <div className="p-6 space-y-4">
+        {/* Header */}
+        <div className="flex items-start justify-between mb-2">
+          <div>
+            <h2 className="text-gray-800 mb-1">{text.title}</h2>
+            <p className="text-sm text-gray-500">{text.subtitle}</p>
+          </div>
+          {onOpenInsights && (
+            <Button size="sm" variant="outline" className="bg-white/70" onClick={onOpenInsights}>
+              <TrendingUp className="w-4 h-4 mr-1" />
+              {text.trends}
+            </Button>
+          )}
+        </div>
+
+        {/* Month summary */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+            <p className="text-xs text-gray-500 mb-1">{text.balancedDays}</p>
+            <p className="text-lg text-green-600">
+              {balancedCount}
+              <span className="text-xs text-gray-400">{text.logged(monthDays.length)}</span>
+            </p>
+          </div>
+          <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+            <p className="text-xs text-gray-500 mb-1">{text.averageHydration}</p>
+            <p className="text-lg text-blue-600">{averageHydration}%</p>
+          </div>
+        </div>
+
+        {/* Calendar */}
+        <motion.div
+          className="bg-white/70 backdrop-blur-xl rounded-2xl border border-white/50 flex justify-center"
+          animate={{ opacity: isLoading ? 0.6 : 1 }}
+        >
+          <Calendar
+            mode="single"
+            locale={dateLocale}
+            weekStartsOn={dateLocale.options?.weekStartsOn}
+            month={month}
+            onMonthChange={setMonth}
+            selected={selectedKey ? fromDayKey(selectedKey) : undefined}
+            onDayClick={(date) => setSelectedKey(toDayKey(date))}
+            disabled={{ after: today }}
+            toMonth={today}
+            modifiers={modifiers}
+            modifiersClassNames={{
+              balanced: "bg-green-200 text-green-900 hover:bg-green-300",
+              unbalanced: "bg-pink-100 text-pink-900 hover:bg-pink-200",
+              hydrated: "border-b-4 border-blue-500",
+              partiallyHydrated: "border-b-4 border-blue-200",
+            }}
+          />
+        </motion.div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-green-200" /> {text.legend.balanced}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded bg-pink-100" /> {text.legend.unbalanced}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-1 bg-blue-500" /> {text.legend.waterFull}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-1 bg-blue-200" /> {text.legend.waterHalf}
+          </span>
+        </div>
+      </div>
+
+      {/* Day detail */}
+      <Drawer open={selectedKey !== null} onOpenChange={(open) => !open && setSelectedKey(null)}>
+        <DrawerContent className="bg-white">
+          <DrawerHeader>
+            <DrawerTitle className="text-gray-800 capitalize">
+              {selectedKey &&
+                fmt.date(fromDayKey(selectedKey), { weekday: "long", day: "numeric", month: "long" })}
+            </DrawerTitle>
+            <DrawerDescription>
+              {selectedDay
+                ? selectedDay.isBalanced
+                  ? text.dayBalanced
+                  : text.dayUnbalanced
+                : text.noRecords}
+            </DrawerDescription>
+          </DrawerHeader>
+
+          {canBackdate && (
+            <div className="px-6 pb-4">
+              <p className="text-xs text-gray-500 mb-2">{text.backdateHint}</p>
+              <div className="flex gap-2">
+                {BACKDATE_VOLUMES.map((volumeMl) => (
+                  <Button
+                    key={volumeMl}
+                    size="sm"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => handleBackdateWater(volumeMl)}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {fmt.volume(volumeMl)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {selectedDay && (
+            <div className="px-6 pb-8 space-y-5 max-h-[60vh] overflow-y-auto">
+              {/* Water */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="flex items-center gap-2 text-sm text-gray-700">
+                    <Droplet className="w-4 h-4 text-blue-500" />
+                    {text.water}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {text.waterSummary(fmt.volume(selectedDay.waterMl), hydrationPercent(selectedDay))}
+                  </p>
+                </div>
+                {selectedDay.waterEntries.length === 0 ? (
+                  <p className="text-xs text-gray-400">{text.noWater}</p>
+                ) : (
+                  <div className="space-y-1">
+                    {[...selectedDay.waterEntries]
+                      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+                      .map((entry) => {
+                        const beverage = getBeverage(entry.beverage);
+                        return (
+                          <div key={entry.id} className="flex items-center justify-between text-xs text-gray-600">
+                            <span>
+                              {beverage.emoji} {m.beverages[beverage.type]} · {fmt.volume(entry.volumeMl)}
+                            </span>
+                            <span className="text-gray-400">
+                              {fmt.time(new Date(entry.timestamp), timeZone)}
+                            </span>
+                          </div>
+                        );
+                      })}
+                  </div>
+                )}
+              </div>
+
+              {/* Meals */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="flex items-center gap-2 text-sm text-gray-700">
+                    <Utensils className="w-4 h-4 text-pink-500" />
+                    {text.meals}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {m.common.proteinAndFiber(
+                      fmt.nutrient("protein", selectedDay.totalProtein),
+                      fmt.nutrient("fiber", selectedDay.totalFiber)
+                    )}
+                  </p>
+                </div>
+                {selectedDay.meals.length === 0 ? (
+                  <p className="text-xs text-gray-400">{text.noMeals}</p>
+                ) : (
+                  <div className="space-y-2">
+                    {selectedDay.meals.map((meal) => (
+                      <div key={meal.id} className="rounded-xl bg-gray-50 px-3 py-2">
+                        <p className="text-sm text-gray-800">{getMealName(meal.type)}</p>
+                        <p className="text-xs text-gray-500">
+                          {m.common.proteinAndFiber(fmt.nutrient("protein", meal.protein), fmt.nutrient("fiber", meal.fiber))}
+                          {meal.calories !== undefined && ` · ${fmt.nutrient("calories", meal.calories)}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selectedDay.isBalanced && (
+                <p className="flex items-center gap-2 text-xs text-green-600">
+                  <Check className="w-4 h-4" />
+                  {text.balancedNote(
+                    Math.round((selectedDay.goals?.balanceThreshold ?? nutritionalNeeds?.balanceThreshold ?? 0.8) * 100)
+                  )}
+                </p>
+              )}
+            </div>
+          )}
+        </DrawerContent>
+      </Drawer>
+    </div>
+  );
+}
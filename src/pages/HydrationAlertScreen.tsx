@@ -1,6 +1,7 @@
 import { motion } from "motion/react";
 import { Droplet, X, Clock, Waves } from "lucide-react";
 import { Button } from "../components/ui/button";
+import { useI18n } from "../utils/useI18n";
 
 interface HydrationAlertScreenProps {
   onDismiss: () => void;
@@ -8,6 +9,9 @@ interface HydrationAlertScreenProps {
 }
 
 export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScreenProps) {
+  const { m } = useI18n();
+  const text = m.hydrationAlert;
+
   return (
     <div className="relative h-full bg-gradient-to-br from-blue-400 via-blue-300 to-cyan-300 overflow-hidden flex items-center justify-center">
       {/* Animated water waves background */}
@@ -84,7 +88,7 @@ export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScre
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.2 }}
             >
-              ¡Tu cuerpo te llama! 💧
+              {text.title}
             </motion.h2>
             <motion.p
               className="text-gray-600"
@@ -92,7 +96,7 @@ export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScre
               animate={{ opacity: 1 }}
               transition={{ delay: 0.3 }}
             >
-              Tu Lumi brilla en azul porque necesitas hidratarte. ¡Dale ese boost de H₂O que mereces!
+              {text.description}
             </motion.p>
           </div>
 
@@ -132,7 +136,7 @@ export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScre
                 className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white rounded-2xl h-14 shadow-lg"
               >
                 <Droplet className="w-5 h-5 mr-2" />
-                Ya bebí agua
+                {text.drank}
               </Button>
             </motion.div>
 
@@ -147,7 +151,7 @@ export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScre
                 className="w-full bg-white/50 border-2 border-blue-200 hover:bg-blue-50 text-blue-700 rounded-2xl h-12"
               >
                 <Clock className="w-4 h-4 mr-2" />
-                Recordar en 10 min
+                {text.snooze}
               </Button>
             </motion.div>
           </div>
@@ -162,8 +166,7 @@ export function HydrationAlertScreen({ onDismiss, onSnooze }: HydrationAlertScre
             <div className="flex items-start gap-3">
               <Waves className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
               <p className="text-xs text-blue-700">
-                <span className="font-medium">Fun fact:</span> El agua le da superpoderes a tu cerebro, 
-                te llena de energía y hace que tu piel brille como diamante ✨
+                <span className="font-medium">{text.funFactLabel}</span> {text.funFact}
               </p>
             </div>
           </motion.div>
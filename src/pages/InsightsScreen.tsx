@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { useUser } from "../contexts/UserContext";
+import { Button } from "../components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "../components/ui/chart";
+import { Trends, TrendBucket, TrendPeriod, getTrends } from "../utils/trends";
+import { glassesToContainers } from "../utils/units";
+import { Formatter } from "../locales";
+import { useI18n } from "../utils/useI18n";
+
+interface InsightsScreenProps {
+  onBack: () => void;
+}
+
+// Número de semanas / meses que se muestran
+const BUCKET_COUNT: Record<TrendPeriod, number> = { week: 8, month: 6 };
+
+function bucketLabel(bucket: TrendBucket, period: TrendPeriod, fmt: Formatter): string {
+  const [year, month, day] = bucket.start.split("-").map(Number);
+  if (period === "month") {
+    return fmt.date(new Date(year, month - 1, 1), { month: "short" });
+  }
+  return fmt.date(new Date(year, month - 1, day), { day: "numeric", month: "numeric" });
+}
+
+export function InsightsScreen({ onBack }: InsightsScreenProps) {
+  const { userId, accessToken, units } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.insights;
+  const [period, setPeriod] = useState<TrendPeriod>("week");
+  const [trends, setTrends] = useState<Trends | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId || !accessToken) return;
+    setIsLoading(true);
+    getTrends(userId, accessToken, period, BUCKET_COUNT[period]).then((loaded) => {
+      setTrends(loaded);
+      setIsLoading(false);
+    });
+  }, [period, userId, accessToken]);
+
+  // El agua se grafica en los recipientes del usuario (vasos o botellas)
+  const waterConfig = {
+    water: { label: text.waterSeries(fmt.containerLabel()), color: "#60a5fa" },
+    waterGoal: { label: text.waterGoal, color: "#2563eb" },
+  } satisfies ChartConfig;
+  const nutrientsConfig = {
+    protein: { label: m.nutrients.protein, color: "#f472b6" },
+    fiber: { label: m.nutrients.fiber, color: "#4ade80" },
+  } satisfies ChartConfig;
+  const balancedConfig = {
+    balanced: { label: text.balancedDays, color: "#facc15" },
+  } satisfies ChartConfig;
+  const data = trends
+    ? trends.buckets.map((bucket) => ({
+        label: bucketLabel(bucket, period, fmt),
+        water: glassesToContainers(bucket.avgWaterGlasses, units),
+        // Meta vigente en cada periodo, no la de hoy
+        waterGoal: glassesToContainers(bucket.avgWaterGoalGlasses, units),
+        protein: bucket.proteinPercent,
+        fiber: bucket.fiberPercent,
+        balanced: bucket.balancedRate,
+      }))
+    : [];
+  const hasData = trends?.buckets.some((bucket) => bucket.loggedDays > 0) ?? false;
+
+  return (
+    <div className="relative h-full bg-gradient-to-br from-blue-50 via-green-50 to-yellow-50 overflow-y-auto">
+      <div className="p-6 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-9 w-9 p-0 rounded-full bg-white/70"
+            onClick={onBack}
+            aria-label={m.common.back}
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-gray-800">{text.title}</h2>
+            <p className="text-sm text-gray-500">{text.subtitle}</p>
+          </div>
+        </div>
+
+        {/* Period toggle */}
+        <div className="flex gap-2 bg-white/70 rounded-full p-1 w-fit">
+          {(["week", "month"] as TrendPeriod[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setPeriod(option)}
+              className={`px-4 py-1 rounded-full text-sm transition-all ${
+                period === option ? "bg-gradient-to-r from-blue-400 to-green-500 text-white" : "text-gray-500"
+              }`}
+            >
+              {option === "week" ? text.weekly : text.monthly}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-8">{text.loading}</p>
+        ) : !trends || !hasData ? (
+          <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-6 border border-white/50 text-center">
+            <p className="text-sm text-gray-600">{text.notEnoughData}</p>
+          </div>
+        ) : (
+          <>
+            {/* Water */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+              <p className="text-sm text-gray-700">{text.water}</p>
+              <p className="text-xs text-gray-500 mb-3">
+                {text.waterSubtitle(waterConfig.water.label)}
+              </p>
+              <ChartContainer config={waterConfig} className="aspect-[16/9] w-full">
+                <ComposedChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis width={28} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="water" fill="var(--color-water)" radius={6} />
+                  <Line
+                    dataKey="waterGoal"
+                    type="step"
+                    stroke="var(--color-waterGoal)"
+                    strokeDasharray="4 4"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ChartContainer>
+            </div>
+
+            {/* Protein and fiber */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+              <p className="text-sm text-gray-700">{text.nutrients}</p>
+              <p className="text-xs text-gray-500 mb-3">
+                {text.nutrientsSubtitle(
+                  m.common.proteinAndFiber(
+                    fmt.nutrient("protein", trends.goals.protein),
+                    fmt.nutrient("fiber", trends.goals.fiber)
+                  )
+                )}
+              </p>
+              <ChartContainer config={nutrientsConfig} className="aspect-[16/9] w-full">
+                <LineChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis width={36} tickLine={false} axisLine={false} unit="%" />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <ReferenceLine y={100} stroke="#9ca3af" strokeDasharray="4 4" />
+                  <Line dataKey="protein" type="monotone" stroke="var(--color-protein)" strokeWidth={2} dot={false} />
+                  <Line dataKey="fiber" type="monotone" stroke="var(--color-fiber)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            {/* Balanced days */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+              <p className="text-sm text-gray-700">{text.balancedDays}</p>
+              <p className="text-xs text-gray-500 mb-3">{text.balancedSubtitle}</p>
+              <ChartContainer config={balancedConfig} className="aspect-[16/9] w-full">
+                <BarChart data={data}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis width={36} tickLine={false} axisLine={false} unit="%" domain={[0, 100]} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="balanced" fill="var(--color-balanced)" radius={6} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,92 @@
 import { motion } from "motion/react";
-import { Coffee, Sun as SunIcon, Moon, Check, Plus, Minus } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Check, Plus, Minus, RotateCcw, Settings2, ChevronDown, Search, ChefHat, Star, History, Trash2 } from "lucide-react";
+import { toast } from "sonner";
 import { useUser } from "../contexts/UserContext";
+import { MealSlotsEditor, MEAL_SLOT_STYLES } from "../components/MealSlotsEditor";
+import { FoodSearchDialog, FoodSelection } from "../components/FoodSearchDialog";
+import { MealSlot } from "../utils/mealSlots";
+import {
+  NutrientAmounts,
+  NutrientKey,
+  MealNutrients,
+  NUTRIENTS,
+  NUTRIENT_KEYS,
+  EXTRA_NUTRIENT_KEYS,
+  DEFAULT_PETAL_NUTRIENTS,
+  emptyNutrients,
+  getNutrient,
+  isNutrientGoalMet,
+} from "../utils/nutrients";
+import { isBalanced } from "../shared/nutritionRules";
 import { Slider } from "../components/ui/slider";
 import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "../components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../components/ui/dialog";
+import { MealTemplate, createMealTemplate, deleteMealTemplate, getMealTemplates } from "../utils/mealTemplates";
 import { logUserEvent } from "../utils/analytics";
+import { useI18n } from "../utils/useI18n";
 
-export function NutritionScreen() {
-  const { nutritionalNeeds, mealIntakes, updateMealIntake, getTotalIntake, userId, accessToken } = useUser();
+// Espera tras el último cambio antes de guardar una comida, para que arrastrar
+// un slider produzca un solo cambio persistido
+const MEAL_COMMIT_DELAY_MS = 600;
+
+const PETAL_NUTRIENTS_KEY = "lumi_petal_nutrients";
+
+// Nutrientes elegidos como pétalos (guardados en este dispositivo)
+function loadPetalNutrients(): NutrientKey[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PETAL_NUTRIENTS_KEY) || "null");
+    if (Array.isArray(stored)) {
+      const keys = stored.filter((key): key is NutrientKey => NUTRIENT_KEYS.includes(key));
+      if (keys.length > 0) return keys;
+    }
+  } catch {
+    // valor corrupto: usar los pétalos por defecto
+  }
+  return DEFAULT_PETAL_NUTRIENTS;
+}
+
+interface NutritionScreenProps {
+  onOpenRecipes?: () => void;
+}
+
+export function NutritionScreen({ onOpenRecipes }: NutritionScreenProps = {}) {
+  const { profile, setProfile, nutritionalNeeds, mealSlots, mealIntakes, updateMealIntake, deleteMealIntake, repeatYesterdayMeal, getTotalIntake, userId, accessToken } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.nutrition;
+  const [isSlotsEditorOpen, setIsSlotsEditorOpen] = useState(false);
+  const [petalNutrients, setPetalNutrients] = useState<NutrientKey[]>(loadPetalNutrients);
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+
+  // Comidas favoritas del usuario
+  useEffect(() => {
+    if (userId && accessToken) {
+      getMealTemplates(userId, accessToken).then(setTemplates);
+    }
+  }, [userId, accessToken]);
 
   if (!nutritionalNeeds) {
     return (
       <div className="relative h-full bg-gradient-to-br from-pink-50 via-green-50 to-yellow-50 overflow-hidden p-6 flex items-center justify-center">
         <p className="text-gray-500 text-center">
-          Por favor completa tu perfil primero
+          {text.completeProfile}
         </p>
       </div>
     );
@@ -22,56 +96,100 @@ export function NutritionScreen() {
   const proteinProgress = (totalIntake.protein / nutritionalNeeds.dailyProtein) * 100;
   const fiberProgress = (totalIntake.fiber / nutritionalNeeds.dailyFiber) * 100;
 
-  // Calculate flower bloom based on overall balance
-  const totalPetals = 6;
-  const proteinMeals = [
-    mealIntakes.breakfast.protein >= nutritionalNeeds.proteinPerMeal,
-    mealIntakes.lunch.protein >= nutritionalNeeds.proteinPerMeal,
-    mealIntakes.dinner.protein >= nutritionalNeeds.proteinPerMeal,
-  ];
-  const fiberMeals = [
-    mealIntakes.breakfast.fiber >= nutritionalNeeds.fiberPerMeal,
-    mealIntakes.lunch.fiber >= nutritionalNeeds.fiberPerMeal,
-    mealIntakes.dinner.fiber >= nutritionalNeeds.fiberPerMeal,
-  ];
-  const completedPetals = [...proteinMeals, ...fiberMeals].filter(Boolean).length;
+  const getIntake = (slotId: string): MealNutrients => mealIntakes[slotId] ?? { protein: 0, fiber: 0 };
+  const getTarget = (slotId: string): NutrientAmounts => nutritionalNeeds.mealTargets[slotId] ?? emptyNutrients();
 
-  const updateProtein = async (meal: "breakfast" | "lunch" | "dinner", value: number) => {
-    updateMealIntake(meal, { ...mealIntakes[meal], protein: value });
-    
-    // Log meal event (non-blocking)
-    if (userId && accessToken) {
-      const mealData = { ...mealIntakes[meal], protein: value };
-      const isBalanced = mealData.protein >= nutritionalNeeds.proteinPerMeal && 
-                        mealData.fiber >= nutritionalNeeds.fiberPerMeal;
+  const dailyTargets: NutrientAmounts = {
+    protein: nutritionalNeeds.dailyProtein,
+    fiber: nutritionalNeeds.dailyFiber,
+    calories: nutritionalNeeds.dailyCalories,
+    carbs: nutritionalNeeds.dailyCarbs,
+    fat: nutritionalNeeds.dailyFat,
+    addedSugar: nutritionalNeeds.dailyAddedSugar,
+    sodium: nutritionalNeeds.dailySodium,
+  };
 
-      void logUserEvent(userId, accessToken, "meal_logged", {
-        meal,
-        protein: value,
-        fiber: mealData.fiber,
-        isBalanced,
-      });
+  // A petal blooms when a meal meets its target for that nutrient. Limits
+  // (added sugar, sodium) only count once the nutrient was actually logged.
+  const isPetalComplete = (slotId: string, key: NutrientKey) => {
+    const value = getIntake(slotId)[key];
+    if (value === undefined || (getNutrient(key).goal === "max" && !mealIntakes[slotId]?.id)) {
+      return false;
     }
+    return isNutrientGoalMet(key, value, getTarget(slotId)[key]);
+  };
+
+  // Calculate flower bloom based on overall balance: one petal per meal and chosen nutrient
+  const petals = petalNutrients.flatMap((key) =>
+    mealSlots.map((slot) => ({ key, complete: isPetalComplete(slot.id, key) }))
+  );
+  const totalPetals = petals.length;
+  const completedPetals = petals.filter((petal) => petal.complete).length;
+
+  const togglePetalNutrient = (key: NutrientKey) => {
+    const next = petalNutrients.includes(key)
+      ? petalNutrients.filter((k) => k !== key)
+      : NUTRIENT_KEYS.filter((k) => k === key || petalNutrients.includes(k));
+    if (next.length === 0) return; // siempre queda al menos un pétalo
+
+    setPetalNutrients(next);
+    localStorage.setItem(PETAL_NUTRIENTS_KEY, JSON.stringify(next));
   };
 
-  const updateFiber = async (meal: "breakfast" | "lunch" | "dinner", value: number) => {
-    updateMealIntake(meal, { ...mealIntakes[meal], fiber: value });
+  const handleMealChange = (meal: string, intake: MealNutrients) => {
+    void updateMealIntake(meal, { ...mealIntakes[meal], ...intake });
     
     // Log meal event (non-blocking)
     if (userId && accessToken) {
-      const mealData = { ...mealIntakes[meal], fiber: value };
-      const isBalanced = mealData.protein >= nutritionalNeeds.proteinPerMeal && 
-                        mealData.fiber >= nutritionalNeeds.fiberPerMeal;
-
       void logUserEvent(userId, accessToken, "meal_logged", {
         meal,
-        protein: mealData.protein,
-        fiber: value,
-        isBalanced,
+        ...intake,
+        isBalanced: isBalanced(intake, getTarget(meal), nutritionalNeeds.balanceThreshold),
       });
     }
   };
 
+  const handleRepeatYesterday = async (slot: MealSlot) => {
+    const result = await repeatYesterdayMeal(slot.id);
+    if (result === "repeated") {
+      toast.success(text.repeated(slot.name));
+    } else if (result === "not_found") {
+      toast(text.notFoundYesterday(slot.name));
+    } else {
+      toast.error(text.repeatFailed);
+    }
+  };
+
+  const handleSaveTemplate = async (slot: MealSlot, name: string, meal: MealNutrients) => {
+    if (!userId || !accessToken) return false;
+    const saved = await createMealTemplate(userId, accessToken, { name, type: slot.id, meal });
+    if (!saved) {
+      toast.error(text.templateSaveFailed);
+      return false;
+    }
+    setTemplates((prev) => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    toast.success(text.templateSaved(saved.name));
+    return true;
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!userId || !accessToken) return;
+    if (await deleteMealTemplate(userId, accessToken, templateId)) {
+      setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+    }
+  };
+
+  // Favoritas del slot primero, luego las demás
+  const getSlotTemplates = (slotId: string) => [
+    ...templates.filter((t) => t.type === slotId),
+    ...templates.filter((t) => t.type !== slotId),
+  ];
+
+  const handleSaveSlots = async (slots: MealSlot[]) => {
+    if (!profile) return;
+    await setProfile({ ...profile, mealSlots: slots });
+  };
+
   return (
     <div className="relative h-full flex flex-col">
       <div className="flex-1 bg-gradient-to-br from-pink-50 via-green-50 to-yellow-50 overflow-y-auto pb-24">
@@ -90,19 +208,43 @@ export function NutritionScreen() {
 
         <div className="p-6 space-y-4">
           {/* Header */}
-          <div className="mb-4">
-            <h2 className="text-gray-800 mb-1">Daily Nutrition</h2>
-            <p className="text-sm text-gray-500">Track your luminous meals</p>
+          <div className="mb-4 flex items-start justify-between">
+            <div>
+              <h2 className="text-gray-800 mb-1">{text.title}</h2>
+              <p className="text-sm text-gray-500">{text.subtitle}</p>
+            </div>
+            <div className="flex gap-2">
+              {onOpenRecipes && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-white/70 backdrop-blur-xl border-pink-200 text-pink-600"
+                  onClick={onOpenRecipes}
+                >
+                  <ChefHat className="w-4 h-4 mr-1" />
+                  {text.recipes}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-white/70 backdrop-blur-xl border-pink-200 text-pink-600"
+                onClick={() => setIsSlotsEditorOpen(true)}
+              >
+                <Settings2 className="w-4 h-4 mr-1" />
+                {text.meals}
+              </Button>
+            </div>
           </div>
 
           {/* Daily summary */}
           <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 mb-4">
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <p className="text-xs text-gray-500 mb-1">Proteína diaria</p>
+                <p className="text-xs text-gray-500 mb-1">{text.dailyProtein}</p>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-lg text-blue-600">{totalIntake.protein}g</span>
-                  <span className="text-xs text-gray-400">/ {nutritionalNeeds.dailyProtein}g</span>
+                  <span className="text-lg text-blue-600">{fmt.nutrient("protein", totalIntake.protein)}</span>
+                  <span className="text-xs text-gray-400">/ {fmt.nutrient("protein", nutritionalNeeds.dailyProtein)}</span>
                 </div>
                 <div className="relative h-2 bg-blue-100 rounded-full overflow-hidden mt-2">
                   <motion.div
@@ -114,10 +256,10 @@ export function NutritionScreen() {
                 </div>
               </div>
               <div>
-                <p className="text-xs text-gray-500 mb-1">Fibra diaria</p>
+                <p className="text-xs text-gray-500 mb-1">{text.dailyFiber}</p>
                 <div className="flex items-baseline gap-1">
-                  <span className="text-lg text-green-600">{totalIntake.fiber}g</span>
-                  <span className="text-xs text-gray-400">/ {nutritionalNeeds.dailyFiber}g</span>
+                  <span className="text-lg text-green-600">{fmt.nutrient("fiber", totalIntake.fiber)}</span>
+                  <span className="text-xs text-gray-400">/ {fmt.nutrient("fiber", nutritionalNeeds.dailyFiber)}</span>
                 </div>
                 <div className="relative h-2 bg-green-100 rounded-full overflow-hidden mt-2">
                   <motion.div
@@ -129,70 +271,61 @@ export function NutritionScreen() {
                 </div>
               </div>
             </div>
+
+            {/* Calories, macros and limits */}
+            <div className="grid grid-cols-3 gap-3 mt-4 pt-3 border-t border-gray-100">
+              {EXTRA_NUTRIENT_KEYS.map((key) => {
+                const nutrient = getNutrient(key);
+                const overLimit = nutrient.goal === "max" && totalIntake[key] > dailyTargets[key];
+                return (
+                  <div key={key}>
+                    <p className="text-[11px] text-gray-500">
+                      {m.nutrients[key]}
+                      {nutrient.goal === "max" && text.max}
+                    </p>
+                    <p className={`text-sm ${overLimit ? "text-red-500" : "text-gray-700"}`}>
+                      {fmt.nutrient(key, totalIntake[key])}
+                      <span className="text-xs text-gray-400"> / {fmt.nutrient(key, dailyTargets[key])}</span>
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
           {/* Meal entries */}
           <div className="flex-1 overflow-auto space-y-3 mb-4 [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
-            {/* Breakfast */}
-            <MealCard
-              title="Breakfast"
-              icon={<Coffee className="w-5 h-5 text-white" />}
-              gradientFrom="from-orange-400"
-              gradientTo="to-yellow-400"
-              protein={mealIntakes.breakfast.protein}
-              fiber={mealIntakes.breakfast.fiber}
-              proteinGoal={nutritionalNeeds.proteinPerMeal}
-              fiberGoal={nutritionalNeeds.fiberPerMeal}
-              onProteinChange={(value) => updateProtein("breakfast", value)}
-              onFiberChange={(value) => updateFiber("breakfast", value)}
-              isComplete={
-                mealIntakes.breakfast.protein >= nutritionalNeeds.proteinPerMeal &&
-                mealIntakes.breakfast.fiber >= nutritionalNeeds.fiberPerMeal
-              }
-            />
-
-            {/* Lunch */}
-            <MealCard
-              title="Lunch"
-              icon={<SunIcon className="w-5 h-5 text-white" />}
-              gradientFrom="from-yellow-400"
-              gradientTo="to-amber-400"
-              protein={mealIntakes.lunch.protein}
-              fiber={mealIntakes.lunch.fiber}
-              proteinGoal={nutritionalNeeds.proteinPerMeal}
-              fiberGoal={nutritionalNeeds.fiberPerMeal}
-              onProteinChange={(value) => updateProtein("lunch", value)}
-              onFiberChange={(value) => updateFiber("lunch", value)}
-              isComplete={
-                mealIntakes.lunch.protein >= nutritionalNeeds.proteinPerMeal &&
-                mealIntakes.lunch.fiber >= nutritionalNeeds.fiberPerMeal
-              }
-            />
-
-            {/* Dinner */}
-            <MealCard
-              title="Dinner"
-              icon={<Moon className="w-5 h-5 text-white" />}
-              gradientFrom="from-indigo-400"
-              gradientTo="to-purple-400"
-              protein={mealIntakes.dinner.protein}
-              fiber={mealIntakes.dinner.fiber}
-              proteinGoal={nutritionalNeeds.proteinPerMeal}
-              fiberGoal={nutritionalNeeds.fiberPerMeal}
-              onProteinChange={(value) => updateProtein("dinner", value)}
-              onFiberChange={(value) => updateFiber("dinner", value)}
-              isComplete={
-                mealIntakes.dinner.protein >= nutritionalNeeds.proteinPerMeal &&
-                mealIntakes.dinner.fiber >= nutritionalNeeds.fiberPerMeal
-              }
-            />
+            {mealSlots.map((slot) => {
+              const style = MEAL_SLOT_STYLES[slot.icon] ?? MEAL_SLOT_STYLES.coffee;
+              const intake = getIntake(slot.id);
+              const target = getTarget(slot.id);
+              return (
+                <MealCard
+                  key={slot.id}
+                  title={slot.name}
+                  subtitle={`${slot.startTime} – ${slot.endTime}`}
+                  icon={<style.Icon className="w-5 h-5 text-white" />}
+                  gradientFrom={style.gradientFrom}
+                  gradientTo={style.gradientTo}
+                  intake={intake}
+                  targets={target}
+                  balanceThreshold={nutritionalNeeds.balanceThreshold}
+                  templates={getSlotTemplates(slot.id)}
+                  onChange={(value) => handleMealChange(slot.id, value)}
+                  onClear={() => deleteMealIntake(slot.id)}
+                  onRepeatYesterday={() => handleRepeatYesterday(slot)}
+                  onSaveTemplate={(name, meal) => handleSaveTemplate(slot, name, meal)}
+                  onDeleteTemplate={handleDeleteTemplate}
+                />
+              );
+            })}
           </div>
 
           {/* Blooming flower visualization */}
           <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
             <div className="flex items-center justify-between">
               <div className="flex-1">
-                <p className="text-xs text-gray-500 mb-1">Balance de hoy</p>
+                <p className="text-xs text-gray-500 mb-1">{text.todayBalance}</p>
                 <div className="relative w-20 h-20">
                   {/* Center */}
                   <div className="absolute inset-0 flex items-center justify-center">
@@ -209,9 +342,9 @@ export function NutritionScreen() {
                   </div>
 
                   {/* Petals */}
-                  {[0, 1, 2, 3, 4, 5].map((index) => {
-                    const angle = (index * 60 * Math.PI) / 180;
-                    const isActive = index < completedPetals;
+                  {petals.map((petal, index) => {
+                    const angle = (index * (360 / totalPetals) * Math.PI) / 180;
+                    const isActive = petal.complete;
 
                     return (
                       <motion.div
@@ -237,7 +370,7 @@ export function NutritionScreen() {
                           className="w-8 h-8 rounded-full"
                           style={{
                             background: isActive
-                              ? "linear-gradient(135deg, #F472B6, #EC4899)"
+                              ? getNutrient(petal.key).color
                               : "linear-gradient(135deg, #E5E7EB, #D1D5DB)",
                           }}
                         />
@@ -258,49 +391,187 @@ export function NutritionScreen() {
                     repeat: Infinity,
                   }}
                 >
-                  {completedPetals === 6
-                    ? "¡Perfecto equilibrio! 🌸"
-                    : "Cada comida balanceada ayuda a crecer tu luz"}
+                  {completedPetals === totalPetals ? text.perfectBalance : text.balanceHint}
                 </motion.p>
                 <p className="text-xs text-gray-400">
-                  {Math.round((completedPetals / totalPetals) * 100)}% florecido
+                  {text.bloomed(Math.round((completedPetals / totalPetals) * 100))}
                 </p>
               </div>
             </div>
+
+            {/* Petal nutrient picker */}
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <p className="text-xs text-gray-500 mb-2">{text.petals}</p>
+              <div className="flex flex-wrap gap-2">
+                {NUTRIENTS.map((nutrient) => {
+                  const selected = petalNutrients.includes(nutrient.key);
+                  return (
+                    <button
+                      key={nutrient.key}
+                      type="button"
+                      onClick={() => togglePetalNutrient(nutrient.key)}
+                      aria-pressed={selected}
+                      className={`flex items-center gap-1 rounded-full px-3 py-1 text-xs border transition-all ${
+                        selected ? "bg-white border-gray-300 text-gray-700" : "bg-gray-50 border-gray-100 text-gray-400"
+                      }`}
+                    >
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ background: selected ? nutrient.color : "#D1D5DB" }}
+                      />
+                      {m.nutrients[nutrient.key]}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
           </div>
         </div>
       </div>
+
+      <MealSlotsEditor
+        open={isSlotsEditorOpen}
+        onOpenChange={setIsSlotsEditorOpen}
+        slots={mealSlots}
+        dayStartTime={profile?.dayStartTime || "06:00"}
+        dayEndTime={profile?.dayEndTime || "22:00"}
+        onSave={handleSaveSlots}
+      />
     </div>
   );
 }
 
 interface MealCardProps {
   title: string;
+  subtitle?: string;
   icon: React.ReactNode;
   gradientFrom: string;
   gradientTo: string;
-  protein: number;
-  fiber: number;
-  proteinGoal: number;
-  fiberGoal: number;
-  onProteinChange: (value: number) => void;
-  onFiberChange: (value: number) => void;
-  isComplete: boolean;
+  intake: MealNutrients;
+  targets: NutrientAmounts;
+  balanceThreshold: number;
+  templates: MealTemplate[];
+  onChange: (intake: MealNutrients) => void;
+  onClear: () => void;
+  onRepeatYesterday: () => Promise<void>;
+  onSaveTemplate: (name: string, meal: MealNutrients) => Promise<boolean>;
+  onDeleteTemplate: (templateId: string) => void;
 }
 
 function MealCard({
   title,
+  subtitle,
   icon,
   gradientFrom,
   gradientTo,
-  protein,
-  fiber,
-  proteinGoal,
-  fiberGoal,
-  onProteinChange,
-  onFiberChange,
-  isComplete,
+  intake,
+  targets,
+  balanceThreshold,
+  templates,
+  onChange,
+  onClear,
+  onRepeatYesterday,
+  onSaveTemplate,
+  onDeleteTemplate,
 }: MealCardProps) {
+  // Local draft so sliders stay responsive; changes are committed once
+  // MEAL_COMMIT_DELAY_MS after the last movement.
+  const [draft, setDraft] = useState<MealNutrients>(intake);
+  const { m, fmt } = useI18n();
+  const text = m.nutrition;
+  const [showMore, setShowMore] = useState(false);
+  const [isFoodSearchOpen, setIsFoodSearchOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [templateName, setTemplateName] = useState(title);
+  const commitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<MealNutrients | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const proteinGoal = targets.protein;
+  const fiberGoal = targets.fiber;
+
+  // Follow server values unless there is an uncommitted edit
+  const intakeKey = NUTRIENT_KEYS.map((key) => intake[key] ?? "").join("|");
+  useEffect(() => {
+    if (!pendingRef.current) {
+      setDraft(intake);
+    }
+  }, [intakeKey]);
+
+  // Flush a pending edit when the card unmounts (e.g. switching tabs)
+  useEffect(() => {
+    return () => {
+      if (commitTimerRef.current) clearTimeout(commitTimerRef.current);
+      if (pendingRef.current) onChangeRef.current(pendingRef.current);
+    };
+  }, []);
+
+  const scheduleCommit = (next: MealNutrients) => {
+    setDraft(next);
+    pendingRef.current = next;
+    if (commitTimerRef.current) clearTimeout(commitTimerRef.current);
+    commitTimerRef.current = setTimeout(() => {
+      commitTimerRef.current = null;
+      pendingRef.current = null;
+      onChangeRef.current(next);
+    }, MEAL_COMMIT_DELAY_MS);
+  };
+
+  const onProteinChange = (value: number) => scheduleCommit({ ...draft, protein: value });
+  const onFiberChange = (value: number) => scheduleCommit({ ...draft, fiber: value });
+  // An empty field removes the nutrient from the meal
+  const onExtraChange = (key: NutrientKey, raw: string) =>
+    scheduleCommit({ ...draft, [key]: raw === "" ? undefined : Math.max(0, Number(raw) || 0) });
+
+  // Sumar los nutrientes de un alimento o receta a esta comida
+  const handleAddFood = ({ food, portionLabel, quantity, nutrients }: FoodSelection) => {
+    const next = { ...draft };
+    for (const key of NUTRIENT_KEYS) {
+      next[key] = Math.round(((draft[key] ?? 0) + nutrients[key]) * 10) / 10;
+    }
+    scheduleCommit(next);
+    toast.success(text.foodAdded(food.name, quantity, portionLabel, title));
+  };
+
+  // Drop an uncommitted edit that is about to be replaced
+  const cancelPendingCommit = () => {
+    if (commitTimerRef.current) clearTimeout(commitTimerRef.current);
+    commitTimerRef.current = null;
+    pendingRef.current = null;
+  };
+
+  const handleClear = () => {
+    cancelPendingCommit();
+    setDraft({ protein: 0, fiber: 0 });
+    onClear();
+  };
+
+  const handleRepeatYesterday = () => {
+    cancelPendingCommit();
+    void onRepeatYesterday();
+  };
+
+  // Registrar una favorita reemplaza los valores actuales de la comida: los
+  // nutrientes que la favorita no tiene quedan en 0
+  const handleApplyTemplate = (template: MealTemplate) => {
+    cancelPendingCommit();
+    const meal = { ...emptyNutrients(), ...template.meal };
+    setDraft(meal);
+    onChange(meal);
+    toast.success(text.templateApplied(template.name, title));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    if (await onSaveTemplate(templateName.trim(), draft)) {
+      setIsSaveTemplateOpen(false);
+    }
+  };
+
+  const hasValues = NUTRIENT_KEYS.some((key) => (draft[key] ?? 0) > 0);
+
+  const isComplete = isBalanced(draft, targets, balanceThreshold);
+
   return (
     <motion.div
       className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50"
@@ -311,48 +582,125 @@ function MealCard({
           <div className={`w-10 h-10 bg-gradient-to-br ${gradientFrom} ${gradientTo} rounded-xl flex items-center justify-center`}>
             {icon}
           </div>
-          <p className="text-gray-800">{title}</p>
+          <div>
+            <p className="text-gray-800">{title}</p>
+            {subtitle && <p className="text-xs text-gray-400">{subtitle}</p>}
+          </div>
         </div>
-        {isComplete && (
-          <motion.div
-            initial={{ scale: 0 }}
-            animate={{ scale: 1 }}
-            className="w-6 h-6 bg-green-400 rounded-full flex items-center justify-center"
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0 rounded-full text-gray-500"
+            onClick={() => setIsFoodSearchOpen(true)}
+            aria-label={text.searchFood(title)}
           >
-            <Check className="w-4 h-4 text-white" />
-          </motion.div>
-        )}
+            <Search className="w-3 h-3" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0 rounded-full text-gray-500"
+                aria-label={text.favoritesOf(title)}
+              >
+                <Star className="w-3 h-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="bg-white w-56">
+              <DropdownMenuItem onSelect={handleRepeatYesterday}>
+                <History className="w-4 h-4" />
+                {text.repeatYesterday(title)}
+              </DropdownMenuItem>
+              {templates.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs text-gray-500">{text.favorites}</DropdownMenuLabel>
+                  {templates.map((template) => (
+                    <DropdownMenuItem key={template.id} onSelect={() => handleApplyTemplate(template)}>
+                      <span className="flex-1 truncate">{template.name}</span>
+                      <span className="text-xs text-gray-400">{text.templateProtein(fmt.nutrient("protein", template.meal.protein))}</span>
+                      <button
+                        type="button"
+                        className="text-gray-300 hover:text-red-500"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteTemplate(template.id);
+                        }}
+                        aria-label={text.deleteTemplate(template.name)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                disabled={!hasValues}
+                onSelect={() => {
+                  setTemplateName(title);
+                  setIsSaveTemplateOpen(true);
+                }}
+              >
+                <Star className="w-4 h-4" />
+                {text.saveAsFavorite}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {hasValues && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0 rounded-full text-gray-400"
+              onClick={handleClear}
+              aria-label={text.clearMeal(title)}
+            >
+              <RotateCcw className="w-3 h-3" />
+            </Button>
+          )}
+          {isComplete && (
+            <motion.div
+              initial={{ scale: 0 }}
+              animate={{ scale: 1 }}
+              className="w-6 h-6 bg-green-400 rounded-full flex items-center justify-center"
+            >
+              <Check className="w-4 h-4 text-white" />
+            </motion.div>
+          )}
+        </div>
       </div>
 
       {/* Protein input */}
       <div className="mb-3">
         <div className="flex items-center justify-between mb-2">
-          <Label>Proteína</Label>
+          <Label>{m.nutrients.protein}</Label>
           <div className="flex items-center gap-2">
             <Button
               size="sm"
               variant="ghost"
               className="h-6 w-6 p-0 rounded-full"
-              onClick={() => onProteinChange(Math.max(0, protein - 5))}
+              onClick={() => onProteinChange(Math.max(0, draft.protein - 5))}
             >
               <Minus className="w-3 h-3" />
             </Button>
             <span className="text-sm min-w-[60px] text-center">
-              <span className="text-blue-600">{protein}g</span>
-              <span className="text-gray-400 text-xs"> / {proteinGoal}g</span>
+              <span className="text-blue-600">{fmt.nutrient("protein", draft.protein)}</span>
+              <span className="text-gray-400 text-xs"> / {fmt.nutrient("protein", proteinGoal)}</span>
             </span>
             <Button
               size="sm"
               variant="ghost"
               className="h-6 w-6 p-0 rounded-full"
-              onClick={() => onProteinChange(protein + 5)}
+              onClick={() => onProteinChange(draft.protein + 5)}
             >
               <Plus className="w-3 h-3" />
             </Button>
           </div>
         </div>
         <Slider
-          value={[protein]}
+          value={[draft.protein]}
           onValueChange={(values) => onProteinChange(values[0])}
           max={proteinGoal * 2}
           step={1}
@@ -362,7 +710,7 @@ function MealCard({
           <motion.div
             className="absolute inset-y-0 left-0 bg-gradient-to-r from-blue-400 to-blue-600 rounded-full"
             initial={{ width: 0 }}
-            animate={{ width: `${Math.min((protein / proteinGoal) * 100, 100)}%` }}
+            animate={{ width: `${Math.min((draft.protein / proteinGoal) * 100, 100)}%` }}
           />
         </div>
       </div>
@@ -370,32 +718,32 @@ function MealCard({
       {/* Fiber input */}
       <div>
         <div className="flex items-center justify-between mb-2">
-          <Label>Fibra</Label>
+          <Label>{m.nutrients.fiber}</Label>
           <div className="flex items-center gap-2">
             <Button
               size="sm"
               variant="ghost"
               className="h-6 w-6 p-0 rounded-full"
-              onClick={() => onFiberChange(Math.max(0, fiber - 2))}
+              onClick={() => onFiberChange(Math.max(0, draft.fiber - 2))}
             >
               <Minus className="w-3 h-3" />
             </Button>
             <span className="text-sm min-w-[60px] text-center">
-              <span className="text-green-600">{fiber}g</span>
-              <span className="text-gray-400 text-xs"> / {fiberGoal}g</span>
+              <span className="text-green-600">{fmt.nutrient("fiber", draft.fiber)}</span>
+              <span className="text-gray-400 text-xs"> / {fmt.nutrient("fiber", fiberGoal)}</span>
             </span>
             <Button
               size="sm"
               variant="ghost"
               className="h-6 w-6 p-0 rounded-full"
-              onClick={() => onFiberChange(fiber + 2)}
+              onClick={() => onFiberChange(draft.fiber + 2)}
             >
               <Plus className="w-3 h-3" />
             </Button>
           </div>
         </div>
         <Slider
-          value={[fiber]}
+          value={[draft.fiber]}
           onValueChange={(values) => onFiberChange(values[0])}
           max={fiberGoal * 2}
           step={1}
@@ -405,10 +753,73 @@ function MealCard({
           <motion.div
             className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-400 to-green-600 rounded-full"
             initial={{ width: 0 }}
-            animate={{ width: `${Math.min((fiber / fiberGoal) * 100, 100)}%` }}
+            animate={{ width: `${Math.min((draft.fiber / fiberGoal) * 100, 100)}%` }}
           />
         </div>
       </div>
+
+      {/* Optional nutrients */}
+      <Collapsible open={showMore} onOpenChange={setShowMore} className="mt-3">
+        <CollapsibleTrigger className="flex items-center gap-1 text-xs text-gray-500">
+          <ChevronDown className={`w-3 h-3 transition-transform ${showMore ? "rotate-180" : ""}`} />
+          {text.moreNutrients}
+        </CollapsibleTrigger>
+        <CollapsibleContent className="grid grid-cols-2 gap-3 mt-2">
+          {EXTRA_NUTRIENT_KEYS.map((key) => {
+            const nutrient = getNutrient(key);
+            return (
+              <div key={key}>
+                <Label>{m.common.withUnit(m.nutrients[key], nutrient.unit)}</Label>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  step={nutrient.step}
+                  value={draft[key] ?? ""}
+                  placeholder={nutrient.goal === "max" ? text.maxPlaceholder(targets[key]) : String(targets[key])}
+                  onChange={(e) => onExtraChange(key, e.target.value)}
+                  className="h-8 mt-1 bg-white"
+                />
+              </div>
+            );
+          })}
+        </CollapsibleContent>
+      </Collapsible>
+
+      <Dialog open={isSaveTemplateOpen} onOpenChange={setIsSaveTemplateOpen}>
+        <DialogContent className="bg-white">
+          <DialogHeader>
+            <DialogTitle className="text-gray-800">{text.saveAsFavorite}</DialogTitle>
+            <DialogDescription>
+              {m.common.proteinAndFiber(fmt.nutrient("protein", draft.protein), fmt.nutrient("fiber", draft.fiber))}
+              {draft.calories !== undefined && ` · ${fmt.nutrient("calories", draft.calories)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={templateName}
+            maxLength={40}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder={text.templatePlaceholder}
+          />
+          <DialogFooter>
+            <Button
+              onClick={handleSaveTemplate}
+              disabled={!templateName.trim()}
+              className="bg-gradient-to-r from-pink-400 to-green-500 text-white"
+            >
+              {m.common.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FoodSearchDialog
+        open={isFoodSearchOpen}
+        onOpenChange={setIsFoodSearchOpen}
+        targetName={title}
+        includeRecipes
+        onAdd={handleAddFood}
+      />
     </motion.div>
   );
 }
@@ -1,18 +1,80 @@
+import { useState } from "react";
 import { motion } from "motion/react";
-import { User, Activity, Award, Flame, Calendar, TrendingUp, Bluetooth, LogOut, BluetoothConnected, BluetoothOff } from "lucide-react";
+import { User, Activity, Award, Flame, Calendar, TrendingUp, Bluetooth, LogOut, BluetoothConnected, BluetoothOff, Snowflake, Moon, RefreshCw, Lock, SlidersHorizontal, Languages, Pencil, LineChart } from "lucide-react";
+import { toast } from "sonner";
 import { useUser } from "../contexts/UserContext";
 import { useBluetooth } from "../contexts/BluetoothContext";
 import { Button } from "../components/ui/button";
 import { requestNotificationPermission, showNotification } from "../utils/pwa";
+import { StreakRecalculation, recalculateStreak } from "../utils/streak";
+import { GuidelineTarget } from "../utils/guidelines";
+import { GUIDELINE_IDS, GuidelineId, LifeStage, canHaveLifeStage } from "../shared/nutritionRules";
+import { GoalOverridesDialog } from "../components/GoalOverridesDialog";
+import { UnitsCard } from "../components/UnitsCard";
+import { LanguagePicker } from "../components/LanguagePicker";
+import { Messages } from "../locales";
+import { useI18n } from "../utils/useI18n";
+
+// Días de descanso de la racha, de lunes a domingo (0 = domingo)
+const REST_DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const MAX_REST_DAYS = 2;
+const MAX_FREEZES = 2;
+
+// Resumen legible de lo que cambió al recalcular la racha
+function describeStreakChanges(
+  { changes, updatedDays }: StreakRecalculation,
+  text: Messages["profile"]["streak"]["changes"]
+): string {
+  const parts: string[] = [];
+  if (changes.currentStreak) parts.push(text.current(changes.currentStreak));
+  if (changes.longestStreak) parts.push(text.longest(changes.longestStreak));
+  if (changes.freezes) parts.push(text.freezes(changes.freezes));
+  if (updatedDays.length > 0) parts.push(text.fixedDays(updatedDays.length));
+  return parts.join(" · ");
+}
+
+// Mensaje motivador según la racha actual (ver m.profile.streak.messages)
+function streakMessageIndex(streak: number): number {
+  if (streak === 0) return 0;
+  if (streak < 3) return 1;
+  if (streak < 7) return 2;
+  if (streak < 14) return 3;
+  return 4;
+}
 
 interface ProfileScreenProps {
   onReconnectBluetooth?: () => void;
+  onEditProfile?: () => void;
+  onOpenWeight?: () => void;
   onLogout?: () => void;
 }
 
-export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenProps = {}) {
-  const { profile, nutritionalNeeds, streakData, dailyHistory, logout, userId, accessToken } = useUser();
+export function ProfileScreen({ onReconnectBluetooth, onEditProfile, onOpenWeight, onLogout }: ProfileScreenProps = {}) {
+  const { profile, nutritionalNeeds, streakData, dailyHistory, logout, userId, accessToken, setProfile, refreshData } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.profile;
   const { isConnected, deviceName, connect, disconnect } = useBluetooth();
+  const [isRecalculating, setIsRecalculating] = useState(false);
+  const [isGoalsDialogOpen, setIsGoalsDialogOpen] = useState(false);
+
+  const handleRecalculateStreak = async () => {
+    if (!userId || !accessToken) return;
+    setIsRecalculating(true);
+    const result = await recalculateStreak(userId, accessToken);
+    setIsRecalculating(false);
+
+    if (!result) {
+      toast.error(text.streak.recalculateFailed);
+      return;
+    }
+    const summary = describeStreakChanges(result, text.streak.changes);
+    if (summary) {
+      toast.success(text.streak.recalculated, { description: summary });
+    } else {
+      toast(text.streak.upToDate);
+    }
+    await refreshData();
+  };
   
   const handleLogout = async () => {
     // Log logout event before clearing session (non-blocking)
@@ -53,7 +115,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
           <User className="w-10 h-10 text-white" />
         </motion.div>
         <p className="text-gray-600 text-center">
-          Cargando tu perfil...
+          {text.loading}
         </p>
         {userId && (
           <motion.div
@@ -69,7 +131,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
               className="bg-white/70 backdrop-blur-xl border-gray-200"
             >
               <LogOut className="w-4 h-4 mr-2" />
-              Cerrar sesión
+              {text.logout}
             </Button>
           </motion.div>
         )}
@@ -79,18 +141,83 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
 
   const currentStreak = streakData?.currentStreak ?? 0;
   const longestStreak = streakData?.longestStreak ?? 0;
+  const freezes = streakData?.freezes ?? 0;
+  const recentFreezes = [...(streakData?.freezesUsed ?? [])].reverse().slice(0, 3);
+  const restDays = profile.restDays ?? [];
 
-  const activityLabels = {
-    sedentary: "Sedentario",
-    light: "Ligeramente activo",
-    moderate: "Moderadamente activo",
-    very: "Muy activo",
+  const toggleRestDay = (day: number) => {
+    if (restDays.includes(day)) {
+      void setProfile({ ...profile, restDays: restDays.filter((d) => d !== day) });
+      return;
+    }
+    if (restDays.length >= MAX_REST_DAYS) {
+      toast.error(text.streak.tooManyRestDays(MAX_REST_DAYS));
+      return;
+    }
+    void setProfile({ ...profile, restDays: [...restDays, day] });
+  };
+
+  const guidelineId = nutritionalNeeds.guideline;
+  const guideline = m.guidelines[guidelineId];
+
+  const selectGuideline = (id: GuidelineId) => {
+    if (id === guidelineId) return;
+    void setProfile({ ...profile, guideline: id });
+    toast.success(text.guidelineSelected(m.guidelines[id].label));
+  };
+
+  // Embarazo (con trimestre) o lactancia; null quita la etapa
+  const selectLifeStage = (lifeStage: LifeStage | null, trimester?: 1 | 2 | 3) => {
+    void setProfile({ ...profile, lifeStage, trimester: lifeStage === "pregnant" ? trimester ?? 1 : undefined });
   };
 
-  const genderLabels = {
-    male: "Masculino",
-    female: "Femenino",
-    other: "Otro",
+  // Ajustes por etapa de vida o edad que se aplicaron a las metas de la guía
+  const getLifeStageNote = () => {
+    if (nutritionalNeeds.lifeStage === "pregnant") return text.lifeStageNotes.pregnant(profile.trimester ?? 1);
+    if (nutritionalNeeds.lifeStage === "lactating") return text.lifeStageNotes.lactating;
+    if (nutritionalNeeds.ageGroup === "adolescent") return text.lifeStageNotes.adolescent;
+    if (nutritionalNeeds.ageGroup === "olderAdult") return text.lifeStageNotes.olderAdult;
+    return null;
+  };
+  const lifeStageNote = getLifeStageNote();
+
+  const goalsLock = profile.goalsLock;
+  const goalRows: { goal: GuidelineTarget; label: string; value: string; color: string }[] = [
+    {
+      goal: "protein",
+      label: text.dailyProtein,
+      value: fmt.nutrient("protein", nutritionalNeeds.dailyProtein),
+      color: "text-blue-600",
+    },
+    {
+      goal: "fiber",
+      label: text.dailyFiber,
+      value: fmt.nutrient("fiber", nutritionalNeeds.dailyFiber),
+      color: "text-green-600",
+    },
+    {
+      goal: "waterMl",
+      label: text.dailyWater,
+      value: fmt.containers(nutritionalNeeds.dailyWaterMl),
+      color: "text-sky-600",
+    },
+    {
+      goal: "calories",
+      label: text.calories,
+      value: fmt.nutrient("calories", nutritionalNeeds.dailyCalories),
+      color: "text-orange-500",
+    },
+  ];
+
+  // De dónde sale cada meta: la guía elegida, o la meta manual (del usuario o de su coach)
+  const goalSource = (goal: GuidelineTarget) => {
+    if (!nutritionalNeeds.overriddenGoals.includes(goal)) return guideline.sources[goal];
+    return goalsLock ? text.lockedGoal(goalsLock.lockedBy) : text.customGoal;
+  };
+
+  const formatFreezeDate = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return fmt.date(new Date(year, month - 1, day), { weekday: "short", day: "numeric", month: "short" });
   };
 
   // Get last 7 days for visual
@@ -127,8 +254,8 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
             >
               <User className="w-6 h-6 text-white" />
             </motion.div>
-            <h2 className="text-gray-800 mb-1">Tu Perfil</h2>
-            <p className="text-sm text-gray-500">Información y progreso</p>
+            <h2 className="text-gray-800 mb-1">{text.title}</h2>
+            <p className="text-sm text-gray-500">{text.subtitle}</p>
           </div>
           
           {/* Bluetooth reconnect button */}
@@ -141,7 +268,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                 className="bg-white/70 backdrop-blur-xl border-blue-200 hover:bg-blue-50 hover:border-blue-300"
               >
                 <Bluetooth className="w-4 h-4 mr-2 text-blue-600" />
-                <span className="text-sm text-blue-600">Reconectar</span>
+                <span className="text-sm text-blue-600">{text.reconnect}</span>
               </Button>
             </motion.div>
           )}
@@ -153,8 +280,21 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
         <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
           <div className="flex items-start justify-between mb-4">
             <div>
-              <h3 className="text-gray-800 mb-1">{profile.name || "Usuario"}</h3>
-              <p className="text-sm text-gray-500">{genderLabels[profile.gender]} · {profile.age} años</p>
+              <h3 className="text-gray-800 mb-1">{profile.name || text.defaultName}</h3>
+              <p className="text-sm text-gray-500">
+                {m.profileFields.gender[profile.gender]} · {m.profileFields.years(profile.age)}
+              </p>
+              {onEditProfile && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 -ml-2 mt-1 text-xs text-purple-600"
+                  onClick={onEditProfile}
+                >
+                  <Pencil className="w-3 h-3 mr-1" />
+                  {text.edit}
+                </Button>
+              )}
             </div>
             <div className="w-16 h-16 bg-gradient-to-br from-purple-400 to-pink-500 rounded-2xl flex items-center justify-center">
               <span className="text-white text-xl">{profile.name ? profile.name[0].toUpperCase() : "U"}</span>
@@ -162,13 +302,22 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
           </div>
 
           <div className="grid grid-cols-2 gap-3">
-            <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl p-3">
-              <p className="text-xs text-blue-600 mb-1">Peso</p>
-              <p className="text-lg text-blue-900">{profile.weight} kg</p>
-            </div>
+            <button
+              type="button"
+              onClick={onOpenWeight}
+              disabled={!onOpenWeight}
+              title={text.weightHistory}
+              className="text-left bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl p-3"
+            >
+              <p className="flex items-center justify-between text-xs text-blue-600 mb-1">
+                {text.weight}
+                {onOpenWeight && <LineChart className="w-3 h-3" />}
+              </p>
+              <p className="text-lg text-blue-900">{fmt.weight(profile.weight)}</p>
+            </button>
             <div className="bg-gradient-to-br from-green-50 to-green-100 rounded-xl p-3">
-              <p className="text-xs text-green-600 mb-1">Altura</p>
-              <p className="text-lg text-green-900">{profile.height} cm</p>
+              <p className="text-xs text-green-600 mb-1">{text.height}</p>
+              <p className="text-lg text-green-900">{fmt.height(profile.height)}</p>
             </div>
           </div>
         </div>
@@ -177,24 +326,116 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
         <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
           <div className="flex items-center gap-2 mb-3">
             <Activity className="w-4 h-4 text-purple-500" />
-            <h3 className="text-gray-800">Metas Nutricionales</h3>
+            <h3 className="text-gray-800">{text.goals}</h3>
+            {!goalsLock && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto h-7 px-2 text-xs text-purple-600"
+                onClick={() => setIsGoalsDialogOpen(true)}
+              >
+                <SlidersHorizontal className="w-3 h-3 mr-1" />
+                {text.customize}
+              </Button>
+            )}
           </div>
 
-          <div className="space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">Proteína diaria</span>
-              <span className="text-sm text-blue-600">{nutritionalNeeds.dailyProtein}g</span>
+          {goalsLock && (
+            <p className="flex items-center gap-2 text-xs text-purple-700 bg-purple-50 rounded-xl px-3 py-2 mb-3">
+              <Lock className="w-3 h-3 shrink-0" />
+              {text.lockedBy(goalsLock.lockedBy)}
+            </p>
+          )}
+
+          {/* Guideline picker */}
+          <div className="grid grid-cols-4 gap-1 bg-gray-100 rounded-xl p-1 mb-1">
+            {GUIDELINE_IDS.map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => selectGuideline(id)}
+                aria-pressed={guidelineId === id}
+                className={`h-8 rounded-lg text-xs transition-all ${
+                  guidelineId === id ? "bg-white text-purple-600 shadow-sm" : "text-gray-500"
+                }`}
+              >
+                {m.guidelines[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            {guideline.description}
+            {lifeStageNote && ` · ${lifeStageNote}`}
+          </p>
+
+          {/* Life stage */}
+          {canHaveLifeStage(profile) && (
+            <div className="flex flex-wrap gap-1 mb-4">
+              {([null, "pregnant", "lactating"] as (LifeStage | null)[]).map((stage) => (
+                <button
+                  key={stage ?? "none"}
+                  type="button"
+                  onClick={() => selectLifeStage(stage, profile.trimester)}
+                  aria-pressed={(profile.lifeStage ?? null) === stage}
+                  className={`px-3 h-7 rounded-full text-xs transition-all ${
+                    (profile.lifeStage ?? null) === stage ? "bg-purple-100 text-purple-700" : "bg-gray-100 text-gray-500"
+                  }`}
+                >
+                  {m.profileFields.lifeStage[stage ?? "none"]}
+                </button>
+              ))}
+              {profile.lifeStage === "pregnant" &&
+                ([1, 2, 3] as const).map((trimester) => (
+                  <button
+                    key={trimester}
+                    type="button"
+                    onClick={() => selectLifeStage("pregnant", trimester)}
+                    aria-pressed={profile.trimester === trimester}
+                    className={`w-7 h-7 rounded-full text-xs transition-all ${
+                      profile.trimester === trimester ? "bg-pink-100 text-pink-700" : "bg-gray-100 text-gray-500"
+                    }`}
+                  >
+                    {m.profileFields.trimester(trimester)}
+                  </button>
+                ))}
             </div>
+          )}
+
+          <div className="space-y-3">
+            {goalRows.map(({ goal, label, value, color }) => (
+              <div key={goal}>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">{label}</span>
+                  <span className={`text-sm ${color}`}>{value}</span>
+                </div>
+                <p className="text-xs text-gray-400">{goalSource(goal)}</p>
+              </div>
+            ))}
+            <div className="h-px bg-gray-200" />
             <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">Fibra diaria</span>
-              <span className="text-sm text-green-600">{nutritionalNeeds.dailyFiber}g</span>
+              <span className="text-sm text-gray-600">{text.balancedDay}</span>
+              <span className="text-xs text-gray-500">
+                {text.balancedRule(Math.round(nutritionalNeeds.balanceThreshold * 100))}
+              </span>
             </div>
-            <div className="h-px bg-gray-200" />
             <div className="flex items-center justify-between">
-              <span className="text-sm text-gray-600">Nivel de actividad</span>
-              <span className="text-xs text-gray-500">{activityLabels[profile.activityLevel]}</span>
+              <span className="text-sm text-gray-600">{text.activityLevel}</span>
+              <span className="text-xs text-gray-500">{m.profileFields.activity[profile.activityLevel]}</span>
             </div>
           </div>
+
+          <GoalOverridesDialog open={isGoalsDialogOpen} onOpenChange={setIsGoalsDialogOpen} />
+        </div>
+
+        <UnitsCard />
+
+        {/* Language Card */}
+        <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
+          <div className="flex items-center gap-2 mb-3">
+            <Languages className="w-4 h-4 text-teal-500" />
+            <h3 className="text-gray-800">{m.language.title}</h3>
+          </div>
+          <LanguagePicker />
         </div>
 
         {/* Bluetooth Connection Card */}
@@ -205,7 +446,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
             ) : (
               <BluetoothOff className="w-4 h-4 text-gray-400" />
             )}
-            <h3 className="text-gray-800">Dispositivo Lumi</h3>
+            <h3 className="text-gray-800">{text.device}</h3>
           </div>
 
           {isConnected ? (
@@ -226,7 +467,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                   </motion.div>
                   <div>
                     <p className="text-sm text-blue-900">{deviceName}</p>
-                    <p className="text-xs text-blue-600">Conectado</p>
+                    <p className="text-xs text-blue-600">{text.connected}</p>
                   </div>
                 </div>
                 <Button
@@ -235,28 +476,24 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                   size="sm"
                   className="text-blue-600 hover:text-blue-800 hover:bg-blue-100"
                 >
-                  Desconectar
+                  {text.disconnect}
                 </Button>
               </div>
-              <p className="text-xs text-gray-500 text-center">
-                Tu Lumi cambiará de color automáticamente según tus hábitos
-              </p>
+              <p className="text-xs text-gray-500 text-center">{text.connectedHint}</p>
             </div>
           ) : (
             <div className="space-y-3">
               <div className="p-4 bg-gray-50 rounded-xl text-center">
                 <Bluetooth className="w-8 h-8 text-gray-300 mx-auto mb-2" />
-                <p className="text-sm text-gray-600 mb-1">No conectado</p>
-                <p className="text-xs text-gray-400">
-                  Conecta tu llavero Lumi para recibir notificaciones de bienestar
-                </p>
+                <p className="text-sm text-gray-600 mb-1">{text.notConnected}</p>
+                <p className="text-xs text-gray-400">{text.notConnectedHint}</p>
               </div>
               <Button
                 onClick={connect}
                 className="w-full bg-gradient-to-r from-blue-500 to-purple-500 text-white"
               >
                 <Bluetooth className="w-4 h-4 mr-2" />
-                Conectar Lumi
+                {text.connect}
               </Button>
             </div>
           )}
@@ -266,18 +503,18 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
         <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-5 border border-white/50">
           <div className="flex items-center gap-2 mb-3">
             <User className="w-4 h-4 text-indigo-500" />
-            <h3 className="text-gray-800">Notificaciones</h3>
+            <h3 className="text-gray-800">{text.notifications.title}</h3>
           </div>
 
           <div className="space-y-3">
-            <p className="text-sm text-gray-600">Estado actual: <span className="font-medium">{typeof Notification !== 'undefined' ? Notification.permission : 'no soportado'}</span></p>
+            <p className="text-sm text-gray-600">{text.notifications.status}<span className="font-medium">{typeof Notification !== 'undefined' ? text.notifications.permission[Notification.permission] : text.notifications.unsupported}</span></p>
             <div className="flex items-center gap-2">
               <Button
                 onClick={async () => {
                   try {
                     const perm = await requestNotificationPermission();
                     if (perm === 'granted') {
-                      await showNotification('Notificaciones activadas', { body: 'Has activado las notificaciones.' });
+                      await showNotification(text.notifications.enabledTitle, { body: text.notifications.enabledBody });
                     }
                   } catch (e) {
                     console.error('Error requesting notification permission', e);
@@ -285,7 +522,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                 }}
                 className="bg-gradient-to-r from-indigo-500 to-purple-500 text-white"
               >
-                Activar notificaciones
+                {text.notifications.enable}
               </Button>
 
               <Button
@@ -295,16 +532,16 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                   try {
                     localStorage.removeItem('lumi_notifications_prompt_dismissed');
                     // Optionally inform the user
-                    showNotification('Recordatorio reactivado', { body: 'Volverás a ver el recordatorio para activar notificaciones.' }).catch(() => {});
+                    showNotification(text.notifications.promptResetTitle, { body: text.notifications.promptResetBody }).catch(() => {});
                   } catch (e) {
                     console.debug('Error resetting notification prompt dismiss flag', e);
                   }
                 }}
               >
-                Volver a mostrar prompt
+                {text.notifications.showPromptAgain}
               </Button>
             </div>
-            <p className="text-xs text-gray-500">Las notificaciones funcionan mejor cuando la app está instalada como PWA y el service worker está permitido.</p>
+            <p className="text-xs text-gray-500">{text.notifications.hint}</p>
           </div>
         </div>
 
@@ -334,12 +571,12 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
           <div className="relative">
             <div className="flex items-center gap-2 mb-4">
               <Flame className="w-5 h-5 text-white" />
-              <h3 className="text-white">Racha de Balance</h3>
+              <h3 className="text-white">{text.streak.title}</h3>
             </div>
 
             <div className="flex items-end gap-6 mb-4">
               <div>
-                <p className="text-white/80 text-xs mb-1">Racha actual</p>
+                <p className="text-white/80 text-xs mb-1">{text.streak.current}</p>
                 <div className="flex items-baseline gap-1">
                   <motion.span
                     className="text-5xl text-white"
@@ -350,16 +587,16 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                   >
                     {currentStreak}
                   </motion.span>
-                  <span className="text-white/80 text-sm mb-1">días</span>
+                  <span className="text-white/80 text-sm mb-1">{text.streak.days}</span>
                 </div>
               </div>
 
               <div className="flex-1">
                 <div className="flex items-center gap-1 mb-2">
                   <Award className="w-4 h-4 text-yellow-200" />
-                  <p className="text-white/80 text-xs">Mejor racha</p>
+                  <p className="text-white/80 text-xs">{text.streak.longest}</p>
                 </div>
-                <p className="text-white text-xl">{longestStreak} días</p>
+                <p className="text-white text-xl">{text.streak.longestDays(longestStreak)}</p>
               </div>
             </div>
 
@@ -367,7 +604,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
             <div className="space-y-2">
               <div className="flex items-center gap-1 text-white/80 text-xs">
                 <Calendar className="w-3 h-3" />
-                <span>Últimos 7 días</span>
+                <span>{text.streak.last7Days}</span>
               </div>
               <div className="flex gap-1.5">
                 {last7Days.map((day, index) => (
@@ -395,11 +632,68 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
                 ))}
               </div>
               <div className="flex justify-between text-white/60 text-xs">
-                <span>Hace 7d</span>
-                <span>Hoy</span>
+                <span>{text.streak.sevenDaysAgo}</span>
+                <span>{text.streak.today}</span>
+              </div>
+            </div>
+
+            {/* Freezes */}
+            <div className="mt-4 bg-white/20 backdrop-blur-sm rounded-xl p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-white text-sm">
+                  <Snowflake className="w-4 h-4" />
+                  <span>{text.streak.freezes}</span>
+                </div>
+                <div className="flex gap-1">
+                  {Array.from({ length: MAX_FREEZES }, (_, i) => (
+                    <Snowflake key={i} className={`w-4 h-4 ${i < freezes ? "text-white" : "text-white/30"}`} />
+                  ))}
+                </div>
+              </div>
+              <p className="text-white/70 text-xs">{text.streak.freezesHint}</p>
+              {recentFreezes.map((freeze) => (
+                <p key={freeze.date} className="text-white/90 text-xs">
+                  {text.streak.freezeUsed(formatFreezeDate(freeze.date), freeze.streak)}
+                </p>
+              ))}
+            </div>
+
+            {/* Rest days */}
+            <div className="mt-3 bg-white/20 backdrop-blur-sm rounded-xl p-3 space-y-2">
+              <div className="flex items-center gap-2 text-white text-sm">
+                <Moon className="w-4 h-4" />
+                <span>{text.streak.restDays}</span>
+              </div>
+              <div className="flex gap-1.5">
+                {REST_DAY_ORDER.map((day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleRestDay(day)}
+                    aria-pressed={restDays.includes(day)}
+                    className={`flex-1 h-8 rounded-lg text-xs transition-all ${
+                      restDays.includes(day) ? "bg-white text-orange-500" : "bg-white/20 text-white"
+                    }`}
+                  >
+                    {m.common.weekdayInitials[day]}
+                  </button>
+                ))}
               </div>
+              <p className="text-white/70 text-xs">{text.streak.restDaysHint(MAX_REST_DAYS)}</p>
             </div>
 
+            {/* Recalculate */}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleRecalculateStreak}
+              disabled={isRecalculating}
+              className="mt-3 w-full text-white hover:bg-white/20 hover:text-white"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRecalculating ? "animate-spin" : ""}`} />
+              {isRecalculating ? text.streak.recalculating : text.streak.recalculate}
+            </Button>
+
             {/* Motivational message */}
             <motion.div
               className="mt-4 bg-white/20 backdrop-blur-sm rounded-xl p-3"
@@ -412,11 +706,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
               }}
             >
               <p className="text-white text-sm text-center">
-                {currentStreak === 0 && "¡Hoy empieza tu aventura! Dale play 🌟"}
-                {currentStreak > 0 && currentStreak < 3 && "¡Ese es mi team! Sigamos con todo 🔥"}
-                {currentStreak >= 3 && currentStreak < 7 && "¡On fire! Estás que ardes 🚀"}
-                {currentStreak >= 7 && currentStreak < 14 && "¡WOW! Una semana siendo increíble ✨"}
-                {currentStreak >= 14 && "¡LEGENDARY! Tu energía es contagiosa 🌈💫"}
+                {text.streak.messages[streakMessageIndex(currentStreak)]}
               </p>
             </motion.div>
           </div>
@@ -435,7 +725,7 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
             className="w-full bg-white/70 backdrop-blur-xl border-red-200 hover:bg-red-50 hover:border-red-300 text-red-600 hover:text-red-700"
           >
             <LogOut className="w-4 h-4 mr-2" />
-            Cerrar sesión
+            {text.logout}
           </Button>
         </motion.div>
 
@@ -449,12 +739,12 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
               <div className="w-8 h-8 bg-gradient-to-br from-blue-400 to-blue-500 rounded-lg flex items-center justify-center">
                 <TrendingUp className="w-4 h-4 text-white" />
               </div>
-              <span className="text-xs text-gray-600">Días balanceados</span>
+              <span className="text-xs text-gray-600">{text.balancedDays}</span>
             </div>
             <p className="text-2xl text-gray-800">
               {dailyHistory.filter((d) => d.isBalanced).length}
             </p>
-            <p className="text-xs text-gray-400">de {dailyHistory.length} registrados</p>
+            <p className="text-xs text-gray-400">{text.ofLogged(dailyHistory.length)}</p>
           </motion.div>
 
           <motion.div
@@ -465,12 +755,12 @@ export function ProfileScreen({ onReconnectBluetooth, onLogout }: ProfileScreenP
               <div className="w-8 h-8 bg-gradient-to-br from-purple-400 to-purple-500 rounded-lg flex items-center justify-center">
                 <Activity className="w-4 h-4 text-white" />
               </div>
-              <span className="text-xs text-gray-600">Tasa de éxito</span>
+              <span className="text-xs text-gray-600">{text.successRate}</span>
             </div>
             <p className="text-2xl text-gray-800">
               {Math.round((dailyHistory.filter((d) => d.isBalanced).length / dailyHistory.length) * 100)}%
             </p>
-            <p className="text-xs text-gray-400">últimos 14 días</p>
+            <p className="text-xs text-gray-400">{text.last14Days}</p>
           </motion.div>
         </div>
       </div>
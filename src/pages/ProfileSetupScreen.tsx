@@ -12,6 +12,10 @@ import {
 import { User } from "lucide-react";
 import { useState } from "react";
 import { useUser } from "../contexts/UserContext";
+import { useI18n } from "../utils/useI18n";
+import { getBrowserTimeZone } from "../shared/dates";
+import { PROFILE_LIMITS, canHaveLifeStage, getAgeGroup } from "../shared/nutritionRules";
+import { DEFAULT_UNITS, UnitSystem, feetInchesToCm, fromDisplayWeight, toDisplayWeight, weightUnit } from "../utils/units";
 
 interface ProfileSetupScreenProps {
   onNext: () => void;
@@ -19,15 +23,34 @@ interface ProfileSetupScreenProps {
 
 export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
   const { setUserProfile } = useUser();
+  const { m, language } = useI18n();
+  const text = m.profileSetup;
   const [formData, setFormData] = useState({
     name: "",
     age: "",
     gender: "",
     weight: "",
     height: "",
+    heightFeet: "",
+    heightInches: "",
     activityLevel: "",
+    lifeStage: "none",
+    trimester: "",
   });
 
+  // Embarazo y lactancia solo se preguntan cuando aplican (según género y edad)
+  const age = parseInt(formData.age);
+  const askLifeStage =
+    !!formData.gender &&
+    !isNaN(age) &&
+    canHaveLifeStage({ gender: formData.gender as "male" | "female" | "other", age });
+  const ageGroup = isNaN(age) ? null : getAgeGroup(age);
+
+  // Weight and height are typed in the chosen units and saved in kg/cm
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("metric");
+  const units = { ...DEFAULT_UNITS, system: unitSystem };
+  const isImperial = unitSystem === "imperial";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -42,9 +65,20 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
       name: formData.name,
       age: parseInt(formData.age),
       gender: formData.gender as "male" | "female" | "other",
-      weight: parseFloat(formData.weight),
-      height: parseFloat(formData.height),
+      weight: fromDisplayWeight(parseFloat(formData.weight), units),
+      height: isImperial
+        ? feetInchesToCm(parseInt(formData.heightFeet), parseInt(formData.heightInches || "0"))
+        : parseFloat(formData.height),
       activityLevel: formData.activityLevel as "sedentary" | "light" | "moderate" | "very",
+      timeZone: getBrowserTimeZone(),
+      units,
+      language,
+      ...(askLifeStage && formData.lifeStage !== "none"
+        ? {
+            lifeStage: formData.lifeStage as "pregnant" | "lactating",
+            ...(formData.lifeStage === "pregnant" ? { trimester: parseInt(formData.trimester) as 1 | 2 | 3 } : {}),
+          }
+        : {}),
     };
 
     console.log("Saving profile:", profile);
@@ -69,8 +103,9 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
       formData.age &&
       formData.gender &&
       formData.weight &&
-      formData.height &&
-      formData.activityLevel
+      (isImperial ? formData.heightFeet : formData.height) &&
+      formData.activityLevel &&
+      (!askLifeStage || formData.lifeStage !== "pregnant" || formData.trimester)
     );
     console.log("Form validation:", { formData, isValid });
     return isValid;
@@ -112,10 +147,10 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
               <User className="w-10 h-10 text-white" />
             </motion.div>
             <h1 className="text-gray-800 mb-2">
-              Create Your Profile
+              {text.title}
             </h1>
             <p className="text-sm text-gray-600">
-              Help us personalize your wellness journey
+              {text.subtitle}
             </p>
           </motion.div>
 
@@ -129,10 +164,10 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
           >
             {/* Name */}
             <div className="space-y-2">
-              <Label htmlFor="name">Name</Label>
+              <Label htmlFor="name">{text.name}</Label>
               <Input
                 id="name"
-                placeholder="Your name"
+                placeholder={text.namePlaceholder}
                 value={formData.name}
                 onChange={(e) => handleChange("name", e.target.value)}
                 className="bg-white/80 backdrop-blur-md border-white/50"
@@ -142,12 +177,12 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
             {/* Age and Gender */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="age">Age</Label>
+                <Label htmlFor="age">{text.age}</Label>
                 <Input
                   id="age"
                   type="number"
-                  min="1"
-                  max="120"
+                  min={PROFILE_LIMITS.age.min}
+                  max={PROFILE_LIMITS.age.max}
                   placeholder="25"
                   value={formData.age}
                   onChange={(e) => handleChange("age", e.target.value)}
@@ -155,69 +190,156 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="gender">Gender</Label>
+                <Label htmlFor="gender">{text.gender}</Label>
                 <Select
                   value={formData.gender}
                   onValueChange={(value) => handleChange("gender", value)}
                 >
                   <SelectTrigger className="bg-white/80 backdrop-blur-md border-white/50">
-                    <SelectValue placeholder="Select" />
+                    <SelectValue placeholder={text.select} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="male">Male</SelectItem>
-                    <SelectItem value="female">Female</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="male">{m.profileFields.gender.male}</SelectItem>
+                    <SelectItem value="female">{m.profileFields.gender.female}</SelectItem>
+                    <SelectItem value="other">{m.profileFields.gender.other}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
             </div>
 
+            {ageGroup && ageGroup !== "adult" && (
+              <p className="text-xs text-gray-500 -mt-3">
+                {ageGroup === "adolescent" ? text.adolescentNote : text.olderAdultNote}
+              </p>
+            )}
+
+            {/* Life stage */}
+            {askLifeStage && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lifeStage">{text.lifeStage}</Label>
+                  <Select value={formData.lifeStage} onValueChange={(value) => handleChange("lifeStage", value)}>
+                    <SelectTrigger id="lifeStage" className="bg-white/80 backdrop-blur-md border-white/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{text.lifeStageNone}</SelectItem>
+                      <SelectItem value="pregnant">{text.pregnant}</SelectItem>
+                      <SelectItem value="lactating">{text.lactating}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.lifeStage === "pregnant" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="trimester">{text.trimester}</Label>
+                    <Select value={formData.trimester} onValueChange={(value) => handleChange("trimester", value)}>
+                      <SelectTrigger id="trimester" className="bg-white/80 backdrop-blur-md border-white/50">
+                        <SelectValue placeholder={text.select} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3].map((trimester) => (
+                          <SelectItem key={trimester} value={String(trimester)}>
+                            {m.profileFields.trimester(trimester)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Units */}
+            <div className="grid grid-cols-2 gap-1 bg-white/60 rounded-full p-1">
+              {(["metric", "imperial"] as UnitSystem[]).map((system) => (
+                <button
+                  key={system}
+                  type="button"
+                  onClick={() => setUnitSystem(system)}
+                  aria-pressed={unitSystem === system}
+                  className={`rounded-full py-1 text-xs transition-all ${
+                    unitSystem === system ? "bg-gradient-to-r from-purple-500 to-pink-500 text-white" : "text-gray-500"
+                  }`}
+                >
+                  {system === "metric" ? text.metric : text.imperial}
+                </button>
+              ))}
+            </div>
+
             {/* Weight and Height */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="weight">Weight (kg)</Label>
+                <Label htmlFor="weight">{text.weight(weightUnit(units))}</Label>
                 <Input
                   id="weight"
                   type="number"
-                  min="1"
-                  max="500"
+                  min={Math.ceil(toDisplayWeight(PROFILE_LIMITS.weight.min, units))}
+                  max={Math.floor(toDisplayWeight(PROFILE_LIMITS.weight.max, units))}
                   step="0.1"
-                  placeholder="70"
+                  placeholder={isImperial ? "155" : "70"}
                   value={formData.weight}
                   onChange={(e) => handleChange("weight", e.target.value)}
                   className="bg-white/80 backdrop-blur-md border-white/50"
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="height">Height (cm)</Label>
-                <Input
-                  id="height"
-                  type="number"
-                  min="1"
-                  max="300"
-                  placeholder="170"
-                  value={formData.height}
-                  onChange={(e) => handleChange("height", e.target.value)}
-                  className="bg-white/80 backdrop-blur-md border-white/50"
-                />
-              </div>
+              {isImperial ? (
+                <div className="space-y-2">
+                  <Label htmlFor="heightFeet">{text.heightImperial}</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="heightFeet"
+                      type="number"
+                      min="1"
+                      max="9"
+                      placeholder="5"
+                      value={formData.heightFeet}
+                      onChange={(e) => handleChange("heightFeet", e.target.value)}
+                      className="bg-white/80 backdrop-blur-md border-white/50"
+                    />
+                    <Input
+                      id="heightInches"
+                      type="number"
+                      min="0"
+                      max="11"
+                      placeholder="7"
+                      value={formData.heightInches}
+                      onChange={(e) => handleChange("heightInches", e.target.value)}
+                      className="bg-white/80 backdrop-blur-md border-white/50"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="height">{text.heightMetric}</Label>
+                  <Input
+                    id="height"
+                    type="number"
+                    min={PROFILE_LIMITS.height.min}
+                    max={PROFILE_LIMITS.height.max}
+                    placeholder="170"
+                    value={formData.height}
+                    onChange={(e) => handleChange("height", e.target.value)}
+                    className="bg-white/80 backdrop-blur-md border-white/50"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Activity Level */}
             <div className="space-y-2">
-              <Label htmlFor="activity">Activity Level</Label>
+              <Label htmlFor="activity">{text.activity}</Label>
               <Select
                 value={formData.activityLevel}
                 onValueChange={(value) => handleChange("activityLevel", value)}
               >
                 <SelectTrigger className="bg-white/80 backdrop-blur-md border-white/50">
-                  <SelectValue placeholder="Select your activity level" />
+                  <SelectValue placeholder={text.activityPlaceholder} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="sedentary">Sedentary (little/no exercise)</SelectItem>
-                  <SelectItem value="light">Light (1-3 days/week)</SelectItem>
-                  <SelectItem value="moderate">Moderate (3-5 days/week)</SelectItem>
-                  <SelectItem value="very">Very Active (6-7 days/week)</SelectItem>
+                  <SelectItem value="sedentary">{m.profileFields.activityDetail.sedentary}</SelectItem>
+                  <SelectItem value="light">{m.profileFields.activityDetail.light}</SelectItem>
+                  <SelectItem value="moderate">{m.profileFields.activityDetail.moderate}</SelectItem>
+                  <SelectItem value="very">{m.profileFields.activityDetail.very}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -228,7 +350,7 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
               disabled={!isFormValid()}
               className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-full disabled:opacity-50"
             >
-              Continue
+              {m.common.continue}
             </Button>
           </motion.form>
 
@@ -240,8 +362,7 @@ export function ProfileSetupScreen({ onNext }: ProfileSetupScreenProps) {
             transition={{ delay: 0.4 }}
           >
             <p className="text-xs text-gray-600 text-center">
-              🔒 Your data is private and stored securely. We use this
-              information to calculate your personalized daily goals.
+              {text.privacy}
             </p>
           </motion.div>
         </div>
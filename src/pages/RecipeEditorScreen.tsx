@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { ArrowLeft, ChefHat, Minus, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { useUser } from "../contexts/UserContext";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { FoodSearchDialog, FoodSelection, NutrientPreview } from "../components/FoodSearchDialog";
+import {
+  Recipe,
+  RecipeIngredient,
+  MAX_RECIPE_INGREDIENTS,
+  computeNutrientsPerServing,
+  deleteRecipe,
+  getRecipes,
+  saveRecipe,
+} from "../utils/recipes";
+import { useI18n } from "../utils/useI18n";
+
+interface RecipeEditorScreenProps {
+  onBack: () => void;
+}
+
+// Borrador de la receta que se está editando (id generado por el cliente)
+interface RecipeDraft {
+  id: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  isNew: boolean;
+}
+
+export function RecipeEditorScreen({ onBack }: RecipeEditorScreenProps) {
+  const { userId, accessToken } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.recipes;
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [isFoodSearchOpen, setIsFoodSearchOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId || !accessToken) return;
+    getRecipes(userId, accessToken).then((loaded) => {
+      setRecipes(loaded);
+      setIsLoading(false);
+    });
+  }, [userId, accessToken]);
+
+  const startNewRecipe = () => {
+    setError(null);
+    setDraft({ id: crypto.randomUUID(), name: "", servings: 4, ingredients: [], isNew: true });
+  };
+
+  const editRecipe = (recipe: Recipe) => {
+    setError(null);
+    setDraft({
+      id: recipe.id,
+      name: recipe.name,
+      servings: recipe.servings,
+      ingredients: recipe.ingredients,
+      isNew: false,
+    });
+  };
+
+  const updateDraft = (changes: Partial<RecipeDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleAddIngredient = ({ food, portion, portionLabel, quantity }: FoodSelection) => {
+    if (!draft) return;
+    updateDraft({
+      ingredients: [
+        ...draft.ingredients,
+        {
+          id: crypto.randomUUID(),
+          name: food.name,
+          portionLabel,
+          quantity,
+          nutrients: portion.nutrients,
+        },
+      ],
+    });
+  };
+
+  const updateIngredientQuantity = (ingredientId: string, quantity: number) => {
+    if (!draft) return;
+    updateDraft({
+      ingredients: draft.ingredients.map((ingredient) =>
+        ingredient.id === ingredientId ? { ...ingredient, quantity } : ingredient
+      ),
+    });
+  };
+
+  const removeIngredient = (ingredientId: string) => {
+    if (!draft) return;
+    updateDraft({ ingredients: draft.ingredients.filter((ingredient) => ingredient.id !== ingredientId) });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !userId || !accessToken) return;
+    if (!draft.name.trim()) {
+      setError(text.errors.nameRequired);
+      return;
+    }
+    if (draft.ingredients.length === 0) {
+      setError(text.errors.noIngredients);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveRecipe(userId, accessToken, draft.id, {
+      name: draft.name.trim(),
+      servings: draft.servings,
+      ingredients: draft.ingredients,
+    });
+    setSaving(false);
+
+    if (!saved) {
+      setError(text.errors.saveFailed);
+      return;
+    }
+
+    setRecipes((prev) =>
+      [...prev.filter((recipe) => recipe.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setDraft(null);
+    toast.success(text.saved(saved.name));
+  };
+
+  const handleDelete = async () => {
+    if (!draft || !userId || !accessToken) return;
+    if (!draft.isNew && !(await deleteRecipe(userId, accessToken, draft.id))) {
+      setError(text.errors.deleteFailed);
+      return;
+    }
+    setRecipes((prev) => prev.filter((recipe) => recipe.id !== draft.id));
+    setDraft(null);
+  };
+
+  const perServing = draft ? computeNutrientsPerServing(draft) : null;
+
+  return (
+    <div className="relative h-full bg-gradient-to-br from-pink-50 via-green-50 to-yellow-50 overflow-y-auto">
+      <div className="p-6 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-9 w-9 p-0 rounded-full bg-white/70"
+            onClick={draft ? () => setDraft(null) : onBack}
+            aria-label={m.common.back}
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-gray-800">{draft ? (draft.isNew ? text.newRecipe : text.editRecipe) : text.title}</h2>
+            <p className="text-sm text-gray-500">{draft ? text.draftSubtitle : text.subtitle}</p>
+          </div>
+        </div>
+
+        {!draft && (
+          <>
+            {isLoading ? (
+              <p className="text-sm text-gray-500 text-center py-8">{text.loading}</p>
+            ) : recipes.length === 0 ? (
+              <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-6 border border-white/50 text-center">
+                <ChefHat className="w-10 h-10 mx-auto mb-3 text-pink-400" />
+                <p className="text-sm text-gray-600">{text.empty}</p>
+              </div>
+            ) : (
+              recipes.map((recipe) => (
+                <motion.button
+                  key={recipe.id}
+                  type="button"
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => editRecipe(recipe)}
+                  className="w-full text-left bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50"
+                >
+                  <p className="text-gray-800">{recipe.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {text.summary(
+                      recipe.servings,
+                      fmt.nutrient("protein", recipe.nutrientsPerServing.protein),
+                      fmt.nutrient("fiber", recipe.nutrientsPerServing.fiber),
+                      fmt.nutrient("calories", recipe.nutrientsPerServing.calories)
+                    )}
+                  </p>
+                </motion.button>
+              ))
+            )}
+
+            <Button onClick={startNewRecipe} className="w-full bg-gradient-to-r from-pink-400 to-green-500 text-white">
+              <Plus className="w-4 h-4 mr-2" />
+              {text.newRecipe}
+            </Button>
+          </>
+        )}
+
+        {draft && perServing && (
+          <>
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 space-y-3">
+              <div>
+                <p className="text-xs text-gray-600 mb-1">{text.name}</p>
+                <Input
+                  value={draft.name}
+                  maxLength={60}
+                  placeholder={text.namePlaceholder}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className="bg-white"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-600">{text.servings}</p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 rounded-full"
+                    onClick={() => updateDraft({ servings: Math.max(1, draft.servings - 1) })}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </Button>
+                  <span className="text-sm min-w-[24px] text-center">{draft.servings}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 rounded-full"
+                    onClick={() => updateDraft({ servings: Math.min(50, draft.servings + 1) })}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Ingredients */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 space-y-3">
+              <p className="text-xs text-gray-500">{text.ingredients}</p>
+              {draft.ingredients.length === 0 && (
+                <p className="text-sm text-gray-400">{text.noIngredients}</p>
+              )}
+              {draft.ingredients.map((ingredient) => (
+                <div key={ingredient.id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 truncate">{ingredient.name}</p>
+                    <p className="text-xs text-gray-400 truncate">{ingredient.portionLabel}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 rounded-full"
+                    onClick={() => updateIngredientQuantity(ingredient.id, Math.max(0.5, ingredient.quantity - 0.5))}
+                  >
+                    <Minus className="w-3 h-3" />
+                  </Button>
+                  <span className="text-sm min-w-[28px] text-center">{ingredient.quantity}</span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 rounded-full"
+                    onClick={() => updateIngredientQuantity(ingredient.id, Math.min(100, ingredient.quantity + 0.5))}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 rounded-full text-gray-400 hover:text-red-500"
+                    onClick={() => removeIngredient(ingredient.id)}
+                    aria-label={text.removeIngredient(ingredient.name)}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+              {draft.ingredients.length < MAX_RECIPE_INGREDIENTS && (
+                <Button variant="outline" className="w-full" onClick={() => setIsFoodSearchOpen(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  {text.addIngredient}
+                </Button>
+              )}
+            </div>
+
+            {/* Per serving */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+              <p className="text-xs text-gray-500 mb-2">{text.perServing}</p>
+              <NutrientPreview nutrients={perServing} />
+            </div>
+
+            {error && <p className="text-xs text-red-500">{error}</p>}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="bg-white/70 text-gray-500 hover:text-red-500"
+                onClick={handleDelete}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                {draft.isNew ? text.discard : m.common.delete}
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex-1 bg-gradient-to-r from-pink-400 to-green-500 text-white"
+              >
+                {saving ? m.common.saving : text.saveRecipe}
+              </Button>
+            </div>
+
+            <FoodSearchDialog
+              open={isFoodSearchOpen}
+              onOpenChange={setIsFoodSearchOpen}
+              targetName={draft.name.trim() || text.fallbackTarget}
+              onAdd={handleAddIngredient}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { ArrowLeft, Scale, Trash2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { useUser } from "../contexts/UserContext";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Label } from "../components/ui/label";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "../components/ui/chart";
+import { PROFILE_LIMITS } from "../shared/nutritionRules";
+import { getBrowserTimeZone, getDayKey } from "../shared/dates";
+import { WeightEntry, getWeights } from "../utils/weights";
+import { fromDisplayWeight, toDisplayWeight, weightUnit } from "../utils/units";
+import { useI18n } from "../utils/useI18n";
+
+interface WeightScreenProps {
+  onBack: () => void;
+}
+
+function fromDayKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function WeightScreen({ onBack }: WeightScreenProps) {
+  const { userId, accessToken, profile, units, logWeight, removeWeight } = useUser();
+  const { m, fmt } = useI18n();
+  const text = m.weight;
+  const today = getDayKey(profile?.timeZone || getBrowserTimeZone(), profile?.dayStartTime || "00:00");
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [date, setDate] = useState(today);
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadEntries = async () => {
+    if (!userId || !accessToken) return;
+    const loaded = await getWeights(userId, accessToken);
+    if (loaded) setEntries(loaded);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    void loadEntries();
+  }, [userId, accessToken]);
+
+  const weightKg = fromDisplayWeight(parseFloat(value), units);
+  const { min, max } = PROFILE_LIMITS.weight;
+  const isValid = weightKg >= min && weightKg <= max && !!date && date <= today;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    const saved = await logWeight(date, weightKg);
+    setIsSaving(false);
+    if (!saved) {
+      toast.error(text.saveFailed);
+      return;
+    }
+    toast.success(text.saved(fmt.weight(weightKg)));
+    setValue("");
+    setDate(today);
+    await loadEntries();
+  };
+
+  const handleDelete = async (entry: WeightEntry) => {
+    if (!(await removeWeight(entry.date))) {
+      toast.error(text.deleteFailed);
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.date !== entry.date));
+  };
+
+  // El gráfico va en la unidad del usuario
+  const chartConfig = {
+    weight: { label: m.common.withUnit(m.profile.weight, weightUnit(units)), color: "#a855f7" },
+  } satisfies ChartConfig;
+  const data = entries.map((entry) => ({
+    label: fmt.date(fromDayKey(entry.date), { day: "numeric", month: "short" }),
+    weight: toDisplayWeight(entry.weight, units),
+  }));
+
+  return (
+    <div className="relative h-full bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50 overflow-y-auto">
+      <div className="p-6 pb-24 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-9 w-9 p-0 rounded-full bg-white/70"
+            onClick={onBack}
+            aria-label={m.common.back}
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h2 className="text-gray-800">{text.title}</h2>
+            <p className="text-sm text-gray-500">{text.subtitle}</p>
+          </div>
+        </div>
+
+        {/* Log a weight */}
+        <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="weight-date" className="text-xs text-gray-500">
+                {text.date}
+              </Label>
+              <Input id="weight-date" type="date" max={today} value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="weight-value" className="text-xs text-gray-500">
+                {m.common.withUnit(m.profile.weight, weightUnit(units))}
+              </Label>
+              <Input
+                id="weight-value"
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                placeholder={profile ? String(toDisplayWeight(profile.weight, units)) : undefined}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+          </div>
+          {value && !isValid && (
+            <p className="text-xs text-red-500">{text.outOfRange(fmt.weight(min), fmt.weight(max))}</p>
+          )}
+          <Button
+            className="w-full bg-gradient-to-r from-purple-400 to-pink-500 text-white"
+            disabled={!isValid || isSaving}
+            onClick={handleSave}
+          >
+            <Scale className="w-4 h-4 mr-2" />
+            {isSaving ? m.common.saving : text.log}
+          </Button>
+          <p className="text-xs text-gray-500">{text.hint}</p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 text-center py-8">{text.loading}</p>
+        ) : entries.length === 0 ? (
+          <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-6 border border-white/50 text-center">
+            <p className="text-sm text-gray-600">{text.empty}</p>
+          </div>
+        ) : (
+          <>
+            {/* Chart */}
+            {entries.length > 1 && (
+              <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50">
+                <p className="text-sm text-gray-700 mb-3">{text.chart}</p>
+                <ChartContainer config={chartConfig} className="aspect-[16/9] w-full">
+                  <LineChart data={data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis width={36} tickLine={false} axisLine={false} domain={["dataMin - 2", "dataMax + 2"]} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="weight" type="monotone" stroke="var(--color-weight)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              </div>
+            )}
+
+            {/* Entries, most recent first */}
+            <div className="bg-white/70 backdrop-blur-xl rounded-2xl p-4 border border-white/50 space-y-2">
+              {[...entries].reverse().map((entry) => (
+                <div key={entry.date} className="flex items-center justify-between">
+                  <span className="text-sm text-gray-600">
+                    {fmt.date(fromDayKey(entry.date), { weekday: "short", day: "numeric", month: "short", year: "numeric" })}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    <span className="text-sm text-gray-800">{fmt.weight(entry.weight)}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 text-gray-400"
+                      onClick={() => handleDelete(entry)}
+                      aria-label={text.delete(fmt.date(fromDayKey(entry.date)))}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  addMonths,
+  dayLengthMinutes,
+  daysBetween,
+  getDayKey,
+  getLocalDateTime,
+  getWeekday,
+  isPastDayEnd,
+  minutesSinceDayStart,
+  startOfWeek,
+} from "./dates";
+
+describe("getLocalDateTime", () => {
+  it("follows the timezone's DST offset", () => {
+    // New York springs forward on 2026-03-08 at 02:00
+    expect(getLocalDateTime(new Date("2026-03-08T06:30:00Z"), "America/New_York")).toEqual({
+      date: "2026-03-08",
+      time: "01:30",
+    });
+    expect(getLocalDateTime(new Date("2026-03-08T07:30:00Z"), "America/New_York")).toEqual({
+      date: "2026-03-08",
+      time: "03:30",
+    });
+  });
+
+  it("falls back to UTC for an invalid timezone", () => {
+    expect(getLocalDateTime(new Date("2026-03-08T06:30:00Z"), "Mars/Olympus")).toEqual({
+      date: "2026-03-08",
+      time: "06:30",
+    });
+  });
+});
+
+describe("getDayKey", () => {
+  it("keeps the hours before dayStartTime in the previous day", () => {
+    const night = new Date("2026-03-08T06:30:00Z"); // 01:30 in New York
+    expect(getDayKey("America/New_York", "00:00", night)).toBe("2026-03-08");
+    expect(getDayKey("America/New_York", "06:00", night)).toBe("2026-03-07");
+  });
+
+  it("uses the local date across the end of DST", () => {
+    // Madrid falls back on 2026-10-25; 23:30 UTC is already 00:30 on the 26th
+    const night = new Date("2026-10-25T23:30:00Z");
+    expect(getDayKey("Europe/Madrid", "00:00", night)).toBe("2026-10-26");
+    expect(getDayKey("Europe/Madrid", "06:00", night)).toBe("2026-10-25");
+  });
+});
+
+describe("minutesSinceDayStart", () => {
+  it("counts wall-clock minutes on a DST day", () => {
+    expect(minutesSinceDayStart("America/New_York", "06:00", new Date("2026-03-08T12:00:00Z"))).toBe(120);
+    expect(minutesSinceDayStart("America/New_York", "06:00", new Date("2026-03-08T06:30:00Z"))).toBe(1170);
+  });
+});
+
+describe("dayLengthMinutes", () => {
+  it("supports a day end past midnight", () => {
+    expect(dayLengthMinutes("06:00", "02:00")).toBe(1200);
+    expect(dayLengthMinutes("08:00", "22:00")).toBe(840);
+  });
+
+  it("treats equal start and end as a full day", () => {
+    expect(dayLengthMinutes("00:00", "00:00")).toBe(1440);
+  });
+});
+
+describe("isPastDayEnd", () => {
+  it("compares against a day end past midnight", () => {
+    expect(isPastDayEnd("UTC", "06:00", "02:00", new Date("2026-03-08T01:00:00Z"))).toBe(false);
+    expect(isPastDayEnd("UTC", "06:00", "02:00", new Date("2026-03-08T03:00:00Z"))).toBe(true);
+  });
+});
+
+describe("calendar arithmetic", () => {
+  it("adds whole days across DST transitions", () => {
+    expect(addDays("2026-03-08", 1)).toBe("2026-03-09");
+    expect(addDays("2026-03-09", -1)).toBe("2026-03-08");
+    expect(addDays("2026-10-25", 1)).toBe("2026-10-26");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+  });
+
+  it("counts days across DST transitions", () => {
+    expect(daysBetween("2026-03-01", "2026-04-01")).toBe(31);
+    expect(daysBetween("2026-10-26", "2026-10-20")).toBe(-6);
+  });
+
+  it("finds weekdays and the start of the week", () => {
+    expect(getWeekday("2026-03-08")).toBe(0);
+    expect(startOfWeek("2026-03-08")).toBe("2026-03-02");
+    expect(startOfWeek("2026-03-02")).toBe("2026-03-02");
+  });
+
+  it("moves between months", () => {
+    expect(addMonths("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addMonths("2026-01-15", -1)).toBe("2025-12-01");
+  });
+});
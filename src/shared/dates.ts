@@ -0,0 +1,136 @@
+// Day boundary helpers shared by the web app and the edge function.
+// This module must stay dependency-free so Deno and Vite can both import it.
+//
+// A Lumi "day" is a calendar date (YYYY-MM-DD) in the user's IANA timezone,
+// starting at their dayStartTime: with a 06:00 start, 01:30 still belongs to
+// the previous day. Day arithmetic is done on calendar dates through UTC, so
+// DST transitions never produce 23h/25h days.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Browser timezone, captured on the profile at signup/profile setup
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Local date ("YYYY-MM-DD") and time ("HH:MM") of an instant in the given timezone
+export function getLocalDateTime(
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): { date: string; time: string } {
+  const zone = isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+// Convert "HH:MM" to minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// The user's Lumi day for an instant, honoring their dayStartTime
+export function getDayKey(
+  timeZone: string = DEFAULT_TIME_ZONE,
+  dayStartTime: string = "00:00",
+  now: Date = new Date()
+): string {
+  const { date, time } = getLocalDateTime(now, timeZone);
+  return timeToMinutes(time) < timeToMinutes(dayStartTime) ? addDays(date, -1) : date;
+}
+
+// Minutes elapsed since the start of the Lumi day (0-1439)
+export function minutesSinceDayStart(
+  timeZone: string = DEFAULT_TIME_ZONE,
+  dayStartTime: string = "00:00",
+  now: Date = new Date()
+): number {
+  const { time } = getLocalDateTime(now, timeZone);
+  return (timeToMinutes(time) - timeToMinutes(dayStartTime) + 1440) % 1440;
+}
+
+// Length of the Lumi day in minutes. Supports a dayEndTime past midnight.
+export function dayLengthMinutes(dayStartTime: string, dayEndTime: string): number {
+  const length = (timeToMinutes(dayEndTime) - timeToMinutes(dayStartTime) + 1440) % 1440;
+  return length === 0 ? 1440 : length;
+}
+
+// Whether the current Lumi day has already reached its dayEndTime
+export function isPastDayEnd(
+  timeZone: string = DEFAULT_TIME_ZONE,
+  dayStartTime: string = "00:00",
+  dayEndTime: string = "23:59",
+  now: Date = new Date()
+): boolean {
+  return minutesSinceDayStart(timeZone, dayStartTime, now) >= dayLengthMinutes(dayStartTime, dayEndTime);
+}
+
+function parseDayKey(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDayKey(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+// Add calendar days to a "YYYY-MM-DD" date
+export function addDays(date: string, days: number): string {
+  return formatDayKey(parseDayKey(date) + days * MS_PER_DAY);
+}
+
+// Calendar days between two "YYYY-MM-DD" dates (to - from)
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDayKey(to) - parseDayKey(from)) / MS_PER_DAY);
+}
+
+// Day of the week of a "YYYY-MM-DD" date (0 = Sunday ... 6 = Saturday)
+export function getWeekday(date: string): number {
+  return new Date(parseDayKey(date)).getUTCDay();
+}
+
+// Monday of the week containing a "YYYY-MM-DD" date
+export function startOfWeek(date: string): string {
+  return addDays(date, -((getWeekday(date) + 6) % 7));
+}
+
+// First day of the month containing a "YYYY-MM-DD" date
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+// First day of the month that is `months` calendar months away from a "YYYY-MM-DD" date
+export function addMonths(date: string, months: number): string {
+  const [year, month] = date.split("-").map(Number);
+  return formatDayKey(Date.UTC(year, month - 1 + months, 1));
+}
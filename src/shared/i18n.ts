@@ -0,0 +1,85 @@
+// Languages shared by the web app and the edge function.
+// This module must stay dependency-free so Deno and Vite can both import it.
+//
+// Screen texts live in the app's catalogs (src/locales); only the texts the
+// server writes on its own, like push notifications, are kept here.
+
+export type Language = "es" | "en";
+
+export const LANGUAGES: Language[] = ["es", "en"];
+
+export const DEFAULT_LANGUAGE: Language = "es";
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as string[]).includes(value);
+}
+
+// First supported language in a preference list such as navigator.languages ("en-US" → "en")
+export function matchLanguage(preferred: readonly string[]): Language {
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split("-")[0];
+    if (isLanguage(base)) return base;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+// Language stored on a profile, falling back to the default for older profiles
+export function getLanguage(profile: { language?: unknown } | null | undefined): Language {
+  const language = profile?.language;
+  return isLanguage(language) ? language : DEFAULT_LANGUAGE;
+}
+
+// Numbers with the language's separators ("1,5" / "1.5"), as the app's formatter writes them
+export function formatNumber(language: Language, value: number, maxDecimals = 1): string {
+  return new Intl.NumberFormat(language, { maximumFractionDigits: maxDecimals }).format(value);
+}
+
+// A "YYYY-MM-DD" day with the language's month names ("19 de octubre" / "October 19")
+export function formatDayKey(language: Language, date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(language, {
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+}
+
+export const BEVERAGE_NAMES: Record<Language, Record<"water" | "sparkling" | "tea" | "coffee", string>> = {
+  es: { water: "agua", sparkling: "agua con gas", tea: "té", coffee: "café" },
+  en: { water: "water", sparkling: "sparkling water", tea: "tea", coffee: "coffee" },
+};
+
+export const CONTAINER_NAMES: Record<Language, Record<"glass" | "bottle", (plural: boolean) => string>> = {
+  es: { glass: (plural) => (plural ? "vasos" : "vaso"), bottle: (plural) => (plural ? "botellas" : "botella") },
+  en: { glass: (plural) => (plural ? "glasses" : "glass"), bottle: (plural) => (plural ? "bottles" : "bottle") },
+};
+
+// Values in the profile's units (see src/shared/units.ts), formatted by the notification
+export interface HydrationNotice {
+  volume: number; // drink, in volumeUnit
+  volumeUnit: "ml" | "fl oz";
+  beverage: keyof (typeof BEVERAGE_NAMES)["es"];
+  containers: number; // day total, in the profile's containers
+  container: keyof (typeof CONTAINER_NAMES)["es"];
+  date: string | null; // YYYY-MM-DD when logged for a past day, null for today
+}
+
+// "8 vasos", "1 bottle"
+const containerCount = (language: Language, { containers, container }: HydrationNotice) =>
+  `${formatNumber(language, containers)} ${CONTAINER_NAMES[language][container](containers !== 1)}`;
+
+// Push notification written when a drink is logged
+export const HYDRATION_NOTIFICATION: Record<Language, { title: string; body: (notice: HydrationNotice) => string }> = {
+  es: {
+    title: "Hidratación registrada",
+    body: (notice) =>
+      `¡Has registrado ${formatNumber("es", notice.volume)} ${notice.volumeUnit} de ${BEVERAGE_NAMES.es[notice.beverage]}! ` +
+      `Llevas ${containerCount("es", notice)} ${notice.date ? `el ${formatDayKey("es", notice.date)}` : "hoy"}.`,
+  },
+  en: {
+    title: "Hydration logged",
+    body: (notice) =>
+      `You logged ${formatNumber("en", notice.volume)} ${notice.volumeUnit} of ${BEVERAGE_NAMES.en[notice.beverage]}! ` +
+      `That's ${containerCount("en", notice)} ${notice.date ? `on ${formatDayKey("en", notice.date)}` : "today"}.`,
+  },
+};
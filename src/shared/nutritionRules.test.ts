@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  NeedsProfile,
+  calculateDailyNeeds,
+  getDayEndLedStatus,
+  getDayWaterGoal,
+  getLumiStatus,
+  isBalanced,
+  splitMealTargets,
+} from "./nutritionRules";
+
+const adultMale: NeedsProfile = {
+  weight: 70,
+  height: 175,
+  age: 30,
+  gender: "male",
+  activityLevel: "moderate",
+};
+
+const adultFemale: NeedsProfile = {
+  weight: 60,
+  height: 165,
+  age: 30,
+  gender: "female",
+  activityLevel: "sedentary",
+};
+
+describe("calculateDailyNeeds", () => {
+  it("uses the IOM guideline by default", () => {
+    expect(calculateDailyNeeds(adultMale)).toEqual({
+      protein: 98,
+      fiber: 38,
+      waterMl: 2310,
+      waterGlasses: 9,
+      calories: 2556,
+      carbs: 350,
+      fat: 85,
+      addedSugar: 64,
+      sodium: 2300,
+      guideline: "iom",
+      balanceThreshold: 0.8,
+      ageGroup: "adult",
+      lifeStage: null,
+      overridden: [],
+    });
+  });
+
+  it("falls back to IOM for an unknown guideline", () => {
+    expect(calculateDailyNeeds({ ...adultMale, guideline: "paleo" }).guideline).toBe("iom");
+  });
+
+  it("applies the EFSA reference values", () => {
+    const needs = calculateDailyNeeds({ ...adultFemale, guideline: "efsa" });
+    expect(needs).toMatchObject({ protein: 50, fiber: 25, waterMl: 1600, waterGlasses: 6, calories: 1584, sodium: 2000 });
+  });
+
+  it("lowers the added sugar limit under WHO", () => {
+    const needs = calculateDailyNeeds({ ...adultMale, guideline: "who" });
+    expect(needs.protein).toBe(58);
+    expect(needs.addedSugar).toBe(32);
+  });
+
+  it("raises protein, water and the balance threshold for sports nutrition", () => {
+    const needs = calculateDailyNeeds({ ...adultMale, activityLevel: "very", guideline: "sports" });
+    expect(needs).toMatchObject({ protein: 154, waterMl: 2800, balanceThreshold: 0.9 });
+  });
+
+  describe("life stage", () => {
+    it("adds protein from the second trimester of pregnancy", () => {
+      const first = calculateDailyNeeds({ ...adultFemale, lifeStage: "pregnant", trimester: 1 });
+      const second = calculateDailyNeeds({ ...adultFemale, lifeStage: "pregnant", trimester: 2 });
+      expect(first).toMatchObject({ protein: 60, fiber: 28, waterMl: 2280, lifeStage: "pregnant" });
+      expect(second).toMatchObject({ protein: 85, fiber: 28, waterMl: 2280, lifeStage: "pregnant" });
+    });
+
+    it("adds protein, fiber and water while lactating", () => {
+      const needs = calculateDailyNeeds({ ...adultFemale, lifeStage: "lactating" });
+      expect(needs).toMatchObject({ protein: 85, fiber: 29, waterMl: 2680, lifeStage: "lactating" });
+    });
+
+    it("ignores a life stage that does not apply to the profile", () => {
+      expect(calculateDailyNeeds({ ...adultMale, lifeStage: "pregnant" }).lifeStage).toBeNull();
+      expect(calculateDailyNeeds({ ...adultFemale, age: 60, lifeStage: "lactating" }).lifeStage).toBeNull();
+      expect(calculateDailyNeeds({ ...adultFemale, lifeStage: "unknown" }).lifeStage).toBeNull();
+    });
+  });
+
+  describe("age group", () => {
+    it("keeps adolescents at 0.85 g/kg protein or more", () => {
+      const needs = calculateDailyNeeds({ ...adultFemale, age: 15, weight: 50, guideline: "efsa" });
+      expect(needs).toMatchObject({ protein: 43, ageGroup: "adolescent" });
+    });
+
+    it("keeps older adults at 1.0 g/kg protein or more", () => {
+      const needs = calculateDailyNeeds({ ...adultMale, age: 70, weight: 80, activityLevel: "sedentary", guideline: "who" });
+      expect(needs).toMatchObject({ protein: 80, ageGroup: "olderAdult" });
+    });
+  });
+
+  describe("overrides", () => {
+    it("replaces computed targets and feeds the derived ones", () => {
+      const needs = calculateDailyNeeds({
+        ...adultMale,
+        goalOverrides: { protein: 120, waterMl: 1500, calories: 2000 },
+      });
+      expect(needs).toMatchObject({
+        protein: 120,
+        fiber: 38,
+        waterMl: 1500,
+        waterGlasses: 6,
+        calories: 2000,
+        fat: 67,
+        carbs: 229,
+        overridden: ["protein", "waterMl", "calories"],
+      });
+    });
+
+    it("ignores values that are not positive numbers", () => {
+      const needs = calculateDailyNeeds({ ...adultMale, goalOverrides: { fiber: -5, sodium: 0, fat: NaN } });
+      expect(needs).toMatchObject({ fiber: 38, sodium: 2300, fat: 85, overridden: [] });
+    });
+
+    it("never raises a manual water goal for workouts or heat", () => {
+      const conditions = { workouts: [{ durationMin: 60, intensity: "moderate" as const }], temperatureC: 30 };
+      expect(getDayWaterGoal(calculateDailyNeeds(adultMale), conditions)).toEqual({
+        waterMl: 3310,
+        waterGlasses: 13,
+        extraMl: 1000,
+      });
+      const overridden = calculateDailyNeeds({ ...adultMale, goalOverrides: { waterMl: 1500 } });
+      expect(getDayWaterGoal(overridden, conditions)).toEqual({ waterMl: 1500, waterGlasses: 6, extraMl: 0 });
+    });
+  });
+});
+
+describe("isBalanced", () => {
+  const targets = { protein: 100, fiber: 30 };
+
+  it("needs both protein and fiber at the threshold", () => {
+    expect(isBalanced({ protein: 80, fiber: 24 }, targets)).toBe(true);
+    expect(isBalanced({ protein: 79, fiber: 30 }, targets)).toBe(false);
+    expect(isBalanced({ protein: 100, fiber: 23 }, targets)).toBe(false);
+  });
+
+  it("honors a custom threshold", () => {
+    expect(isBalanced({ protein: 80, fiber: 24 }, targets, 0.9)).toBe(false);
+    expect(isBalanced({ protein: 90, fiber: 27 }, targets, 0.9)).toBe(true);
+  });
+});
+
+describe("getLumiStatus", () => {
+  it("picks the status from water and nutrition", () => {
+    expect(getLumiStatus({ water: 80, protein: 80, fiber: 80 })).toBe("shining");
+    expect(getLumiStatus({ water: 50, protein: 90, fiber: 90 })).toBe("nourished");
+    expect(getLumiStatus({ water: 50, protein: 90, fiber: 10 })).toBe("thirsty");
+    expect(getLumiStatus({ water: 100, protein: 10, fiber: 10 })).toBe("hungry");
+  });
+
+  it("honors a custom threshold", () => {
+    expect(getLumiStatus({ water: 85, protein: 85, fiber: 85 }, 0.9)).toBe("thirsty");
+  });
+});
+
+describe("getDayEndLedStatus", () => {
+  it("finishes great when the total progress reaches the threshold", () => {
+    expect(getDayEndLedStatus({ total: 80 })).toBe("GREAT_FINISH");
+    expect(getDayEndLedStatus({ total: 79 })).toBe("BAD_FINISH");
+    expect(getDayEndLedStatus({ total: 85 }, 0.9)).toBe("BAD_FINISH");
+  });
+});
+
+describe("splitMealTargets", () => {
+  it("gives a snack half the share of a meal", () => {
+    const slots = [
+      { id: "breakfast", kind: "meal" as const },
+      { id: "lunch", kind: "meal" as const },
+      { id: "dinner", kind: "meal" as const },
+      { id: "snack", kind: "snack" as const },
+    ];
+    expect(splitMealTargets({ protein: 100, fiber: 30 }, slots)).toEqual({
+      breakfast: { protein: 29, fiber: 9 },
+      lunch: { protein: 29, fiber: 9 },
+      dinner: { protein: 29, fiber: 9 },
+      snack: { protein: 14, fiber: 4 },
+    });
+  });
+
+  it("returns no targets without slots", () => {
+    expect(splitMealTargets({ protein: 100, fiber: 30 }, [])).toEqual({});
+  });
+});
@@ -0,0 +1,438 @@
+// Nutrition rules shared by the web app and the edge function: daily needs,
+// per-meal targets, balance evaluation and Lumi's color/LED status.
+// This module must stay dependency-free so Deno and Vite can both import it.
+//
+// Targets come from a guideline profile (IOM, EFSA, WHO or sports nutrition)
+// chosen on the user; calories always use Mifflin-St Jeor. Pregnancy,
+// lactation and age group then adjust protein, fiber and water. Manual overrides
+// on the profile (e.g. a clinician's protein or fluid limit) replace the
+// computed target and feed into the derived ones. A day (or a meal)
+// is "balanced" when protein and fiber both reach the guideline's threshold
+// of their target. Water does not count towards balance; it only changes
+// Lumi's color.
+
+export type Gender = "male" | "female" | "other";
+
+export type GuidelineId = "iom" | "efsa" | "who" | "sports";
+
+// Targets that can be set by hand instead of computed
+export type OverridableGoal = "protein" | "fiber" | "waterMl" | "calories" | "carbs" | "fat" | "addedSugar" | "sodium";
+
+export type GoalOverrides = Partial<Record<OverridableGoal, number>>;
+
+export const OVERRIDABLE_GOALS: OverridableGoal[] = [
+  "protein",
+  "fiber",
+  "waterMl",
+  "calories",
+  "carbs",
+  "fat",
+  "addedSugar",
+  "sodium",
+];
+
+export type LifeStage = "pregnant" | "lactating";
+
+export const LIFE_STAGES: LifeStage[] = ["pregnant", "lactating"];
+
+export type AgeGroup = "adolescent" | "adult" | "olderAdult";
+
+export type ActivityLevel = "sedentary" | "light" | "moderate" | "very";
+
+export const ACTIVITY_LEVELS: ActivityLevel[] = ["sedentary", "light", "moderate", "very"];
+
+// Accepted ranges for the measurements the targets are computed from (metric)
+export const PROFILE_LIMITS = {
+  age: { min: 10, max: 120 },
+  weight: { min: 20, max: 400 }, // kg
+  height: { min: 80, max: 250 }, // cm
+};
+
+export interface NeedsProfile {
+  weight: number; // kg
+  height: number; // cm
+  age: number;
+  gender: Gender;
+  activityLevel: string;
+  guideline?: string; // GuidelineId, DEFAULT_GUIDELINE when missing
+  lifeStage?: string | null; // LifeStage, only applies when canHaveLifeStage
+  trimester?: number; // 1-3, while pregnant
+  goalOverrides?: GoalOverrides;
+}
+
+export interface DailyNeeds {
+  protein: number; // g
+  fiber: number; // g
+  waterMl: number;
+  waterGlasses: number;
+  calories: number; // kcal
+  carbs: number; // g
+  fat: number; // g
+  addedSugar: number; // g (limit)
+  sodium: number; // mg (limit)
+  guideline: GuidelineId;
+  balanceThreshold: number;
+  ageGroup: AgeGroup;
+  lifeStage: LifeStage | null; // the one applied to the targets
+  overridden: OverridableGoal[]; // targets taken from goalOverrides
+}
+
+// Default share of a target that counts as "met" for balance and Lumi's color
+export const BALANCE_THRESHOLD = 0.8;
+
+// Volume of one "glass" used by the waterGlasses counter
+export const GLASS_ML = 250;
+
+export interface Guideline {
+  proteinPerKg: Record<string, number>; // g per kg of body weight, by activity level
+  fiber: (profile: NeedsProfile) => number; // g
+  waterMl: (profile: NeedsProfile) => number; // from drinks
+  fatShare: number; // of daily energy
+  addedSugarShare: number; // max share of daily energy
+  sodiumMax: number; // mg
+  balanceThreshold: number;
+}
+
+// IOM adequate intake for fiber by age: men get the higher table, everyone else the lower one
+function iomFiber({ gender, age }: NeedsProfile): number {
+  if (gender === "male") return age < 14 ? 31 : age < 50 ? 38 : 30;
+  return age < 19 ? 26 : age < 50 ? 25 : 21;
+}
+
+const waterPerKg = (mlPerKg: number) => (profile: NeedsProfile) => profile.weight * mlPerKg;
+
+export const GUIDELINES: Record<GuidelineId, Guideline> = {
+  // IOM dietary reference intakes; protein scaled up with activity
+  iom: {
+    proteinPerKg: { sedentary: 1.0, light: 1.2, moderate: 1.4, very: 1.6 },
+    fiber: iomFiber,
+    waterMl: waterPerKg(33),
+    fatShare: 0.3,
+    addedSugarShare: 0.1,
+    sodiumMax: 2300,
+    balanceThreshold: BALANCE_THRESHOLD,
+  },
+  // EFSA dietary reference values: protein PRI 0.83 g/kg, fiber 25 g, and
+  // the adequate water intake (2.5 L men, 2.0 L women) minus ~20% from food
+  efsa: {
+    proteinPerKg: { sedentary: 0.83, light: 0.83, moderate: 0.83, very: 0.83 },
+    fiber: () => 25,
+    waterMl: ({ gender }) => (gender === "male" ? 2000 : gender === "female" ? 1600 : 1800),
+    fatShare: 0.3,
+    addedSugarShare: 0.1,
+    sodiumMax: 2000,
+    balanceThreshold: BALANCE_THRESHOLD,
+  },
+  // WHO: protein 0.83 g/kg (WHO/FAO/UNU 2007), fiber 25 g, free sugars under
+  // 5% of energy (conditional recommendation) and sodium under 2 g
+  who: {
+    proteinPerKg: { sedentary: 0.83, light: 0.83, moderate: 0.83, very: 0.83 },
+    fiber: () => 25,
+    waterMl: waterPerKg(33),
+    fatShare: 0.3,
+    addedSugarShare: 0.05,
+    sodiumMax: 2000,
+    balanceThreshold: BALANCE_THRESHOLD,
+  },
+  // Sports nutrition (ISSN): 1.6–2.2 g/kg protein by training load, more water,
+  // and a stricter threshold to count a day as balanced
+  sports: {
+    proteinPerKg: { sedentary: 1.6, light: 1.8, moderate: 2.0, very: 2.2 },
+    fiber: iomFiber,
+    waterMl: waterPerKg(40),
+    fatShare: 0.25,
+    addedSugarShare: 0.1,
+    sodiumMax: 2300,
+    balanceThreshold: 0.9,
+  },
+};
+
+export const DEFAULT_GUIDELINE: GuidelineId = "iom";
+
+export const GUIDELINE_IDS = Object.keys(GUIDELINES) as GuidelineId[];
+
+export function isGuidelineId(value: unknown): value is GuidelineId {
+  return typeof value === "string" && (GUIDELINE_IDS as string[]).includes(value);
+}
+
+// Total energy expenditure factor over BMR, by activity level
+const ACTIVITY_FACTORS: Record<string, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  very: 1.725,
+};
+
+// Daily energy expenditure: Mifflin-St Jeor BMR × activity factor
+export function calculateDailyCalories(profile: NeedsProfile): number {
+  const base = 10 * profile.weight + 6.25 * profile.height - 5 * profile.age;
+  // "other" uses the average of the male (+5) and female (-161) constants
+  const genderOffset = profile.gender === "male" ? 5 : profile.gender === "female" ? -161 : -78;
+  const factor = ACTIVITY_FACTORS[profile.activityLevel] ?? ACTIVITY_FACTORS.sedentary;
+  return Math.round((base + genderOffset) * factor);
+}
+
+// Macro targets from daily energy and protein: fat and added sugar as a share
+// of energy, the guideline's sodium limit, and the remaining energy as carbs.
+export function calculateMacroTargets(calories: number, protein: number, guideline: Guideline) {
+  const fat = Math.round((calories * guideline.fatShare) / 9);
+  return {
+    fat,
+    carbs: Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4)),
+    addedSugar: Math.round((calories * guideline.addedSugarShare) / 4),
+    sodium: guideline.sodiumMax,
+  };
+}
+
+const ADOLESCENT_MAX_AGE = 18;
+const OLDER_ADULT_MIN_AGE = 65;
+
+export function getAgeGroup(age: number): AgeGroup {
+  if (age <= ADOLESCENT_MAX_AGE) return "adolescent";
+  return age >= OLDER_ADULT_MIN_AGE ? "olderAdult" : "adult";
+}
+
+// Pregnancy and lactation are only asked (and applied) for non-male users of childbearing age
+export function canHaveLifeStage({ gender, age }: Pick<NeedsProfile, "gender" | "age">): boolean {
+  return gender !== "male" && age >= 12 && age <= 55;
+}
+
+export function isLifeStage(value: unknown): value is LifeStage {
+  return typeof value === "string" && (LIFE_STAGES as string[]).includes(value);
+}
+
+export function getLifeStage(profile: NeedsProfile): LifeStage | null {
+  return canHaveLifeStage(profile) && isLifeStage(profile.lifeStage) ? profile.lifeStage : null;
+}
+
+// Adjust the guideline's protein, fiber and water for life stage and age group:
+// - pregnancy: +25 g protein from the 2nd trimester and fiber ≥ 28 g (IOM), +300 ml water (EFSA)
+// - lactation: +25 g protein and fiber ≥ 29 g (IOM), +700 ml water (EFSA)
+// - adolescents: at least 0.85 g/kg protein (IOM, 14-18 years)
+// - older adults: at least 1.0 g/kg protein to preserve muscle (ESPEN)
+function adjustForLifeStage(
+  targets: { protein: number; fiber: number; waterMl: number },
+  profile: NeedsProfile
+): { protein: number; fiber: number; waterMl: number } {
+  let { protein, fiber, waterMl } = targets;
+
+  const ageGroup = getAgeGroup(profile.age);
+  if (ageGroup === "adolescent") protein = Math.max(protein, Math.round(profile.weight * 0.85));
+  if (ageGroup === "olderAdult") protein = Math.max(protein, Math.round(profile.weight * 1.0));
+
+  const lifeStage = getLifeStage(profile);
+  if (lifeStage === "pregnant") {
+    if ((profile.trimester ?? 1) >= 2) protein += 25;
+    fiber = Math.max(fiber, 28);
+    waterMl += 300;
+  }
+  if (lifeStage === "lactating") {
+    protein += 25;
+    fiber = Math.max(fiber, 29);
+    waterMl += 700;
+  }
+
+  return { protein, fiber, waterMl };
+}
+
+// Overrides that hold a usable value (positive numbers only)
+function getValidOverrides(overrides: GoalOverrides | undefined): GoalOverrides {
+  const valid: GoalOverrides = {};
+  for (const key of OVERRIDABLE_GOALS) {
+    const value = overrides?.[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) valid[key] = value;
+  }
+  return valid;
+}
+
+export function calculateDailyNeeds(profile: NeedsProfile): DailyNeeds {
+  const guidelineId = isGuidelineId(profile.guideline) ? profile.guideline : DEFAULT_GUIDELINE;
+  const guideline = GUIDELINES[guidelineId];
+  const overrides = getValidOverrides(profile.goalOverrides);
+  const proteinPerKg = guideline.proteinPerKg[profile.activityLevel] ?? guideline.proteinPerKg.sedentary;
+  const adjusted = adjustForLifeStage(
+    {
+      protein: Math.round(profile.weight * proteinPerKg),
+      fiber: guideline.fiber(profile),
+      waterMl: guideline.waterMl(profile),
+    },
+    profile
+  );
+  const protein = overrides.protein ?? adjusted.protein;
+  const waterMl = overrides.waterMl ?? adjusted.waterMl;
+  const calories = overrides.calories ?? calculateDailyCalories(profile);
+  const macros = calculateMacroTargets(calories, protein, guideline);
+
+  return {
+    protein,
+    fiber: overrides.fiber ?? adjusted.fiber,
+    waterMl: Math.round(waterMl),
+    waterGlasses: Math.round(waterMl / GLASS_ML),
+    calories,
+    carbs: overrides.carbs ?? macros.carbs,
+    fat: overrides.fat ?? macros.fat,
+    addedSugar: overrides.addedSugar ?? macros.addedSugar,
+    sodium: overrides.sodium ?? macros.sodium,
+    guideline: guidelineId,
+    balanceThreshold: guideline.balanceThreshold,
+    ageGroup: getAgeGroup(profile.age),
+    lifeStage: getLifeStage(profile),
+    overridden: Object.keys(overrides) as OverridableGoal[],
+  };
+}
+
+export type WorkoutIntensity = "light" | "moderate" | "vigorous";
+
+export const WORKOUT_INTENSITIES: WorkoutIntensity[] = ["light", "moderate", "vigorous"];
+
+export const MAX_WORKOUT_MINUTES = 600;
+
+// Extra water per hour of exercise, roughly the sweat lost at each intensity
+const WORKOUT_WATER_ML_PER_HOUR: Record<WorkoutIntensity, number> = {
+  light: 300,
+  moderate: 500,
+  vigorous: 800,
+};
+
+// Hot days: +100 ml per °C above 25 °C, up to 1 L
+const HOT_DAY_MIN_C = 25;
+const HEAT_WATER_ML_PER_C = 100;
+const MAX_HEAT_WATER_ML = 1000;
+
+// What happened on a given day that changes how much to drink
+export interface DayConditions {
+  workouts?: { durationMin: number; intensity: WorkoutIntensity }[];
+  temperatureC?: number | null;
+}
+
+export function isHotDay(temperatureC: number | null | undefined): boolean {
+  return typeof temperatureC === "number" && temperatureC > HOT_DAY_MIN_C;
+}
+
+// Extra water (ml) for a day's workouts and heat
+export function getExtraWaterMl({ workouts = [], temperatureC }: DayConditions): number {
+  const workoutMl = workouts.reduce(
+    (sum, workout) => sum + (workout.durationMin / 60) * (WORKOUT_WATER_ML_PER_HOUR[workout.intensity] ?? 0),
+    0
+  );
+  const heatMl = isHotDay(temperatureC)
+    ? Math.min(MAX_HEAT_WATER_ML, ((temperatureC as number) - HOT_DAY_MIN_C) * HEAT_WATER_ML_PER_C)
+    : 0;
+  return Math.round(workoutMl + heatMl);
+}
+
+// Water goal for one day: the daily need plus that day's extra. A manual water
+// goal (e.g. a fluid restriction) is never raised.
+export function getDayWaterGoal(
+  needs: Pick<DailyNeeds, "waterMl" | "overridden">,
+  conditions: DayConditions
+): { waterMl: number; waterGlasses: number; extraMl: number } {
+  const extraMl = needs.overridden.includes("waterMl") ? 0 : getExtraWaterMl(conditions);
+  const waterMl = needs.waterMl + extraMl;
+  return { waterMl, waterGlasses: Math.round(waterMl / GLASS_ML), extraMl };
+}
+
+// Weight of each slot kind when splitting daily targets (a snack is half a meal)
+const SLOT_WEIGHTS: Record<"meal" | "snack", number> = {
+  meal: 1,
+  snack: 0.5,
+};
+
+// Split daily targets across the configured meal slots, keyed by slot id
+export function splitMealTargets<T extends Record<string, number>>(
+  dailyTargets: T,
+  slots: { id: string; kind: "meal" | "snack" }[]
+): Record<string, T> {
+  const totalWeight = slots.reduce((sum, slot) => sum + SLOT_WEIGHTS[slot.kind], 0) || 1;
+
+  return Object.fromEntries(
+    slots.map((slot) => {
+      const share = SLOT_WEIGHTS[slot.kind] / totalWeight;
+      const targets = { ...dailyTargets };
+      for (const key of Object.keys(dailyTargets) as (keyof T)[]) {
+        targets[key] = Math.round(dailyTargets[key] * share) as T[keyof T];
+      }
+      return [slot.id, targets];
+    })
+  );
+}
+
+// Whole percentage of a goal reached (0 when there is no goal)
+export function goalPercentage(amount: number, goal: number): number {
+  return goal > 0 ? Math.round((amount / goal) * 100) : 0;
+}
+
+export function isGoalReached(amount: number, goal: number, threshold: number = BALANCE_THRESHOLD): boolean {
+  return amount >= goal * threshold;
+}
+
+// Balance of a day or a meal against its targets
+export function isBalanced(
+  intake: { protein: number; fiber: number },
+  targets: { protein: number; fiber: number },
+  threshold: number = BALANCE_THRESHOLD
+): boolean {
+  return (
+    isGoalReached(intake.protein, targets.protein, threshold) &&
+    isGoalReached(intake.fiber, targets.fiber, threshold)
+  );
+}
+
+export interface DayProgress {
+  water: number;
+  protein: number;
+  fiber: number;
+  nutrition: number; // average of protein and fiber
+  total: number; // average of water and nutrition
+}
+
+// Progress (%) towards the day's goals, uncapped
+export function getDayProgress(
+  intake: { waterGlasses: number; protein: number; fiber: number },
+  needs: { waterGlasses: number; protein: number; fiber: number }
+): DayProgress {
+  const water = goalPercentage(intake.waterGlasses, needs.waterGlasses);
+  const protein = goalPercentage(intake.protein, needs.protein);
+  const fiber = goalPercentage(intake.fiber, needs.fiber);
+  const nutrition = Math.round((protein + fiber) / 2);
+  return { water, protein, fiber, nutrition, total: Math.round((water + nutrition) / 2) };
+}
+
+// Lumi's state: "shining" (everything met), "nourished" (protein and fiber met),
+// "thirsty" (water missing) or "hungry" (only water met)
+export type LumiStatus = "shining" | "nourished" | "thirsty" | "hungry";
+
+export function getLumiStatus(
+  progress: Pick<DayProgress, "water" | "protein" | "fiber">,
+  threshold: number = BALANCE_THRESHOLD
+): LumiStatus {
+  const minPercentage = threshold * 100;
+  const waterMet = progress.water >= minPercentage;
+  const nutritionMet = progress.protein >= minPercentage && progress.fiber >= minPercentage;
+
+  if (waterMet && nutritionMet) return "shining";
+  if (nutritionMet) return "nourished";
+  if (!waterMet) return "thirsty";
+  return "hungry";
+}
+
+export const LUMI_COLORS: Record<LumiStatus, { gradient: string; shadow: string }> = {
+  shining: { gradient: "linear-gradient(135deg, #FEF3C7, #FDE68A)", shadow: "rgba(254, 243, 199, 0.7)" },
+  nourished: { gradient: "linear-gradient(135deg, #D1FAE5, #86EFAC)", shadow: "rgba(209, 250, 229, 0.7)" },
+  thirsty: { gradient: "linear-gradient(135deg, #DBEAFE, #93C5FD)", shadow: "rgba(219, 234, 254, 0.7)" },
+  hungry: { gradient: "linear-gradient(135deg, #FED7AA, #FDBA74)", shadow: "rgba(254, 215, 170, 0.7)" },
+};
+
+// Name of the LED command the Arduino shows for a logged meal and at day end
+export type LedStatus = "BALANCED" | "UNBALANCED" | "GREAT_FINISH" | "BAD_FINISH";
+
+export function getMealLedStatus(balanced: boolean): LedStatus {
+  return balanced ? "BALANCED" : "UNBALANCED";
+}
+
+export function getDayEndLedStatus(
+  progress: Pick<DayProgress, "total">,
+  threshold: number = BALANCE_THRESHOLD
+): LedStatus {
+  return progress.total >= threshold * 100 ? "GREAT_FINISH" : "BAD_FINISH";
+}
@@ -0,0 +1,50 @@
+// Display units shared by the web app and the edge function.
+// This module must stay dependency-free so Deno and Vite can both import it.
+//
+// Everything is stored metric (kg, cm, ml, g, °C); a profile's units only
+// change how values are shown. The app's full set of conversions lives in
+// src/utils/units.ts; the ones the server also writes (push notifications)
+// are kept here.
+
+export type UnitSystem = "metric" | "imperial";
+
+// Container water is counted in ("3 of 8 glasses", "1 of 4 bottles")
+export type WaterContainer = "glass" | "bottle";
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  container: WaterContainer;
+  containerMl: number;
+}
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+export const WATER_CONTAINERS: WaterContainer[] = ["glass", "bottle"];
+
+export const MIN_CONTAINER_ML = 50;
+export const MAX_CONTAINER_ML = 2000;
+
+const ML_PER_FL_OZ = 29.5735;
+
+export const round = (value: number, decimals = 0) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+export function isImperial(units: UnitPreferences): boolean {
+  return units.system === "imperial";
+}
+
+export function volumeUnit(units: UnitPreferences): "ml" | "fl oz" {
+  return isImperial(units) ? "fl oz" : "ml";
+}
+
+export function toDisplayVolume(ml: number, units: UnitPreferences): number {
+  return isImperial(units) ? round(ml / ML_PER_FL_OZ, 1) : Math.round(ml);
+}
+
+export function fromDisplayVolume(value: number, units: UnitPreferences): number {
+  return isImperial(units) ? Math.round(value * ML_PER_FL_OZ) : Math.round(value);
+}
+
+// How many of the user's containers these ml are (one decimal)
+export function toContainers(ml: number, units: UnitPreferences): number {
+  return round(ml / units.containerMl, 1);
+}
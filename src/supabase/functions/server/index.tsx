@@ -1,10 +1,58 @@
-import { Hono } from "npm:hono";
+import { Hono, type MiddlewareHandler } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { createClient, type User } from "jsr:@supabase/supabase-js@2";
 import * as kv from "./kv.tsx";
-
-const app = new Hono();
+import {
+  DEFAULT_TIME_ZONE,
+  addDays,
+  addMonths,
+  dayLengthMinutes,
+  daysBetween,
+  getDayKey,
+  getLocalDateTime,
+  getWeekday,
+  isValidTimeZone,
+  minutesSinceDayStart,
+  startOfMonth,
+  startOfWeek,
+} from "../../../shared/dates.ts";
+import {
+  ACTIVITY_LEVELS,
+  GLASS_ML,
+  GUIDELINE_IDS,
+  LIFE_STAGES,
+  MAX_WORKOUT_MINUTES,
+  OVERRIDABLE_GOALS,
+  PROFILE_LIMITS,
+  WORKOUT_INTENSITIES,
+  calculateDailyNeeds,
+  getDayWaterGoal,
+  goalPercentage,
+  isBalanced,
+  isGuidelineId,
+  isLifeStage,
+} from "../../../shared/nutritionRules.ts";
+import { HYDRATION_NOTIFICATION, LANGUAGES, getLanguage, isLanguage } from "../../../shared/i18n.ts";
+import {
+  MAX_CONTAINER_ML,
+  MIN_CONTAINER_ML,
+  UNIT_SYSTEMS,
+  UnitPreferences,
+  WATER_CONTAINERS,
+  toContainers,
+  toDisplayVolume,
+  volumeUnit,
+} from "../../../shared/units.ts";
+
+// Request-scoped values set by middleware
+type AppEnv = {
+  Variables: {
+    user: User;
+  };
+};
+
+const app = new Hono<AppEnv>();
 
 // Create Supabase client for auth
 const supabase = createClient(
@@ -21,12 +69,360 @@ app.use(
   cors({
     origin: "*",
     allowHeaders: ["Content-Type", "Authorization"],
-    allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     exposeHeaders: ["Content-Length"],
     maxAge: 600,
   }),
 );
 
+// Auth middleware: resolves the Supabase user from the bearer token once per
+// request and exposes it as c.get('user'). When the route has a :userId path
+// param, it must match the authenticated user.
+const requireAuth: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const accessToken = c.req.header('Authorization')?.split(' ')[1];
+  if (!accessToken) {
+    return c.json({ error: "Unauthorized - no token provided" }, 401);
+  }
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+  if (authError || !user?.id) {
+    console.log("Auth error:", authError);
+    return c.json({ error: "Unauthorized - invalid token" }, 401);
+  }
+
+  const pathUserId = c.req.param("userId");
+  if (pathUserId !== undefined && pathUserId !== user.id) {
+    console.log("Forbidden: token user", user.id, "requested data of", pathUserId);
+    return c.json({ error: "Cannot access data of other users" }, 403);
+  }
+
+  c.set('user', user);
+  await next();
+};
+
+// The user's current Lumi day ("YYYY-MM-DD") in their timezone, honoring dayStartTime
+function getUserToday(user: any): string {
+  return getDayKey(user?.timeZone || DEFAULT_TIME_ZONE, user?.dayStartTime || "00:00");
+}
+
+// Share of each beverage's volume that counts towards hydration
+const BEVERAGES: Record<string, { coefficient: number }> = {
+  water: { coefficient: 1.0 },
+  sparkling: { coefficient: 1.0 },
+  tea: { coefficient: 0.9 },
+  coffee: { coefficient: 0.8 },
+};
+
+// Nutrients tracked per meal, the daily total field each one rolls up into,
+// and the largest value accepted for a single meal
+const NUTRIENTS: Record<string, { totalField: string; max: number }> = {
+  protein: { totalField: "totalProtein", max: 1000 },
+  fiber: { totalField: "totalFiber", max: 1000 },
+  calories: { totalField: "totalCalories", max: 10000 },
+  carbs: { totalField: "totalCarbs", max: 2000 },
+  fat: { totalField: "totalFat", max: 1000 },
+  addedSugar: { totalField: "totalAddedSugar", max: 1000 },
+  sodium: { totalField: "totalSodium", max: 50000 }, // mg
+};
+
+// Daily nutrient totals of a record, as returned by the nutrition endpoints
+function nutritionTotals(dailyData: any) {
+  return Object.fromEntries(
+    Object.values(NUTRIENTS).map(({ totalField }) => [totalField, dailyData[totalField] || 0])
+  );
+}
+
+// Empty daily record for a given date
+function createDailyRecord(date: string) {
+  return {
+    date,
+    waterGlasses: 0,
+    waterMl: 0,
+    waterEntries: [],
+    meals: [],
+    ...nutritionTotals({}),
+  };
+}
+
+// Records written before the per-entry log only have a waterGlasses counter.
+// Convert that counter into 250 ml water entries so it can be edited like the rest.
+function ensureWaterEntries(dailyData: any) {
+  if (!Array.isArray(dailyData.waterEntries)) {
+    const legacyGlasses = Math.round(dailyData.waterGlasses || 0);
+    const timestamp = dailyData.lastUpdated || `${dailyData.date}T12:00:00.000Z`;
+    dailyData.waterEntries = Array.from({ length: legacyGlasses }, (_, i) => ({
+      id: `legacy-${dailyData.date}-${i}`,
+      timestamp,
+      volumeMl: GLASS_ML,
+      beverage: "water",
+      coefficient: 1.0,
+    }));
+  }
+  return dailyData;
+}
+
+// Derive the water totals from the entry log
+function recalculateWater(dailyData: any) {
+  ensureWaterEntries(dailyData);
+  const waterMl = dailyData.waterEntries.reduce(
+    (sum: number, e: any) => sum + (e.volumeMl || 0) * (e.coefficient ?? 1),
+    0,
+  );
+  dailyData.waterMl = Math.round(waterMl);
+  dailyData.waterGlasses = Math.round((waterMl / GLASS_ML) * 10) / 10;
+  return dailyData;
+}
+
+// Records written before meals had ids contain one row per slider change.
+// Keep only the last row per meal type, which is what the app displayed.
+function normalizeMeals(dailyData: any) {
+  const meals = Array.isArray(dailyData.meals) ? dailyData.meals : [];
+  if (meals.every((m: any) => m.id)) {
+    dailyData.meals = meals;
+    return dailyData;
+  }
+
+  const lastByType = new Map<string, any>();
+  const withIds: any[] = [];
+  for (const meal of meals) {
+    if (meal.id) {
+      withIds.push(meal);
+    } else if (meal.type) {
+      lastByType.set(meal.type, meal);
+    }
+  }
+  const migrated = [...lastByType.values()].map((meal) => ({
+    id: `legacy-${dailyData.date}-${meal.type}`,
+    type: meal.type,
+    protein: meal.protein || 0,
+    fiber: meal.fiber || 0,
+    createdAt: meal.timestamp,
+    updatedAt: meal.timestamp,
+  }));
+  dailyData.meals = [...migrated, ...withIds];
+  return dailyData;
+}
+
+// Derive the nutrition totals from the meals
+function recalculateNutrition(dailyData: any) {
+  normalizeMeals(dailyData);
+  for (const [nutrient, { totalField }] of Object.entries(NUTRIENTS)) {
+    dailyData[totalField] = dailyData.meals.reduce((sum: number, m: any) => sum + (m[nutrient] || 0), 0);
+  }
+  return dailyData;
+}
+
+// Normalize a stored daily record read from KV (legacy water counter and meal rows)
+function normalizeDailyRecord(dailyData: any) {
+  return recalculateNutrition(recalculateWater(dailyData));
+}
+
+// Insert or replace a meal by id and refresh the totals
+function upsertMeal(dailyData: any, mealId: string, meal: any) {
+  normalizeMeals(dailyData);
+  const now = new Date().toISOString();
+  const existing = dailyData.meals.find((m: any) => m.id === mealId);
+  // Nutrients other than protein and fiber are optional and only stored when provided
+  const optionalNutrients = Object.fromEntries(
+    Object.keys(NUTRIENTS)
+      .filter((nutrient) => nutrient !== "protein" && nutrient !== "fiber" && typeof meal[nutrient] === "number")
+      .map((nutrient) => [nutrient, meal[nutrient]])
+  );
+  const savedMeal = {
+    id: mealId,
+    type: meal.type,
+    protein: meal.protein || 0,
+    fiber: meal.fiber || 0,
+    ...optionalNutrients,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  dailyData.meals = existing
+    ? dailyData.meals.map((m: any) => (m.id === mealId ? savedMeal : m))
+    : [...dailyData.meals, savedMeal];
+  recalculateNutrition(dailyData);
+  dailyData.lastUpdated = now;
+  return savedMeal;
+}
+
+// Meal types are the ids of the user's configured meal slots
+const MEAL_SLOT_ID = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const MAX_MEAL_SLOTS = 8;
+const TIME_HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Validate a nutrient map such as a food portion or a recipe ingredient
+function validateNutrients(nutrients: any, field: string): string | null {
+  if (!nutrients || typeof nutrients !== "object") {
+    return `${field} is required`;
+  }
+  for (const [nutrient, { max }] of Object.entries(NUTRIENTS)) {
+    const value = nutrients[nutrient];
+    if (value !== undefined && (typeof value !== "number" || value < 0 || value > max)) {
+      return `${field}.${nutrient} must be a number between 0 and ${max}`;
+    }
+  }
+  return null;
+}
+
+// Validate a meal payload
+function validateMealInput(meal: any): string | null {
+  if (typeof meal.type !== "string" || !MEAL_SLOT_ID.test(meal.type)) {
+    return "meal.type must be a meal slot id (lowercase letters, digits, - or _)";
+  }
+  for (const [field, { max }] of Object.entries(NUTRIENTS)) {
+    const value = meal[field];
+    if (value !== undefined && (typeof value !== "number" || value < 0 || value > max)) {
+      return `meal.${field} must be a number between 0 and ${max}`;
+    }
+  }
+  return null;
+}
+
+// Validate the meal slots configured on a profile
+function validateMealSlotsInput(slots: unknown): string | null {
+  if (!Array.isArray(slots) || slots.length === 0 || slots.length > MAX_MEAL_SLOTS) {
+    return `mealSlots must be an array of 1 to ${MAX_MEAL_SLOTS} slots`;
+  }
+  const ids = new Set<string>();
+  for (const slot of slots) {
+    if (typeof slot?.id !== "string" || !MEAL_SLOT_ID.test(slot.id) || ids.has(slot.id)) {
+      return "Each meal slot needs a unique id (lowercase letters, digits, - or _)";
+    }
+    ids.add(slot.id);
+    if (typeof slot.name !== "string" || !slot.name.trim() || slot.name.length > 30) {
+      return `Meal slot ${slot.id} needs a name of up to 30 characters`;
+    }
+    if (typeof slot.icon !== "string") {
+      return `Meal slot ${slot.id} needs an icon`;
+    }
+    if (!TIME_HHMM.test(slot.startTime) || !TIME_HHMM.test(slot.endTime)) {
+      return `Meal slot ${slot.id} needs startTime and endTime as HH:MM`;
+    }
+    if (slot.kind !== "meal" && slot.kind !== "snack") {
+      return `Meal slot ${slot.id} kind must be meal or snack`;
+    }
+  }
+  return null;
+}
+
+// Validate the body measurements, activity level and day schedule of a profile.
+// Only the fields present are checked, so partial profiles pass.
+function validateBodyInput(profile: any): string | null {
+  for (const field of ["age", "weight", "height"] as const) {
+    const value = profile[field];
+    const { min, max } = PROFILE_LIMITS[field];
+    if (value !== undefined && (typeof value !== "number" || !(value >= min && value <= max))) {
+      return `${field} must be a number between ${min} and ${max}`;
+    }
+  }
+  if (profile.age !== undefined && !Number.isInteger(profile.age)) {
+    return "age must be a whole number";
+  }
+  if (profile.activityLevel !== undefined && !ACTIVITY_LEVELS.includes(profile.activityLevel)) {
+    return `activityLevel must be one of: ${ACTIVITY_LEVELS.join(", ")}`;
+  }
+  for (const field of ["dayStartTime", "dayEndTime"] as const) {
+    if (profile[field] !== undefined && !TIME_HHMM.test(profile[field])) {
+      return `${field} must be HH:MM`;
+    }
+  }
+  return null;
+}
+
+// Validate the weekly rest days of a profile (weekday numbers, 0 = Sunday)
+function validateRestDaysInput(restDays: unknown): string | null {
+  if (
+    !Array.isArray(restDays) ||
+    restDays.length > MAX_REST_DAYS ||
+    new Set(restDays).size !== restDays.length ||
+    !restDays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+  ) {
+    return `restDays must list up to ${MAX_REST_DAYS} different weekdays (0 = Sunday ... 6 = Saturday)`;
+  }
+  return null;
+}
+
+// Validate pregnancy/lactation: null clears it, pregnancy needs its trimester
+function validateLifeStageInput(lifeStage: unknown, trimester: unknown): string | null {
+  if (lifeStage !== null && !isLifeStage(lifeStage)) {
+    return `lifeStage must be null or one of: ${LIFE_STAGES.join(", ")}`;
+  }
+  if (lifeStage === "pregnant" && !(trimester === 1 || trimester === 2 || trimester === 3)) {
+    return "trimester must be 1, 2 or 3 while pregnant";
+  }
+  return null;
+}
+
+// Display units of a profile, defaulting to metric and 250 ml glasses
+function getUserUnits(user: any): UnitPreferences {
+  return { system: "metric", container: "glass", containerMl: GLASS_ML, ...user?.units };
+}
+
+// Display units of a profile; stored values (weight, height, water) stay metric
+function validateUnitsInput(units: any): string | null {
+  if (!units || typeof units !== "object" || Array.isArray(units)) {
+    return "units must be an object";
+  }
+  if (!(UNIT_SYSTEMS as string[]).includes(units.system)) {
+    return `units.system must be one of: ${UNIT_SYSTEMS.join(", ")}`;
+  }
+  if (!(WATER_CONTAINERS as string[]).includes(units.container)) {
+    return `units.container must be one of: ${WATER_CONTAINERS.join(", ")}`;
+  }
+  if (
+    !Number.isInteger(units.containerMl) ||
+    units.containerMl < MIN_CONTAINER_ML ||
+    units.containerMl > MAX_CONTAINER_ML
+  ) {
+    return `units.containerMl must be an integer between ${MIN_CONTAINER_ML} and ${MAX_CONTAINER_ML}`;
+  }
+  return null;
+}
+
+// Largest accepted manual water goal (ml)
+const MAX_WATER_GOAL_ML = 10000;
+
+// Validate manual goal overrides: known targets with positive values (water in ml)
+function validateGoalOverridesInput(goalOverrides: unknown): string | null {
+  if (!goalOverrides || typeof goalOverrides !== "object" || Array.isArray(goalOverrides)) {
+    return "goalOverrides must be an object";
+  }
+  for (const [key, value] of Object.entries(goalOverrides)) {
+    if (!(OVERRIDABLE_GOALS as string[]).includes(key)) {
+      return `Unknown goal ${key}, expected one of: ${OVERRIDABLE_GOALS.join(", ")}`;
+    }
+    const max = key === "waterMl" ? MAX_WATER_GOAL_ML : NUTRIENTS[key].max;
+    if (typeof value !== "number" || !(value > 0) || value > max) {
+      return `${key} goal must be a number between 1 and ${max}`;
+    }
+  }
+  return null;
+}
+
+// Validate the volume/beverage fields of a water entry payload
+function validateWaterInput(volumeMl: unknown, beverage: unknown): string | null {
+  if (volumeMl !== undefined && (typeof volumeMl !== "number" || !(volumeMl > 0) || volumeMl > 2000)) {
+    return "volumeMl must be a number between 1 and 2000";
+  }
+  if (beverage !== undefined && (typeof beverage !== "string" || !Object.hasOwn(BEVERAGES, beverage))) {
+    return `beverage must be one of: ${Object.keys(BEVERAGES).join(", ")}`;
+  }
+  return null;
+}
+
+// Validate a workout payload: minutes and how hard it was
+function validateWorkoutInput(durationMin: unknown, intensity: unknown): string | null {
+  const minutes = Number.isInteger(durationMin) ? (durationMin as number) : 0;
+  if (minutes < 1 || minutes > MAX_WORKOUT_MINUTES) {
+    return `durationMin must be a whole number between 1 and ${MAX_WORKOUT_MINUTES}`;
+  }
+  if (typeof intensity !== "string" || !(WORKOUT_INTENSITIES as string[]).includes(intensity)) {
+    return `intensity must be one of: ${WORKOUT_INTENSITIES.join(", ")}`;
+  }
+  return null;
+}
+
 // Health check endpoint
 app.get("/make-server-7e221a31/health", (c) => {
   return c.json({ status: "ok" });
@@ -83,7 +479,7 @@ app.get("/make-server-7e221a31/test-supabase", async (c) => {
 app.post("/make-server-7e221a31/auth/signup", async (c) => {
   try {
     const body = await c.req.json();
-    const { email, password, name, dayStartTime, dayEndTime } = body;
+    const { email, password, name, dayStartTime, dayEndTime, timeZone, language } = body;
 
     console.log("Signup request received for email:", email);
 
@@ -136,16 +532,15 @@ app.post("/make-server-7e221a31/auth/signup", async (c) => {
         name,
         dayStartTime: dayStartTime || "06:00",
         dayEndTime: dayEndTime || "22:00",
+        timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+        language: getLanguage({ language }),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       });
 
       // Initialize streak data
-      await kv.set(`streak:${userId}`, {
-        currentStreak: 0,
-        longestStreak: 0,
-        lastBalancedDate: null,
-      });
+      await kv.set(`streak:${userId}`, emptyStreak());
+      await addToUserIndex(userId);
 
       console.log("User data initialized in KV store");
     } catch (kvError) {
@@ -186,21 +581,9 @@ app.post("/make-server-7e221a31/auth/signin", async (c) => {
 // User Profile Endpoints
 
 // Create or update user profile (requires auth)
-app.post("/make-server-7e221a31/users/profile", async (c) => {
+app.post("/make-server-7e221a31/users/profile", requireAuth, async (c) => {
   try {
-    // Verify user is authenticated
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: "Unauthorized - no token provided" }, 401);
-    }
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user?.id) {
-      console.log("Auth error:", authError);
-      return c.json({ error: "Unauthorized - invalid token" }, 401);
-    }
-
-    const userId = user.id;
+    const userId = c.get('user').id;
     const body = await c.req.json();
     const { profile } = body;
 
@@ -208,32 +591,85 @@ app.post("/make-server-7e221a31/users/profile", async (c) => {
       return c.json({ error: "profile is required" }, 400);
     }
 
+    // Goal overrides and their lock only change through the goals endpoints
+    delete profile.goalOverrides;
+    delete profile.goalsLock;
+
+    if (profile.timeZone !== undefined && !isValidTimeZone(profile.timeZone)) {
+      return c.json({ error: "Invalid timeZone, expected an IANA name like America/Bogota" }, 400);
+    }
+
+    const bodyError = validateBodyInput(profile);
+    if (bodyError) {
+      return c.json({ error: bodyError }, 400);
+    }
+
+    if (profile.mealSlots !== undefined) {
+      const slotsError = validateMealSlotsInput(profile.mealSlots);
+      if (slotsError) {
+        return c.json({ error: slotsError }, 400);
+      }
+    }
+
+    if (profile.restDays !== undefined) {
+      const restDaysError = validateRestDaysInput(profile.restDays);
+      if (restDaysError) {
+        return c.json({ error: restDaysError }, 400);
+      }
+    }
+
+    if (profile.guideline !== undefined && !isGuidelineId(profile.guideline)) {
+      return c.json({ error: `guideline must be one of: ${GUIDELINE_IDS.join(", ")}` }, 400);
+    }
+
+    if (profile.lifeStage !== undefined) {
+      const lifeStageError = validateLifeStageInput(profile.lifeStage, profile.trimester);
+      if (lifeStageError) {
+        return c.json({ error: lifeStageError }, 400);
+      }
+    }
+
+    if (profile.language !== undefined && !isLanguage(profile.language)) {
+      return c.json({ error: `language must be one of: ${LANGUAGES.join(", ")}` }, 400);
+    }
+
+    if (profile.units !== undefined) {
+      const unitsError = validateUnitsInput(profile.units);
+      if (unitsError) {
+        return c.json({ error: unitsError }, 400);
+      }
+    }
+
     // Get existing user data to preserve email and name
     const existingUser = await kv.get(`user:${userId}`);
     
     // Store user profile
-    await kv.set(`user:${userId}`, {
+    const updatedUser = {
       ...(existingUser || {}),
       ...profile,
       userId,
       updatedAt: new Date().toISOString(),
-    });
+    };
+    await kv.set(`user:${userId}`, updatedUser);
+    await addToUserIndex(userId);
 
     // Initialize daily tracking for today
-    const today = new Date().toISOString().split('T')[0];
+    const today = getUserToday(updatedUser);
+
+    // A changed weight goes to the weight log, so past days keep the weight they had
+    if (profile.weight !== undefined && profile.weight !== existingUser?.weight) {
+      await logWeight(userId, existingUser, today, profile.weight);
+    }
+    await recordGoals(userId, updatedUser, existingUser);
+
     const existingDaily = await kv.get(`daily:${userId}:${today}`);
     
     if (!existingDaily) {
-      await kv.set(`daily:${userId}:${today}`, {
-        date: today,
-        waterGlasses: 0,
-        meals: [],
-        totalProtein: 0,
-        totalFiber: 0,
-      });
+      await kv.set(`daily:${userId}:${today}`, createDailyRecord(today));
     }
 
-    return c.json({ success: true, userId });
+    // The stored profile, so the app picks up fields it did not send (e.g. the signup day schedule)
+    return c.json({ success: true, userId, user: updatedUser });
   } catch (error) {
     console.log("Error creating/updating user profile:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -241,8 +677,8 @@ app.post("/make-server-7e221a31/users/profile", async (c) => {
   }
 });
 
-// Get user profile
-app.get("/make-server-7e221a31/users/:userId", async (c) => {
+// Get user profile (requires auth)
+app.get("/make-server-7e221a31/users/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
     console.log("Getting user profile for userId:", userId);
@@ -267,45 +703,154 @@ app.get("/make-server-7e221a31/users/:userId", async (c) => {
   }
 });
 
+// Update the user's own goal overrides (requires auth)
+// Body: { goalOverrides: { protein?, fiber?, waterMl?, calories?, carbs?, fat?, addedSugar?, sodium? } }
+// Replaces the previous overrides; {} goes back to the computed goals. Fails while a coach has them locked.
+app.put("/make-server-7e221a31/users/:userId/goals", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const { goalOverrides } = await c.req.json();
+
+    const overridesError = validateGoalOverridesInput(goalOverrides);
+    if (overridesError) {
+      return c.json({ error: overridesError }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (user.goalsLock) {
+      return c.json({ error: `Goals are locked by ${user.goalsLock.lockedBy}` }, 403);
+    }
+
+    const updatedUser = { ...user, goalOverrides, updatedAt: new Date().toISOString() };
+    await kv.set(`user:${userId}`, updatedUser);
+    await recordGoals(userId, updatedUser, user);
+
+    return c.json({ goalOverrides, goals: getDailyGoals(updatedUser) });
+  } catch (error) {
+    console.log("Error updating goal overrides:", error);
+    return c.json({ error: "Failed to update goal overrides" }, 500);
+  }
+});
+
+// Set a user's goal overrides on behalf of their coach or clinician (not called by the app)
+// Header: X-Coach-Secret must match the COACH_SECRET environment variable.
+// Body: { goalOverrides: {...}, locked: boolean, coach: string }. While locked, the user cannot edit them.
+app.put("/make-server-7e221a31/coach/goals/:userId", async (c) => {
+  const coachSecret = Deno.env.get('COACH_SECRET');
+  if (!coachSecret) {
+    console.log("coach/goals: COACH_SECRET is not configured");
+    return c.json({ error: "Coach access is not configured" }, 503);
+  }
+  if (c.req.header('X-Coach-Secret') !== coachSecret) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const userId = c.req.param("userId");
+    const { goalOverrides, locked = false, coach } = await c.req.json();
+
+    const overridesError = validateGoalOverridesInput(goalOverrides);
+    if (overridesError) {
+      return c.json({ error: overridesError }, 400);
+    }
+    if (typeof locked !== "boolean") {
+      return c.json({ error: "locked must be a boolean" }, 400);
+    }
+    if (typeof coach !== "string" || !coach.trim()) {
+      return c.json({ error: "coach is required" }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    const now = new Date().toISOString();
+    const updatedUser = {
+      ...user,
+      goalOverrides,
+      goalsLock: locked ? { lockedBy: coach.trim(), lockedAt: now } : undefined,
+      updatedAt: now,
+    };
+    await kv.set(`user:${userId}`, updatedUser);
+    await recordGoals(userId, updatedUser, user);
+
+    return c.json({ goalOverrides, goalsLock: updatedUser.goalsLock ?? null, goals: getDailyGoals(updatedUser) });
+  } catch (error) {
+    console.log("Error setting coach goal overrides:", error);
+    return c.json({ error: "Failed to set goal overrides" }, 500);
+  }
+});
+
 // Hydration Endpoints
 
-// Add water consumption
-app.post("/make-server-7e221a31/hydration/:userId", async (c) => {
+// Add water consumption as a log entry (requires auth)
+// Body: { volumeMl?: number, beverage?: "water" | "sparkling" | "tea" | "coffee" }
+// The legacy { glasses } body is still accepted and stored as glasses * 250 ml of water.
+// Query: ?date=YYYY-MM-DD (defaults to today) to log a previous day during its grace window.
+app.post("/make-server-7e221a31/hydration/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
     const body = await c.req.json();
-    const { glasses = 1 } = body;
+    const { glasses, beverage = "water" } = body;
+    const volumeMl = body.volumeMl ?? (glasses ?? 1) * GLASS_ML;
 
-    const today = new Date().toISOString().split('T')[0];
-    const key = `daily:${userId}:${today}`;
+    const validationError = validateWaterInput(volumeMl, beverage);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    const today = getUserToday(user);
+    const date = c.req.query("date") || today;
+    const dateError = validateLogDate(date, user);
+    if (dateError) {
+      return c.json({ error: dateError }, 400);
+    }
+    const key = `daily:${userId}:${date}`;
     
     // Get current daily data
     let dailyData = await kv.get(key);
     
     if (!dailyData) {
-      dailyData = {
-        date: today,
-        waterGlasses: 0,
-        meals: [],
-        totalProtein: 0,
-        totalFiber: 0,
-      };
+      dailyData = createDailyRecord(date);
     }
 
-    // Update water consumption
-    dailyData.waterGlasses = (dailyData.waterGlasses || 0) + glasses;
-    dailyData.lastUpdated = new Date().toISOString();
+    // Append the entry and derive the totals from the log
+    const entry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      volumeMl,
+      beverage,
+      coefficient: BEVERAGES[beverage].coefficient,
+    };
+    ensureWaterEntries(dailyData);
+    dailyData.waterEntries.push(entry);
+    recalculateWater(dailyData);
+    dailyData.lastUpdated = entry.timestamp;
 
     await kv.set(key, dailyData);
 
     // Attempt to insert a notification row into the Postgres notifications table
     // so a Database Webhook can trigger server-side push delivery.
     try {
+      const text = HYDRATION_NOTIFICATION[getLanguage(user)];
+      const units = getUserUnits(user);
       const notif = {
         user_id: userId,
-        title: 'Hidratación registrada',
-        body: `¡Has registrado ${glasses} vaso(s) de agua! Llevas ${dailyData.waterGlasses} hoy.`,
-        data: { waterGlasses: dailyData.waterGlasses },
+        title: text.title,
+        body: text.body({
+          volume: toDisplayVolume(volumeMl, units),
+          volumeUnit: volumeUnit(units),
+          beverage,
+          containers: toContainers(dailyData.waterMl, units),
+          container: units.container,
+          date: date === today ? null : date,
+        }),
+        data: { waterGlasses: dailyData.waterGlasses, entryId: entry.id },
         created_at: new Date().toISOString(),
       } as any;
 
@@ -319,7 +864,12 @@ app.post("/make-server-7e221a31/hydration/:userId", async (c) => {
       console.error('Exception while inserting notification row:', insertError);
     }
 
-    return c.json({ success: true, waterGlasses: dailyData.waterGlasses });
+    return c.json({
+      success: true,
+      entry,
+      waterGlasses: dailyData.waterGlasses,
+      waterMl: dailyData.waterMl,
+    });
   } catch (error) {
     console.log("Error adding water consumption:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -327,8 +877,100 @@ app.post("/make-server-7e221a31/hydration/:userId", async (c) => {
   }
 });
 
-// Get hydration data for a specific date
-app.get("/make-server-7e221a31/hydration/:userId/:date", async (c) => {
+// Edit a water entry (requires auth)
+// Body: { volumeMl?, beverage? }. Query: ?date=YYYY-MM-DD (defaults to today; earlier days only during their grace window)
+app.patch("/make-server-7e221a31/hydration/:userId/entries/:entryId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const entryId = c.req.param("entryId");
+    const { volumeMl, beverage } = await c.req.json();
+
+    const validationError = validateWaterInput(volumeMl, beverage);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    const date = c.req.query("date") || getUserToday(user);
+    const dateError = validateLogDate(date, user);
+    if (dateError) {
+      return c.json({ error: dateError }, 400);
+    }
+    const key = `daily:${userId}:${date}`;
+    const dailyData = await kv.get(key);
+
+    const entry = dailyData && ensureWaterEntries(dailyData).waterEntries.find((e: any) => e.id === entryId);
+    if (!entry) {
+      return c.json({ error: "Water entry not found" }, 404);
+    }
+
+    if (volumeMl !== undefined) entry.volumeMl = volumeMl;
+    if (beverage !== undefined) {
+      entry.beverage = beverage;
+      entry.coefficient = BEVERAGES[beverage].coefficient;
+    }
+    recalculateWater(dailyData);
+    dailyData.lastUpdated = new Date().toISOString();
+
+    await kv.set(key, dailyData);
+
+    return c.json({
+      success: true,
+      entry,
+      waterGlasses: dailyData.waterGlasses,
+      waterMl: dailyData.waterMl,
+    });
+  } catch (error) {
+    console.log("Error updating water entry:", error);
+    return c.json({ error: "Failed to update water entry" }, 500);
+  }
+});
+
+// Remove a water entry, e.g. to undo an accidental tap (requires auth)
+// Query: ?date=YYYY-MM-DD (defaults to today; earlier days only during their grace window)
+app.delete("/make-server-7e221a31/hydration/:userId/entries/:entryId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const entryId = c.req.param("entryId");
+
+    const user = await kv.get(`user:${userId}`);
+    const date = c.req.query("date") || getUserToday(user);
+    const dateError = validateLogDate(date, user);
+    if (dateError) {
+      return c.json({ error: dateError }, 400);
+    }
+    const key = `daily:${userId}:${date}`;
+    const dailyData = await kv.get(key);
+
+    if (!dailyData) {
+      return c.json({ error: "Water entry not found" }, 404);
+    }
+
+    ensureWaterEntries(dailyData);
+    const remaining = dailyData.waterEntries.filter((e: any) => e.id !== entryId);
+    if (remaining.length === dailyData.waterEntries.length) {
+      return c.json({ error: "Water entry not found" }, 404);
+    }
+
+    dailyData.waterEntries = remaining;
+    recalculateWater(dailyData);
+    dailyData.lastUpdated = new Date().toISOString();
+
+    await kv.set(key, dailyData);
+
+    return c.json({
+      success: true,
+      waterGlasses: dailyData.waterGlasses,
+      waterMl: dailyData.waterMl,
+    });
+  } catch (error) {
+    console.log("Error deleting water entry:", error);
+    return c.json({ error: "Failed to delete water entry" }, 500);
+  }
+});
+
+// Get hydration data for a specific date (requires auth)
+app.get("/make-server-7e221a31/hydration/:userId/:date", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
     const date = c.req.param("date");
@@ -336,24 +978,18 @@ app.get("/make-server-7e221a31/hydration/:userId/:date", async (c) => {
     const dailyData = await kv.get(`daily:${userId}:${date}`);
 
     if (!dailyData) {
-      return c.json({ 
-        date,
-        waterGlasses: 0,
-        meals: [],
-        totalProtein: 0,
-        totalFiber: 0,
-      });
+      return c.json(createDailyRecord(date));
     }
 
-    return c.json({ data: dailyData });
+    return c.json({ data: normalizeDailyRecord(dailyData) });
   } catch (error) {
     console.log("Error fetching hydration data:", error);
     return c.json({ error: "Failed to fetch hydration data" }, 500);
   }
 });
 
-// Get hydration history (last N days)
-app.get("/make-server-7e221a31/hydration/:userId", async (c) => {
+// Get hydration history (last N days) (requires auth)
+app.get("/make-server-7e221a31/hydration/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
     const days = parseInt(c.req.query("days") || "7");
@@ -363,7 +999,8 @@ app.get("/make-server-7e221a31/hydration/:userId", async (c) => {
     // Sort by date descending and take last N days
     const sortedData = allKeys
       .sort((a, b) => b.date.localeCompare(a.date))
-      .slice(0, days);
+      .slice(0, days)
+      .map(normalizeDailyRecord);
 
     return c.json({ history: sortedData });
   } catch (error) {
@@ -372,210 +1009,1077 @@ app.get("/make-server-7e221a31/hydration/:userId", async (c) => {
   }
 });
 
-// Nutrition Endpoints
+// Day Conditions Endpoints (workouts and heat raise that day's water goal)
+
+// Water goal of a daily record, raised by its workouts and temperature
+function getRecordWaterGoal(dailyData: any, userProfile: any) {
+  return getDayWaterGoal(getDailyGoals(userProfile), {
+    workouts: dailyData.workouts || [],
+    temperatureC: dailyData.temperatureC ?? null,
+  });
+}
 
-// Add meal
-app.post("/make-server-7e221a31/nutrition/:userId", async (c) => {
+// Log a workout for today (requires auth)
+// Body: { durationMin: number, intensity: "light" | "moderate" | "vigorous" }
+app.post("/make-server-7e221a31/workouts/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
-    const body = await c.req.json();
-    const { meal } = body;
+    const { durationMin, intensity } = await c.req.json();
 
-    if (!meal) {
-      return c.json({ error: "meal data is required" }, 400);
+    const validationError = validateWorkoutInput(durationMin, intensity);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+    const today = getUserToday(user);
     const key = `daily:${userId}:${today}`;
-    
-    // Get current daily data
-    let dailyData = await kv.get(key);
-    
-    if (!dailyData) {
-      dailyData = {
-        date: today,
-        waterGlasses: 0,
-        meals: [],
-        totalProtein: 0,
-        totalFiber: 0,
-      };
-    }
-
-    // Add meal
-    dailyData.meals = dailyData.meals || [];
-    dailyData.meals.push({
-      ...meal,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Update totals
-    dailyData.totalProtein = dailyData.meals.reduce((sum, m) => sum + (m.protein || 0), 0);
-    dailyData.totalFiber = dailyData.meals.reduce((sum, m) => sum + (m.fiber || 0), 0);
-    dailyData.lastUpdated = new Date().toISOString();
+    const dailyData = (await kv.get(key)) || createDailyRecord(today);
 
+    const workout = { id: crypto.randomUUID(), durationMin, intensity, createdAt: new Date().toISOString() };
+    dailyData.workouts = [...(dailyData.workouts || []), workout];
+    dailyData.lastUpdated = workout.createdAt;
     await kv.set(key, dailyData);
 
-    return c.json({ 
-      success: true, 
-      totalProtein: dailyData.totalProtein,
-      totalFiber: dailyData.totalFiber,
-    });
+    return c.json({ workout, waterGoal: getRecordWaterGoal(dailyData, user) });
   } catch (error) {
-    console.log("Error adding meal:", error);
-    return c.json({ error: "Failed to add meal" }, 500);
+    console.log("Error logging workout:", error);
+    return c.json({ error: "Failed to log workout" }, 500);
   }
 });
 
-// Helper function to calculate if day was balanced
-function isDayBalanced(dailyData: any, userProfile: any): boolean {
-  if (!dailyData || !userProfile) return false;
-  
-  // Calculate nutritional needs
-  let proteinMultiplier = 1.0;
-  if (userProfile.activityLevel === "light") proteinMultiplier = 1.2;
-  if (userProfile.activityLevel === "moderate") proteinMultiplier = 1.4;
-  if (userProfile.activityLevel === "very") proteinMultiplier = 1.6;
-  
-  const dailyProtein = Math.round(userProfile.weight * proteinMultiplier);
-  
-  let dailyFiber = 25;
-  if (userProfile.gender === "male") {
-    dailyFiber = userProfile.age < 50 ? 38 : 30;
-  } else {
-    dailyFiber = userProfile.age < 50 ? 25 : 21;
+// Remove one of today's workouts (requires auth)
+app.delete("/make-server-7e221a31/workouts/:userId/:workoutId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const workoutId = c.req.param("workoutId");
+
+    const user = await kv.get(`user:${userId}`);
+    const key = `daily:${userId}:${getUserToday(user)}`;
+    const dailyData = await kv.get(key);
+
+    const workouts = dailyData?.workouts || [];
+    const remaining = workouts.filter((w: any) => w.id !== workoutId);
+    if (remaining.length === workouts.length) {
+      return c.json({ error: "Workout not found" }, 404);
+    }
+
+    dailyData.workouts = remaining;
+    dailyData.lastUpdated = new Date().toISOString();
+    await kv.set(key, dailyData);
+
+    return c.json({ success: true, waterGoal: getRecordWaterGoal(dailyData, user) });
+  } catch (error) {
+    console.log("Error deleting workout:", error);
+    return c.json({ error: "Failed to delete workout" }, 500);
   }
-  
-  // Check if 80% threshold met
-  const proteinMet = (dailyData.totalProtein || 0) >= dailyProtein * 0.8;
-  const fiberMet = (dailyData.totalFiber || 0) >= dailyFiber * 0.8;
-  
-  return proteinMet && fiberMet;
-}
+});
 
-// Helper function to update streak
-async function updateStreak(userId: string, date: string, isBalanced: boolean) {
+// Set today's temperature, entered by hand (requires auth)
+// Body: { temperatureC: number | null } — null clears it
+app.put("/make-server-7e221a31/temperature/:userId", requireAuth, async (c) => {
   try {
-    let streakData = await kv.get(`streak:${userId}`);
-    
-    if (!streakData) {
-      streakData = {
-        currentStreak: 0,
-        longestStreak: 0,
-        lastBalancedDate: null,
-      };
+    const userId = c.req.param("userId");
+    const { temperatureC } = await c.req.json();
+
+    if (temperatureC !== null && (typeof temperatureC !== "number" || temperatureC < -30 || temperatureC > 60)) {
+      return c.json({ error: "temperatureC must be null or a number between -30 and 60" }, 400);
     }
-    
-    if (isBalanced) {
-      const lastDate = streakData.lastBalancedDate;
-      
-      if (!lastDate) {
-        // First balanced day
-        streakData.currentStreak = 1;
-        streakData.longestStreak = Math.max(1, streakData.longestStreak || 0);
-        streakData.lastBalancedDate = date;
-      } else {
-        // Check if consecutive day
-        const lastDateTime = new Date(lastDate).getTime();
-        const currentDateTime = new Date(date).getTime();
-        const daysDiff = Math.floor((currentDateTime - lastDateTime) / (1000 * 60 * 60 * 24));
-        
-        if (daysDiff === 1) {
-          // Consecutive day
-          streakData.currentStreak += 1;
-          streakData.longestStreak = Math.max(streakData.currentStreak, streakData.longestStreak || 0);
-          streakData.lastBalancedDate = date;
-        } else if (daysDiff > 1) {
-          // Streak broken
-          streakData.currentStreak = 1;
-          streakData.lastBalancedDate = date;
-        }
-        // If daysDiff === 0, same day, don't change anything
-      }
-    } else {
-      // Day not balanced - check if streak should be broken
-      const lastDate = streakData.lastBalancedDate;
-      if (lastDate) {
-        const lastDateTime = new Date(lastDate).getTime();
-        const currentDateTime = new Date(date).getTime();
-        const daysDiff = Math.floor((currentDateTime - lastDateTime) / (1000 * 60 * 60 * 24));
-        
-        if (daysDiff > 1) {
-          // More than one day gap - streak broken
-          streakData.currentStreak = 0;
-        }
-      }
+
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
     }
-    
-    await kv.set(`streak:${userId}`, streakData);
-    return streakData;
+    const today = getUserToday(user);
+    const key = `daily:${userId}:${today}`;
+    const dailyData = (await kv.get(key)) || createDailyRecord(today);
+
+    dailyData.temperatureC = temperatureC;
+    dailyData.lastUpdated = new Date().toISOString();
+    await kv.set(key, dailyData);
+
+    return c.json({ temperatureC, waterGoal: getRecordWaterGoal(dailyData, user) });
   } catch (error) {
-    console.log("Error updating streak:", error);
-    return null;
+    console.log("Error setting temperature:", error);
+    return c.json({ error: "Failed to set temperature" }, 500);
   }
+});
+
+// History Endpoints
+
+const MAX_RANGE_DAYS = 366;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate an inclusive from/to date range. Returns an error message or null.
+function validateDateRange(from: string, to: string): string | null {
+  if (!DATE_KEY.test(from) || !DATE_KEY.test(to)) {
+    return "from and to must be dates (YYYY-MM-DD)";
+  }
+  const dayCount = daysBetween(from, to) + 1;
+  if (dayCount < 1 || dayCount > MAX_RANGE_DAYS) {
+    return `from must be before to, with at most ${MAX_RANGE_DAYS} days`;
+  }
+  return null;
+}
+
+// Normalized daily records between two dates (inclusive), oldest first.
+// Days without a stored record are skipped.
+async function getDailyRecords(userId: string, from: string, to: string) {
+  const keys = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => `daily:${userId}:${addDays(from, i)}`);
+  const records = await kv.mget(keys);
+  return records
+    .filter(Boolean)
+    .map(normalizeDailyRecord)
+    .sort((a: any, b: any) => a.date.localeCompare(b.date));
 }
 
-// Get today's summary
-app.get("/make-server-7e221a31/summary/:userId", async (c) => {
+// Daily records in a date range, oldest first (requires auth)
+// Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (to defaults to today, from to 13 days before to).
+// Only days with a stored record are returned.
+app.get("/make-server-7e221a31/history/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
-    const today = new Date().toISOString().split('T')[0];
-    console.log(`Getting summary for user ${userId} on ${today}`);
+    const user = await kv.get(`user:${userId}`);
+    const to = c.req.query("to") || getUserToday(user);
+    const from = c.req.query("from") || addDays(to, -13);
+
+    const rangeError = validateDateRange(from, to);
+    if (rangeError) {
+      return c.json({ error: rangeError }, 400);
+    }
+
+    const records = await getDailyRecords(userId, from, to);
+    const goalsOn = await loadGoalsOn(userId, user);
+    const days = records.map((day: any) => {
+      const goals = goalsOn(day.date);
+      return { ...day, isBalanced: wasDayBalanced(day, goals), goals };
+    });
+
+    return c.json({ from, to, days });
+  } catch (error) {
+    console.log("Error fetching history:", error);
+    return c.json({ error: "Failed to fetch history" }, 500);
+  }
+});
+
+// Weight Log Endpoints
+
+function createWeightEntry(date: string, weight: number) {
+  return { date, weight, updatedAt: new Date().toISOString() };
+}
+
+// Weight log entries (one per date), oldest first
+async function getWeightLog(userId: string): Promise<any[]> {
+  const entries = await kv.getByPrefix(`weight:${userId}:`);
+  return entries.sort((a: any, b: any) => a.date.localeCompare(b.date));
+}
+
+// The profile with the weight in force on `date`: the last entry on or before it.
+// Dates before the first entry use the first one; without entries, the profile weight.
+function withWeightOn(user: any, weights: any[], date: string) {
+  if (weights.length === 0) return user;
+  const entry = [...weights].reverse().find((w) => w.date <= date) ?? weights[0];
+  return { ...user, weight: entry.weight };
+}
+
+// Save the weight of a day. The first entry of a profile that already had a weight
+// also records that weight: today for a backdated entry, so it stays the current
+// weight, or the day before for today's entry, so earlier days keep it.
+// Returns the saved entry and the updated log.
+async function logWeight(userId: string, user: any, date: string, weight: number) {
+  const weights = await getWeightLog(userId);
+  if (weights.length === 0 && typeof user?.weight === "number" && user.weight !== weight) {
+    const today = getUserToday(user);
+    const previous = createWeightEntry(date < today ? today : addDays(date, -1), user.weight);
+    await kv.set(`weight:${userId}:${previous.date}`, previous);
+    weights.push(previous);
+  }
+
+  const entry = createWeightEntry(date, weight);
+  await kv.set(`weight:${userId}:${date}`, entry);
+  const updated = [...weights.filter((w) => w.date !== date), entry].sort((a, b) => a.date.localeCompare(b.date));
+  return { entry, weights: updated };
+}
+
+// Keep the profile weight (and so today's goals) on the latest entry
+async function syncProfileWeight(userId: string, user: any, weights: any[]) {
+  const latest = weights[weights.length - 1];
+  if (!latest || latest.weight === user.weight) return user;
+  const updatedUser = { ...user, weight: latest.weight, updatedAt: new Date().toISOString() };
+  await kv.set(`user:${userId}`, updatedUser);
+  await recordGoals(userId, updatedUser, user);
+  return updatedUser;
+}
+
+// Weight log, oldest first (requires auth)
+app.get("/make-server-7e221a31/weights/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    return c.json({ entries: await getWeightLog(userId) });
+  } catch (error) {
+    console.log("Error fetching weight log:", error);
+    return c.json({ error: "Failed to fetch weight log" }, 500);
+  }
+});
+
+// Log the weight of a day, replacing that day's entry (requires auth)
+// Body: { weight: number } — kg. The date can be today or any earlier day.
+app.put("/make-server-7e221a31/weights/:userId/:date", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const date = c.req.param("date");
+    const { weight } = await c.req.json();
+
+    const { min, max } = PROFILE_LIMITS.weight;
+    if (typeof weight !== "number" || !(weight >= min && weight <= max)) {
+      return c.json({ error: `weight must be a number between ${min} and ${max}` }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (!DATE_KEY.test(date) || date > getUserToday(user)) {
+      return c.json({ error: "date must be YYYY-MM-DD, today or earlier" }, 400);
+    }
+
+    // Only the latest entry moves the profile weight; a backdated one never replaces a newer weight
+    const { entry, weights } = await logWeight(userId, user, date, weight);
+    const updatedUser = weights[weights.length - 1] === entry ? await syncProfileWeight(userId, user, weights) : user;
+
+    return c.json({ entry, weight: updatedUser.weight });
+  } catch (error) {
+    console.log("Error logging weight:", error);
+    return c.json({ error: "Failed to log weight" }, 500);
+  }
+});
+
+// Delete the weight entry of a day (requires auth). The profile weight moves
+// to the latest remaining entry.
+app.delete("/make-server-7e221a31/weights/:userId/:date", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const date = c.req.param("date");
+    const key = `weight:${userId}:${date}`;
+
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (!(await kv.get(key))) {
+      return c.json({ error: "Weight entry not found" }, 404);
+    }
+
+    await kv.del(key);
+    const weights = (await getWeightLog(userId)).filter((entry) => entry.date !== date);
+    const updatedUser = await syncProfileWeight(userId, user, weights);
+
+    return c.json({ success: true, weight: updatedUser.weight });
+  } catch (error) {
+    console.log("Error deleting weight entry:", error);
+    return c.json({ error: "Failed to delete weight entry" }, 500);
+  }
+});
+
+// Nutrition Endpoints
+
+// Create a meal with a server-generated id (requires auth)
+// Body: { meal: { type, protein, fiber, calories?, carbs?, fat?, addedSugar?, sodium? } }
+app.post("/make-server-7e221a31/nutrition/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const body = await c.req.json();
+    const { meal } = body;
+
+    if (!meal) {
+      return c.json({ error: "meal data is required" }, 400);
+    }
+
+    const validationError = validateMealInput(meal);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    const today = getUserToday(user);
+    const key = `daily:${userId}:${today}`;
     
+    // Get current daily data
+    let dailyData = await kv.get(key);
+    
+    if (!dailyData) {
+      dailyData = createDailyRecord(today);
+    }
+
+    const savedMeal = upsertMeal(dailyData, crypto.randomUUID(), meal);
+    await kv.set(key, dailyData);
+
+    return c.json({ 
+      success: true, 
+      meal: savedMeal,
+      ...nutritionTotals(dailyData),
+    });
+  } catch (error) {
+    console.log("Error adding meal:", error);
+    return c.json({ error: "Failed to add meal" }, 500);
+  }
+});
+
+// Create or replace a meal by id (requires auth)
+// Body: { meal: { type, protein, fiber, calories?, carbs?, fat?, addedSugar?, sodium? } }
+// Query: ?date=YYYY-MM-DD (defaults to today; earlier days only during their grace window)
+// The client generates the id, so retried or repeated writes stay idempotent.
+app.put("/make-server-7e221a31/nutrition/:userId/meals/:mealId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const mealId = c.req.param("mealId");
+    const { meal } = await c.req.json();
+
+    if (!meal) {
+      return c.json({ error: "meal data is required" }, 400);
+    }
+
+    const validationError = validateMealInput(meal);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
     const user = await kv.get(`user:${userId}`);
-    let dailyData = await kv.get(`daily:${userId}:${today}`);
-    const streakData = await kv.get(`streak:${userId}`) || {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastBalancedDate: null,
+    const date = c.req.query("date") || getUserToday(user);
+    const dateError = validateLogDate(date, user);
+    if (dateError) {
+      return c.json({ error: dateError }, 400);
+    }
+    const key = `daily:${userId}:${date}`;
+    const dailyData = (await kv.get(key)) || createDailyRecord(date);
+
+    const savedMeal = upsertMeal(dailyData, mealId, meal);
+    await kv.set(key, dailyData);
+
+    return c.json({
+      success: true,
+      meal: savedMeal,
+      ...nutritionTotals(dailyData),
+    });
+  } catch (error) {
+    console.log("Error saving meal:", error);
+    return c.json({ error: "Failed to save meal" }, 500);
+  }
+});
+
+// Delete a meal by id (requires auth)
+// Query: ?date=YYYY-MM-DD (defaults to today; earlier days only during their grace window)
+app.delete("/make-server-7e221a31/nutrition/:userId/meals/:mealId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const mealId = c.req.param("mealId");
+
+    const user = await kv.get(`user:${userId}`);
+    const date = c.req.query("date") || getUserToday(user);
+    const dateError = validateLogDate(date, user);
+    if (dateError) {
+      return c.json({ error: dateError }, 400);
+    }
+    const key = `daily:${userId}:${date}`;
+    const dailyData = await kv.get(key);
+
+    if (!dailyData) {
+      return c.json({ error: "Meal not found" }, 404);
+    }
+
+    normalizeMeals(dailyData);
+    const remaining = dailyData.meals.filter((m: any) => m.id !== mealId);
+    if (remaining.length === dailyData.meals.length) {
+      return c.json({ error: "Meal not found" }, 404);
+    }
+
+    dailyData.meals = remaining;
+    recalculateNutrition(dailyData);
+    dailyData.lastUpdated = new Date().toISOString();
+
+    await kv.set(key, dailyData);
+
+    return c.json({
+      success: true,
+      ...nutritionTotals(dailyData),
+    });
+  } catch (error) {
+    console.log("Error deleting meal:", error);
+    return c.json({ error: "Failed to delete meal" }, 500);
+  }
+});
+
+// Copy a meal slot from a previous day into today (requires auth)
+// Body: { type, fromDate? } (fromDate defaults to yesterday). Replaces today's meal of that type.
+app.post("/make-server-7e221a31/nutrition/:userId/meals/repeat", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const { type, fromDate } = await c.req.json();
+
+    if (typeof type !== "string" || !MEAL_SLOT_ID.test(type)) {
+      return c.json({ error: "type must be a meal slot id" }, 400);
+    }
+
+    const user = await kv.get(`user:${userId}`);
+    const today = getUserToday(user);
+    const sourceDate = fromDate || addDays(today, -1);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(sourceDate) || sourceDate >= today) {
+      return c.json({ error: "fromDate must be a past date (YYYY-MM-DD)" }, 400);
+    }
+
+    const sourceData = await kv.get(`daily:${userId}:${sourceDate}`);
+    const sourceMeal = sourceData && normalizeDailyRecord(sourceData).meals.find((m: any) => m.type === type);
+    if (!sourceMeal) {
+      return c.json({ error: `No ${type} logged on ${sourceDate}` }, 404);
+    }
+
+    const key = `daily:${userId}:${today}`;
+    const dailyData = (await kv.get(key)) || createDailyRecord(today);
+    normalizeMeals(dailyData);
+    const todayMeal = dailyData.meals.find((m: any) => m.type === type);
+
+    // upsertMeal only copies the type and nutrient fields, so the source id and timestamps are dropped
+    const savedMeal = upsertMeal(dailyData, todayMeal?.id || crypto.randomUUID(), sourceMeal);
+    await kv.set(key, dailyData);
+
+    return c.json({
+      success: true,
+      meal: savedMeal,
+      ...nutritionTotals(dailyData),
+    });
+  } catch (error) {
+    console.log("Error repeating meal:", error);
+    return c.json({ error: "Failed to repeat meal" }, 500);
+  }
+});
+
+// Meal Template Endpoints
+
+const MAX_MEAL_TEMPLATES = 50;
+
+// List the user's saved meal templates (favorites) (requires auth)
+app.get("/make-server-7e221a31/templates/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const templates = await kv.getByPrefix(`template:${userId}:`);
+
+    return c.json({
+      templates: templates.sort((a: any, b: any) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.log("Error fetching meal templates:", error);
+    return c.json({ error: "Failed to fetch meal templates" }, 500);
+  }
+});
+
+// Save a meal as a template (requires auth)
+// Body: { template: { name, type?, meal: { protein, fiber, calories?, ... } } }
+app.post("/make-server-7e221a31/templates/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const { template } = await c.req.json();
+
+    if (!template) {
+      return c.json({ error: "template data is required" }, 400);
+    }
+    if (typeof template.name !== "string" || !template.name.trim() || template.name.length > 40) {
+      return c.json({ error: "template.name must be a non-empty string of up to 40 characters" }, 400);
+    }
+    if (template.type !== undefined && (typeof template.type !== "string" || !MEAL_SLOT_ID.test(template.type))) {
+      return c.json({ error: "template.type must be a meal slot id" }, 400);
+    }
+    const nutrientsError = validateNutrients(template.meal, "template.meal");
+    if (nutrientsError) {
+      return c.json({ error: nutrientsError }, 400);
+    }
+
+    const existing = await kv.getByPrefix(`template:${userId}:`);
+    if (existing.length >= MAX_MEAL_TEMPLATES) {
+      return c.json({ error: `You can save up to ${MAX_MEAL_TEMPLATES} favorite meals` }, 400);
+    }
+
+    const savedTemplate = {
+      id: crypto.randomUUID(),
+      name: template.name.trim(),
+      type: template.type,
+      meal: Object.fromEntries(
+        Object.keys(NUTRIENTS)
+          .filter((nutrient) => typeof template.meal[nutrient] === "number")
+          .map((nutrient) => [nutrient, template.meal[nutrient]])
+      ),
+      createdAt: new Date().toISOString(),
     };
+    await kv.set(`template:${userId}:${savedTemplate.id}`, savedTemplate);
+
+    return c.json({ success: true, template: savedTemplate });
+  } catch (error) {
+    console.log("Error saving meal template:", error);
+    return c.json({ error: "Failed to save meal template" }, 500);
+  }
+});
+
+// Delete a meal template (requires auth)
+app.delete("/make-server-7e221a31/templates/:userId/:templateId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const templateId = c.req.param("templateId");
+    const key = `template:${userId}:${templateId}`;
+
+    if (!(await kv.get(key))) {
+      return c.json({ error: "Template not found" }, 404);
+    }
+
+    await kv.del(key);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting meal template:", error);
+    return c.json({ error: "Failed to delete meal template" }, 500);
+  }
+});
+
+// Custom Food Endpoints
 
-    console.log("Summary data:", { hasUser: !!user, dailyData, streakData });
+const MAX_CUSTOM_FOODS = 200;
+
+// Validate a custom food payload: a name, a portion label and the nutrients of one portion
+function validateCustomFoodInput(food: any): string | null {
+  if (typeof food.name !== "string" || !food.name.trim() || food.name.length > 60) {
+    return "food.name must be a non-empty string of up to 60 characters";
+  }
+  if (typeof food.portionLabel !== "string" || !food.portionLabel.trim() || food.portionLabel.length > 40) {
+    return "food.portionLabel must be a non-empty string of up to 40 characters";
+  }
+  return validateNutrients(food.nutrients, "food.nutrients");
+}
+
+// List the user's custom foods (requires auth)
+app.get("/make-server-7e221a31/foods/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const foods = await kv.getByPrefix(`food:${userId}:`);
+
+    return c.json({
+      foods: foods.sort((a: any, b: any) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.log("Error fetching custom foods:", error);
+    return c.json({ error: "Failed to fetch custom foods" }, 500);
+  }
+});
+
+// Create a custom food (requires auth)
+// Body: { food: { name, portionLabel, nutrients: { protein, fiber, calories, carbs, fat, addedSugar, sodium } } }
+app.post("/make-server-7e221a31/foods/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const { food } = await c.req.json();
+
+    if (!food) {
+      return c.json({ error: "food data is required" }, 400);
+    }
+
+    const validationError = validateCustomFoodInput(food);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const existing = await kv.getByPrefix(`food:${userId}:`);
+    if (existing.length >= MAX_CUSTOM_FOODS) {
+      return c.json({ error: `You can save up to ${MAX_CUSTOM_FOODS} custom foods` }, 400);
+    }
+
+    const savedFood = {
+      id: crypto.randomUUID(),
+      name: food.name.trim(),
+      portionLabel: food.portionLabel.trim(),
+      nutrients: Object.fromEntries(
+        Object.keys(NUTRIENTS).map((nutrient) => [nutrient, food.nutrients[nutrient] || 0])
+      ),
+      createdAt: new Date().toISOString(),
+    };
+    await kv.set(`food:${userId}:${savedFood.id}`, savedFood);
+
+    return c.json({ success: true, food: savedFood });
+  } catch (error) {
+    console.log("Error creating custom food:", error);
+    return c.json({ error: "Failed to create custom food" }, 500);
+  }
+});
+
+// Delete a custom food (requires auth)
+app.delete("/make-server-7e221a31/foods/:userId/:foodId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const foodId = c.req.param("foodId");
+    const key = `food:${userId}:${foodId}`;
+
+    if (!(await kv.get(key))) {
+      return c.json({ error: "Food not found" }, 404);
+    }
+
+    await kv.del(key);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting custom food:", error);
+    return c.json({ error: "Failed to delete custom food" }, 500);
+  }
+});
+
+// Recipe Endpoints
+
+const MAX_RECIPES = 100;
+const MAX_RECIPE_INGREDIENTS = 30;
+
+// Validate a recipe payload: name, servings and ingredients with per-portion nutrients
+function validateRecipeInput(recipe: any): string | null {
+  if (typeof recipe.name !== "string" || !recipe.name.trim() || recipe.name.length > 60) {
+    return "recipe.name must be a non-empty string of up to 60 characters";
+  }
+  if (typeof recipe.servings !== "number" || !(recipe.servings > 0) || recipe.servings > 50) {
+    return "recipe.servings must be a number between 1 and 50";
+  }
+  if (!Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0) {
+    return "recipe.ingredients must be a non-empty array";
+  }
+  if (recipe.ingredients.length > MAX_RECIPE_INGREDIENTS) {
+    return `A recipe can have up to ${MAX_RECIPE_INGREDIENTS} ingredients`;
+  }
+  for (const ingredient of recipe.ingredients) {
+    if (typeof ingredient?.name !== "string" || !ingredient.name.trim()) {
+      return "Each ingredient needs a name";
+    }
+    if (typeof ingredient.quantity !== "number" || !(ingredient.quantity > 0) || ingredient.quantity > 100) {
+      return `Ingredient ${ingredient.name} quantity must be a number between 0 and 100`;
+    }
+    const nutrientsError = validateNutrients(ingredient.nutrients, "ingredient.nutrients");
+    if (nutrientsError) return nutrientsError;
+  }
+  return null;
+}
+
+// Nutrients of one serving: ingredient totals divided by the number of servings
+function computeNutrientsPerServing(recipe: any) {
+  return Object.fromEntries(
+    Object.keys(NUTRIENTS).map((nutrient) => {
+      const total = recipe.ingredients.reduce(
+        (sum: number, ingredient: any) => sum + (ingredient.nutrients[nutrient] || 0) * ingredient.quantity,
+        0
+      );
+      return [nutrient, Math.round((total / recipe.servings) * 10) / 10];
+    })
+  );
+}
+
+// List the user's recipes (requires auth)
+app.get("/make-server-7e221a31/recipes/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const recipes = await kv.getByPrefix(`recipe:${userId}:`);
+
+    return c.json({
+      recipes: recipes.sort((a: any, b: any) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.log("Error fetching recipes:", error);
+    return c.json({ error: "Failed to fetch recipes" }, 500);
+  }
+});
+
+// Create or replace a recipe by id (requires auth)
+// Body: { recipe: { name, servings, ingredients: [{ id, name, portionLabel, quantity, nutrients }] } }
+app.put("/make-server-7e221a31/recipes/:userId/:recipeId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const recipeId = c.req.param("recipeId");
+    const { recipe } = await c.req.json();
+
+    if (!recipe) {
+      return c.json({ error: "recipe data is required" }, 400);
+    }
+
+    const validationError = validateRecipeInput(recipe);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const key = `recipe:${userId}:${recipeId}`;
+    const existing = await kv.get(key);
+    if (!existing) {
+      const recipes = await kv.getByPrefix(`recipe:${userId}:`);
+      if (recipes.length >= MAX_RECIPES) {
+        return c.json({ error: `You can save up to ${MAX_RECIPES} recipes` }, 400);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const ingredients = recipe.ingredients.map((ingredient: any) => ({
+      id: typeof ingredient.id === "string" ? ingredient.id : crypto.randomUUID(),
+      name: ingredient.name.trim(),
+      portionLabel: typeof ingredient.portionLabel === "string" ? ingredient.portionLabel : "",
+      quantity: ingredient.quantity,
+      nutrients: Object.fromEntries(
+        Object.keys(NUTRIENTS).map((nutrient) => [nutrient, ingredient.nutrients[nutrient] || 0])
+      ),
+    }));
+    const savedRecipe = {
+      id: recipeId,
+      name: recipe.name.trim(),
+      servings: recipe.servings,
+      ingredients,
+      nutrientsPerServing: computeNutrientsPerServing({ servings: recipe.servings, ingredients }),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await kv.set(key, savedRecipe);
+
+    return c.json({ success: true, recipe: savedRecipe });
+  } catch (error) {
+    console.log("Error saving recipe:", error);
+    return c.json({ error: "Failed to save recipe" }, 500);
+  }
+});
+
+// Delete a recipe (requires auth)
+app.delete("/make-server-7e221a31/recipes/:userId/:recipeId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const recipeId = c.req.param("recipeId");
+    const key = `recipe:${userId}:${recipeId}`;
+
+    if (!(await kv.get(key))) {
+      return c.json({ error: "Recipe not found" }, 404);
+    }
+
+    await kv.del(key);
+    return c.json({ success: true });
+  } catch (error) {
+    console.log("Error deleting recipe:", error);
+    return c.json({ error: "Failed to delete recipe" }, 500);
+  }
+});
+
+// Daily goals derived from the profile (shared with the app's calculateNutritionalNeeds)
+function getDailyGoals(userProfile: any) {
+  return calculateDailyNeeds(userProfile);
+}
+
+// Helper function to calculate if day was balanced, against the goals in force that day
+function isDayBalanced(dailyData: any, goals: any): boolean {
+  if (!dailyData || !goals) return false;
+
+  return isBalanced(
+    { protein: dailyData.totalProtein || 0, fiber: dailyData.totalFiber || 0 },
+    goals,
+    goals.balanceThreshold
+  );
+}
+
+// Balance of a stored day: finalized days keep the flag evaluated when they closed
+function wasDayBalanced(dailyData: any, goals: any): boolean {
+  return typeof dailyData.balanced === "boolean" ? dailyData.balanced : isDayBalanced(dailyData, goals);
+}
+
+// Goals History
+//
+// goals:{userId} holds snapshots of the computed goals, [{ from, goals }] oldest
+// first. A snapshot is recorded whenever a change to the profile, the overrides or
+// the weight changes the goals, and is in force from that day until the next one.
+// Past days are judged against the snapshot in force for them, so editing the
+// profile never re-judges them.
+
+// Whether a profile has what the goals are computed from
+function hasGoalInputs(user: any): boolean {
+  return !!(user?.weight && user?.height && user?.age);
+}
+
+async function getGoalsTimeline(userId: string): Promise<any[]> {
+  return (await kv.get(`goals:${userId}`)) || [];
+}
+
+// Record the current goals of the user as in force from today. Later changes on
+// the same day replace that day's snapshot. The first snapshot of a profile also
+// keeps the goals it had before the change (`previousUser`), in force until yesterday.
+async function recordGoals(userId: string, user: any, previousUser?: any) {
+  if (!hasGoalInputs(user)) return;
+  const today = getUserToday(user);
+  const goals = getDailyGoals(user);
+  const sameGoals = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+  const timeline = await getGoalsTimeline(userId);
+  if (timeline.length === 0 && hasGoalInputs(previousUser)) {
+    const previousGoals = getDailyGoals(previousUser);
+    if (!sameGoals(previousGoals, goals)) {
+      timeline.push({ from: addDays(today, -1), goals: previousGoals });
+    }
+  }
+
+  const last = timeline[timeline.length - 1];
+  if (last && sameGoals(last.goals, goals)) return;
+  if (last?.from === today) {
+    timeline[timeline.length - 1] = { from: today, goals };
+  } else {
+    timeline.push({ from: today, goals });
+  }
+  await kv.set(`goals:${userId}`, timeline);
+}
+
+// Lookup of the goals in force on a date: the last snapshot from on or before it,
+// or the first one for earlier dates. Without snapshots (the goals never changed)
+// they are computed from the profile, with the weight logged for the date.
+async function loadGoalsOn(userId: string, user: any): Promise<(date: string) => any> {
+  const timeline = await getGoalsTimeline(userId);
+  const weights = await getWeightLog(userId);
+  return (date: string) => {
+    if (timeline.length === 0) {
+      return hasGoalInputs(user) ? getDailyGoals(withWeightOn(user, weights, date)) : null;
+    }
+    return ([...timeline].reverse().find((snapshot) => snapshot.from <= date) ?? timeline[0]).goals;
+  };
+}
+
+// Streak rules
+const FREEZE_EARN_EVERY = 7; // balanced days in a row that earn one freeze
+const MAX_FREEZES = 2; // freezes that can be banked
+const MAX_FREEZE_HISTORY = 30; // used freezes kept on the streak record
+const MAX_REST_DAYS = 2; // rest days per week
+
+function emptyStreak() {
+  return {
+    currentStreak: 0,
+    longestStreak: 0,
+    lastBalancedDate: null,
+    lastFinalizedDate: null,
+    freezes: 0,
+    freezesUsed: [],
+  };
+}
+
+// Whether a date falls on one of the user's weekly rest days
+function isRestDay(date: string, userProfile: any): boolean {
+  return Array.isArray(userProfile?.restDays) && userProfile.restDays.includes(getWeekday(date));
+}
+
+// Apply one finalized (complete) day to the streak. Days must be applied in order,
+// with no gaps: a skipped day is never treated as "consecutive".
+// - A balanced day extends the streak; every FREEZE_EARN_EVERY days earn a freeze.
+// - An unbalanced rest day pauses the streak without breaking it.
+// - Any other unbalanced day spends a freeze if there is one, or breaks the streak.
+function applyDayToStreak(streakData: any, date: string, isBalanced: boolean, restDay: boolean) {
+  streakData.freezes = streakData.freezes || 0;
+  streakData.freezesUsed = streakData.freezesUsed || [];
+
+  if (isBalanced) {
+    streakData.currentStreak += 1;
+    streakData.longestStreak = Math.max(streakData.currentStreak, streakData.longestStreak || 0);
+    streakData.lastBalancedDate = date;
+    if (streakData.currentStreak % FREEZE_EARN_EVERY === 0 && streakData.freezes < MAX_FREEZES) {
+      streakData.freezes += 1;
+    }
+  } else if (!restDay && streakData.currentStreak > 0) {
+    if (streakData.freezes > 0) {
+      streakData.freezes -= 1;
+      streakData.freezesUsed = [
+        ...streakData.freezesUsed,
+        { date, streak: streakData.currentStreak, usedAt: new Date().toISOString() },
+      ].slice(-MAX_FREEZE_HISTORY);
+    } else {
+      streakData.currentStreak = 0;
+    }
+  }
+  streakData.lastFinalizedDate = date;
+  return streakData;
+}
+
+// Day Finalization
+
+// Days older than this are not finalized after a long pause; the streak is broken anyway
+const MAX_FINALIZE_DAYS = 31;
+
+// Backdated logs are accepted for this long after dayEndTime; the day is finalized after it
+const GRACE_MINUTES = 6 * 60;
+
+// Last Lumi day of the user that is over, grace window included
+function getLastClosedDay(user: any): string {
+  const today = getUserToday(user);
+  const dayStartTime = user?.dayStartTime || "00:00";
+  const elapsed = minutesSinceDayStart(user?.timeZone || DEFAULT_TIME_ZONE, dayStartTime);
+  const closesAfter = dayLengthMinutes(dayStartTime, user?.dayEndTime || "23:59") + GRACE_MINUTES;
+
+  // The day that started `daysAgo` days before today has been running for daysAgo × 1440 + elapsed minutes
+  let daysAgo = 0;
+  while (daysAgo * 1440 + elapsed < closesAfter) {
+    daysAgo += 1;
+  }
+  return addDays(today, -daysAgo);
+}
+
+// Validate the date of a (possibly backdated) log: today, or an earlier day still in its grace window
+function validateLogDate(date: string, user: any): string | null {
+  if (!DATE_KEY.test(date)) {
+    return "date must be YYYY-MM-DD";
+  }
+  const today = getUserToday(user);
+  if (date > today || (date !== today && date <= getLastClosedDay(user))) {
+    return "date is closed: only today and days still in their grace window can be logged";
+  }
+  return null;
+}
+
+// Run consecutive closed days through the streak rules. Returns the stored daily
+// records among them, with their evaluated `balanced` flag, ready to be saved.
+// Each day is judged against the goals in force for it (see loadGoalsOn).
+function replayDays(
+  streakData: any,
+  dates: string[],
+  recordsByDate: Map<string, any>,
+  user: any,
+  goalsOn: (date: string) => any
+) {
+  const finalizedAt = new Date().toISOString();
+  const finalizedRecords: any[] = [];
+  for (const date of dates) {
+    const record = recordsByDate.get(date);
+    // Days without a record were never opened: they count as not balanced
+    const balanced = record ? isDayBalanced(normalizeDailyRecord(record), goalsOn(date)) : false;
+    if (record) {
+      finalizedRecords.push({ ...record, balanced, finalizedAt });
+    }
+    applyDayToStreak(streakData, date, balanced, isRestDay(date, user));
+  }
+  return finalizedRecords;
+}
+
+// Close every day of the user that ended since the last run: evaluate the complete
+// record, persist its `balanced` flag and advance streak:{userId}.
+// Returns the finalized dates.
+async function finalizeUserDays(userId: string, user: any): Promise<string[]> {
+  const streakData = (await kv.get(`streak:${userId}`)) || emptyStreak();
+  const lastClosed = getLastClosedDay(user);
+
+  // Resume after the last finalized day. Streaks from before finalization existed
+  // resume after their last balanced day, so the days in between are replayed.
+  const resumeAfter = streakData.lastFinalizedDate || streakData.lastBalancedDate;
+  let from = resumeAfter ? addDays(resumeAfter, 1) : lastClosed;
+  if (daysBetween(from, lastClosed) >= MAX_FINALIZE_DAYS) {
+    from = addDays(lastClosed, -(MAX_FINALIZE_DAYS - 1));
+    streakData.currentStreak = 0;
+  }
+  if (from > lastClosed) return [];
+
+  const dates = Array.from({ length: daysBetween(from, lastClosed) + 1 }, (_, i) => addDays(from, i));
+  const records = await kv.mget(dates.map((date) => `daily:${userId}:${date}`));
+  const recordsByDate = new Map(records.filter(Boolean).map((record: any) => [record.date, record]));
+
+  const finalizedRecords = replayDays(streakData, dates, recordsByDate, user, await loadGoalsOn(userId, user));
+  if (finalizedRecords.length > 0) {
+    await kv.mset(
+      finalizedRecords.map((record) => `daily:${userId}:${record.date}`),
+      finalizedRecords
+    );
+  }
+  await kv.set(`streak:${userId}`, streakData);
+  return dates;
+}
+
+// User index
+//
+// users:index:{userId} holds the id of every profile, so the cron does not have
+// to scan the user: prefix (which also holds every analytics event). One key per
+// user means concurrent signups never overwrite each other.
+
+async function addToUserIndex(userId: string) {
+  await kv.set(`users:index:${userId}`, userId);
+}
+
+// Ids of every user. Profiles created before the index existed are added once,
+// from the user: records, the first time it is read (marked by users:indexed).
+async function getUserIndex(): Promise<string[]> {
+  if (!(await kv.get("users:indexed"))) {
+    // user:{id} profiles share their prefix with user:{id}:event:... analytics events
+    const userIds: string[] = (await kv.getByPrefix("user:"))
+      .filter((record: any) => record?.userId && !record.eventType)
+      .map((record: any) => record.userId);
+    if (userIds.length > 0) {
+      await kv.mset(userIds.map((userId) => `users:index:${userId}`), userIds);
+    }
+    await kv.set("users:indexed", new Date().toISOString());
+  }
+  return kv.getByPrefix("users:index:");
+}
+
+// Finalize the days of all users (called by a scheduler, not by the app)
+// Header: X-Cron-Secret must match the CRON_SECRET environment variable.
+// Safe to run as often as needed: each day is finalized once.
+app.post("/make-server-7e221a31/cron/finalize-days", async (c) => {
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  if (!cronSecret) {
+    console.log("finalize-days: CRON_SECRET is not configured");
+    return c.json({ error: "Cron is not configured" }, 503);
+  }
+  if (c.req.header('X-Cron-Secret') !== cronSecret) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const users = (await kv.mget((await getUserIndex()).map((userId) => `user:${userId}`))).filter(Boolean);
+
+    let finalizedDays = 0;
+    const failedUsers: string[] = [];
+    for (const user of users) {
+      try {
+        finalizedDays += (await finalizeUserDays(user.userId, user)).length;
+      } catch (error) {
+        console.log(`finalize-days: failed for user ${user.userId}:`, error);
+        failedUsers.push(user.userId);
+      }
+    }
+
+    console.log(`finalize-days: ${finalizedDays} days for ${users.length} users`);
+    return c.json({ users: users.length, finalizedDays, failedUsers });
+  } catch (error) {
+    console.log("Error finalizing days:", error);
+    return c.json({ error: "Failed to finalize days" }, 500);
+  }
+});
+
+// Get today's summary (requires auth)
+// Read-only: today's record is returned as-is (or empty) and the streak only
+// changes when the day is finalized by /cron/finalize-days.
+app.get("/make-server-7e221a31/summary/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const user = await kv.get(`user:${userId}`);
 
     if (!user) {
       console.log("User not found in summary endpoint");
       return c.json({ error: "User not found" }, 404);
     }
 
-    // Create daily record if it doesn't exist
-    if (!dailyData) {
-      dailyData = {
-        date: today,
-        waterGlasses: 0,
-        meals: [],
-        totalProtein: 0,
-        totalFiber: 0,
-      };
-      await kv.set(`daily:${userId}:${today}`, dailyData);
-      console.log("Created new daily record for today");
-    }
-
-    // Check and update streak based on today's data
-    const balanced = isDayBalanced(dailyData, user);
-    await updateStreak(userId, today, balanced);
-
-    const summary = {
+    const today = getUserToday(user);
+    console.log(`Getting summary for user ${userId} on ${today}`);
+    const dailyData = (await kv.get(`daily:${userId}:${today}`)) || createDailyRecord(today);
+    normalizeDailyRecord(dailyData);
+    const streakData = (await kv.get(`streak:${userId}`)) || emptyStreak();
+
+    return c.json({
       user,
       daily: dailyData,
       streak: streakData,
-    };
-
-    console.log("Returning summary:", summary);
-    return c.json(summary);
+    });
   } catch (error) {
     console.log("Error fetching summary:", error);
     return c.json({ error: "Failed to fetch summary" }, 500);
   }
 });
 
-// Get streak data
-app.get("/make-server-7e221a31/streak/:userId", async (c) => {
+// Get streak data (requires auth)
+app.get("/make-server-7e221a31/streak/:userId", requireAuth, async (c) => {
   try {
     const userId = c.req.param("userId");
-    const streakData = await kv.get(`streak:${userId}`) || {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastBalancedDate: null,
-    };
+    const streakData = (await kv.get(`streak:${userId}`)) || emptyStreak();
 
     return c.json(streakData);
   } catch (error) {
@@ -584,28 +2088,176 @@ app.get("/make-server-7e221a31/streak/:userId", async (c) => {
   }
 });
 
-// Analytics Endpoints
+// Fields of two streak states that differ, as { field: { before, after } }.
+// Used freezes are compared by the dates they protected.
+function diffStreak(before: any, after: any) {
+  const comparable = (streak: any): Record<string, unknown> => ({
+    currentStreak: streak.currentStreak ?? 0,
+    longestStreak: streak.longestStreak ?? 0,
+    lastBalancedDate: streak.lastBalancedDate ?? null,
+    lastFinalizedDate: streak.lastFinalizedDate ?? null,
+    freezes: streak.freezes ?? 0,
+    freezesUsed: (streak.freezesUsed ?? []).map((freeze: any) => freeze.date),
+  });
+  const a = comparable(before);
+  const b = comparable(after);
+
+  return Object.fromEntries(
+    Object.keys(a)
+      .filter((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+      .map((field) => [field, { before: a[field], after: b[field] }])
+  );
+}
 
-// Log user event (requires auth)
-app.post("/make-server-7e221a31/analytics/event", async (c) => {
+// Rebuild the streak by replaying every daily record through the current rules (requires auth)
+// Repairs streak:{userId} after bugs or edits to past days. The `balanced` flag of
+// records whose evaluation changed is rewritten. Rest days use the current profile.
+app.post("/make-server-7e221a31/streak/:userId/recalculate", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    const before = (await kv.get(`streak:${userId}`)) || emptyStreak();
+    const lastClosed = getLastClosedDay(user);
+    const records = (await kv.getByPrefix(`daily:${userId}:`)).filter(
+      (record: any) => typeof record?.date === "string" && DATE_KEY.test(record.date) && record.date <= lastClosed
+    );
+
+    const after = emptyStreak();
+    let dates: string[] = [];
+    let updatedRecords: any[] = [];
+    if (records.length > 0) {
+      const first = records.reduce((min: string, record: any) => (record.date < min ? record.date : min), lastClosed);
+      dates = Array.from({ length: daysBetween(first, lastClosed) + 1 }, (_, i) => addDays(first, i));
+      const recordsByDate = new Map(records.map((record: any) => [record.date, record]));
+
+      updatedRecords = replayDays(after, dates, recordsByDate, user, await loadGoalsOn(userId, user)).filter(
+        (record) => record.balanced !== recordsByDate.get(record.date).balanced
+      );
+
+      // Keep the original time of freezes that were already used
+      for (const freeze of after.freezesUsed as any[]) {
+        const original = (before.freezesUsed || []).find((used: any) => used.date === freeze.date);
+        if (original) freeze.usedAt = original.usedAt;
+      }
+    }
+
+    if (updatedRecords.length > 0) {
+      await kv.mset(
+        updatedRecords.map((record) => `daily:${userId}:${record.date}`),
+        updatedRecords
+      );
+    }
+    await kv.set(`streak:${userId}`, after);
+
+    return c.json({
+      streak: after,
+      changes: diffStreak(before, after),
+      replayedDays: dates.length,
+      updatedDays: updatedRecords.map((record) => record.date),
+    });
+  } catch (error) {
+    console.log("Error recalculating streak:", error);
+    return c.json({ error: "Failed to recalculate streak" }, 500);
+  }
+});
+
+// Trend Endpoints
+
+const MAX_TREND_BUCKETS = 12;
+
+// Averages of one week or month of daily records. Averages are over the days
+// that have a record, so days the user never opened the app don't drag them down.
+function summarizeTrendBucket(start: string, end: string, days: any[], goalsOn: (date: string) => any) {
+  const averageOf = (value: (day: any) => number) =>
+    days.length ? Math.round((days.reduce((sum, day) => sum + value(day), 0) / days.length) * 10) / 10 : 0;
+  const average = (field: string) => averageOf((day) => day[field] || 0);
+  // Each day is compared with the goals in force that day, not today's
+  const percentOfGoal = (field: string, goal: string) =>
+    Math.round(averageOf((day) => goalPercentage(day[field] || 0, goalsOn(day.date)?.[goal] ?? 0)));
+  const balancedDays = days.filter((day) => wasDayBalanced(day, goalsOn(day.date))).length;
+
+  return {
+    start,
+    end,
+    loggedDays: days.length,
+    avgWaterGlasses: average("waterGlasses"),
+    avgProtein: average("totalProtein"),
+    avgFiber: average("totalFiber"),
+    // Average of the days' goals; the goals in force at the end of a period without logs
+    avgWaterGoalGlasses: days.length
+      ? averageOf((day) => goalsOn(day.date)?.waterGlasses ?? 0)
+      : (goalsOn(end)?.waterGlasses ?? 0),
+    waterPercent: percentOfGoal("waterGlasses", "waterGlasses"),
+    proteinPercent: percentOfGoal("totalProtein", "protein"),
+    fiberPercent: percentOfGoal("totalFiber", "fiber"),
+    balancedRate: days.length ? Math.round((balancedDays / days.length) * 100) : 0,
+  };
+}
+
+// Weekly or monthly trend series, oldest first, ending with the current period (requires auth)
+// Query: ?period=week|month&count=N (defaults: week, 8). Weeks start on Monday.
+app.get("/make-server-7e221a31/trends/:userId", requireAuth, async (c) => {
   try {
-    // Verify user is authenticated
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: "Unauthorized - no token provided" }, 401);
+    const userId = c.req.param("userId");
+    const period = c.req.query("period") || "week";
+    const count = Number(c.req.query("count") || "8");
+
+    if (period !== "week" && period !== "month") {
+      return c.json({ error: "period must be week or month" }, 400);
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_TREND_BUCKETS) {
+      return c.json({ error: `count must be between 1 and ${MAX_TREND_BUCKETS}` }, 400);
     }
 
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user?.id) {
-      console.log("Auth error while logging event:", authError);
-      return c.json({ error: "Unauthorized - invalid token" }, 401);
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
     }
 
+    const today = getUserToday(user);
+    const currentStart = period === "week" ? startOfWeek(today) : startOfMonth(today);
+    const ranges = Array.from({ length: count }, (_, i) => {
+      const offset = i - (count - 1);
+      const start = period === "week" ? addDays(currentStart, offset * 7) : addMonths(currentStart, offset);
+      const nextStart = period === "week" ? addDays(start, 7) : addMonths(start, 1);
+      return { start, end: offset === 0 ? today : addDays(nextStart, -1) };
+    });
+
+    const records = await getDailyRecords(userId, ranges[0].start, today);
+    const goalsOn = await loadGoalsOn(userId, user);
+
+    const buckets = ranges.map(({ start, end }) =>
+      summarizeTrendBucket(
+        start,
+        end,
+        records.filter((day: any) => day.date >= start && day.date <= end),
+        goalsOn
+      )
+    );
+
+    return c.json({ period, goals: getDailyGoals(user), buckets });
+  } catch (error) {
+    console.log("Error fetching trends:", error);
+    return c.json({ error: "Failed to fetch trends" }, 500);
+  }
+});
+
+// Analytics Endpoints
+
+// Log user event (requires auth)
+app.post("/make-server-7e221a31/analytics/event", requireAuth, async (c) => {
+  try {
+    const user = c.get('user');
+
     const body = await c.req.json();
-    const { key, event } = body;
+    const { event } = body;
 
-    if (!key || !event) {
-      return c.json({ error: "key and event are required" }, 400);
+    if (!event) {
+      return c.json({ error: "event is required" }, 400);
     }
 
     // Verify the event belongs to the authenticated user
@@ -613,8 +2265,10 @@ app.post("/make-server-7e221a31/analytics/event", async (c) => {
       return c.json({ error: "Cannot log events for other users" }, 403);
     }
 
-    // Store event
-    await kv.set(key, event);
+    // Store event. The key is built here, never taken from the client, so an
+    // event can only land under the caller's own event prefix. The random
+    // suffix keeps two events logged in the same millisecond apart.
+    await kv.set(`user:${user.id}:event:${Date.now()}:${crypto.randomUUID()}`, event);
 
     return c.json({ success: true });
   } catch (error) {
@@ -625,19 +2279,9 @@ app.post("/make-server-7e221a31/analytics/event", async (c) => {
 });
 
 // Get user events (requires auth)
-app.get("/make-server-7e221a31/analytics/events", async (c) => {
+app.get("/make-server-7e221a31/analytics/events", requireAuth, async (c) => {
   try {
-    // Verify user is authenticated
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: "Unauthorized - no token provided" }, 401);
-    }
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user?.id) {
-      console.log("Auth error while fetching events:", authError);
-      return c.json({ error: "Unauthorized - invalid token" }, 401);
-    }
+    const user = c.get('user');
 
     const userId = c.req.query("userId");
     const eventType = c.req.query("eventType");
@@ -670,19 +2314,10 @@ app.get("/make-server-7e221a31/analytics/events", async (c) => {
 });
 
 // Get hydration statistics (requires auth)
-app.get("/make-server-7e221a31/analytics/hydration-stats", async (c) => {
+// Counts hydration_logged events only; kept for older clients. New code uses /analytics/stats.
+app.get("/make-server-7e221a31/analytics/hydration-stats", requireAuth, async (c) => {
   try {
-    // Verify user is authenticated
-    const accessToken = c.req.header('Authorization')?.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: "Unauthorized - no token provided" }, 401);
-    }
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user?.id) {
-      console.log("Auth error while fetching hydration stats:", authError);
-      return c.json({ error: "Unauthorized - invalid token" }, 401);
-    }
+    const user = c.get('user');
 
     const userId = c.req.query("userId");
     const days = parseInt(c.req.query("days") || "7");
@@ -717,4 +2352,164 @@ app.get("/make-server-7e221a31/analytics/hydration-stats", async (c) => {
   }
 });
 
-Deno.serve(app.fetch);
\ No newline at end of file
+// Nutrients whose daily goal is an upper limit: for these, lower days rank better
+const LIMIT_NUTRIENTS = ["addedSugar", "sodium"];
+
+// Part of the day of a local "HH:MM" time
+function getTimeOfDay(time: string): "morning" | "afternoon" | "evening" | "night" {
+  const hour = Number(time.slice(0, 2));
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 21) return "evening";
+  return "night";
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Stats of one metric over the tracked days. `amounts` holds [local "HH:MM", amount]
+// for everything logged in the range and feeds the time-of-day distribution.
+// `goal` is today's goal; goal attainment uses the goal in force each day (`dayGoal`).
+function summarizeMetric(
+  days: any[],
+  value: (day: any) => number,
+  goal: number | null,
+  lowerIsBetter: boolean,
+  amounts: [string, number][],
+  dayGoal: (day: any) => number = () => goal ?? 0
+) {
+  const values = days.map(value);
+
+  const weekdayTotals = Array.from({ length: 7 }, () => ({ sum: 0, count: 0 }));
+  days.forEach((day, i) => {
+    const weekday = weekdayTotals[getWeekday(day.date)];
+    weekday.sum += values[i];
+    weekday.count += 1;
+  });
+  const weekdayAverages = weekdayTotals.map(({ sum, count }) => (count ? round1(sum / count) : null));
+  const ranked = weekdayAverages
+    .map((average, weekday) => ({ average, weekday }))
+    .filter((entry): entry is { average: number; weekday: number } => entry.average !== null)
+    .sort((a, b) => (lowerIsBetter ? a.average - b.average : b.average - a.average));
+
+  const timeOfDay = { morning: 0, afternoon: 0, evening: 0, night: 0 };
+  for (const [time, amount] of amounts) {
+    timeOfDay[getTimeOfDay(time)] += amount;
+  }
+  const loggedTotal = Object.values(timeOfDay).reduce((sum, amount) => sum + amount, 0);
+
+  const metGoal =
+    goal === null
+      ? 0
+      : days.filter((day, i) => (lowerIsBetter ? values[i] <= dayGoal(day) : values[i] >= dayGoal(day))).length;
+
+  return {
+    goal,
+    average: values.length ? round1(values.reduce((sum, v) => sum + v, 0) / values.length) : 0,
+    median: round1(median(values)),
+    goalAttainment: goal === null || values.length === 0 ? null : Math.round((metGoal / values.length) * 100),
+    bestWeekday: ranked.length ? ranked[0].weekday : null, // 0 = Sunday
+    worstWeekday: ranked.length ? ranked[ranked.length - 1].weekday : null,
+    weekdayAverages,
+    // Share (%) of the amount logged in each part of the day
+    timeOfDay: Object.fromEntries(
+      Object.entries(timeOfDay).map(([part, amount]) => [part, loggedTotal ? Math.round((amount / loggedTotal) * 100) : 0])
+    ),
+  };
+}
+
+// Aggregate water and nutrient stats over a set of daily records
+function buildStats(days: any[], userProfile: any, goalsOn: (date: string) => any) {
+  const goals = getDailyGoals(userProfile);
+  const dayGoals = (day: any) => goalsOn(day.date) ?? goals;
+  const timeZone = userProfile.timeZone || DEFAULT_TIME_ZONE;
+  const localTime = (iso: string | undefined) => {
+    const instant = iso ? new Date(iso) : null;
+    return instant && !isNaN(instant.getTime()) ? getLocalDateTime(instant, timeZone).time : null;
+  };
+  // Meals count at their slot's start time; unknown slots fall back to when they were logged
+  const mealTime = (meal: any) =>
+    (userProfile.mealSlots || []).find((slot: any) => slot.id === meal.type)?.startTime ?? localTime(meal.createdAt);
+  const timed = (entries: [string | null, number][]) =>
+    entries.filter((entry): entry is [string, number] => entry[0] !== null);
+
+  const nutrientGoals: Record<string, number> = {
+    protein: goals.protein,
+    fiber: goals.fiber,
+    calories: goals.calories,
+    carbs: goals.carbs,
+    fat: goals.fat,
+    addedSugar: goals.addedSugar,
+    sodium: goals.sodium,
+  };
+
+  const metrics = {
+    water: summarizeMetric(
+      days,
+      (day) => day.waterGlasses || 0,
+      goals.waterGlasses,
+      false,
+      timed(
+        days.flatMap((day) =>
+          day.waterEntries.map((e: any) => [localTime(e.timestamp), (e.volumeMl || 0) * (e.coefficient ?? 1)])
+        )
+      ),
+      (day) => dayGoals(day).waterGlasses
+    ),
+    ...Object.fromEntries(
+      Object.entries(NUTRIENTS).map(([nutrient, { totalField }]) => [
+        nutrient,
+        summarizeMetric(
+          days,
+          (day) => day[totalField] || 0,
+          nutrientGoals[nutrient] ?? null,
+          LIMIT_NUTRIENTS.includes(nutrient),
+          timed(days.flatMap((day) => day.meals.map((meal: any) => [mealTime(meal), meal[nutrient] || 0]))),
+          (day) => dayGoals(day)[nutrient]
+        ),
+      ])
+    ),
+  };
+
+  return {
+    trackedDays: days.length,
+    balancedDays: days.filter((day) => wasDayBalanced(day, dayGoals(day))).length,
+    metrics,
+  };
+}
+
+// Aggregated water and nutrient stats over a date range (requires auth)
+// Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (to defaults to today, from to 6 days before to).
+// Averages, medians and goal attainment are over the days that have a record.
+app.get("/make-server-7e221a31/analytics/stats/:userId", requireAuth, async (c) => {
+  try {
+    const userId = c.req.param("userId");
+    const user = await kv.get(`user:${userId}`);
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    const to = c.req.query("to") || getUserToday(user);
+    const from = c.req.query("from") || addDays(to, -6);
+
+    const rangeError = validateDateRange(from, to);
+    if (rangeError) {
+      return c.json({ error: rangeError }, 400);
+    }
+
+    const days = await getDailyRecords(userId, from, to);
+
+    return c.json({ from, to, ...buildStats(days, user, await loadGoalsOn(userId, user)) });
+  } catch (error) {
+    console.log("Error fetching stats:", error);
+    return c.json({ error: "Failed to fetch stats" }, 500);
+  }
+});
+
+Deno.serve(app.fetch);
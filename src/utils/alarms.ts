@@ -1,4 +1,4 @@
-import { LED_COMMANDS } from "../contexts/BluetoothContext";
+import { getDayKey, getLocalDateTime, isPastDayEnd, minutesSinceDayStart, timeToMinutes } from "../shared/dates";
 
 export interface AlarmState {
   lastWaterTime: number | null;
@@ -7,6 +7,7 @@ export interface AlarmState {
   mealAlarmsToday: number;
   dayStartTime: string; // "HH:MM"
   dayEndTime: string; // "HH:MM"
+  timeZone: string; // IANA
   waterGoalMet: boolean;
   nutritionGoalMet: boolean;
 }
@@ -41,10 +42,8 @@ export function shouldTriggerWaterAlarm(state: AlarmState): boolean {
   // Si no hay registro de agua, verificar si es hora de la primera alarma
   if (!state.lastWaterTime) {
     // Primera alarma después de 1.5 horas del inicio del día
-    const dayStart = parseTime(state.dayStartTime);
-    const elapsed = now - dayStart;
-    const oneAndHalfHours = 1.5 * 60 * 60 * 1000;
-    return elapsed >= oneAndHalfHours;
+    const elapsedMinutes = minutesSinceDayStart(state.timeZone, state.dayStartTime);
+    return elapsedMinutes >= 90;
   }
 
   // Verificar tiempo desde el último registro de agua
@@ -69,13 +68,13 @@ export function shouldTriggerMealAlarm(state: AlarmState, mealsToday: number): b
   }
 
   const now = Date.now();
-  const currentTime = new Date(now);
-  const hour = currentTime.getHours();
+  // Hora local en la timezone del usuario, no la del navegador
+  const { time } = getLocalDateTime(new Date(now), state.timeZone);
   
   // Si no hay comidas registradas hoy
   if (mealsToday === 0) {
     // Disparar alarma a partir de las 9am
-    return hour >= 9;
+    return timeToMinutes(time) >= 9 * 60;
   }
 
   // Si hay comidas registradas, verificar tiempo desde la última
@@ -92,68 +91,12 @@ export function shouldTriggerMealAlarm(state: AlarmState, mealsToday: number): b
 
 // Verificar si es hora de enviar feedback final del día
 export function shouldTriggerDayEnd(state: AlarmState): boolean {
-  const now = new Date();
-  const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-  
-  // Verificar si llegó la hora de fin del día
-  return currentTime >= state.dayEndTime;
-}
-
-// Determinar qué comando enviar al Arduino basado en el estado actual
-export function determineArduinoCommand(
-  state: AlarmState,
-  waterPercentage: number,
-  nutritionPercentage: number,
-  lastBalancedMeal: boolean
-): number {
-  // Si es hora de fin del día, enviar feedback final
-  if (shouldTriggerDayEnd(state)) {
-    const totalProgress = (waterPercentage + nutritionPercentage) / 2;
-    
-    if (totalProgress >= 80) {
-      return LED_COMMANDS.GREAT_FINISH; // Amarillo - gran final
-    } else {
-      return LED_COMMANDS.BAD_FINISH; // Naranja titilante - mal final
-    }
-  }
-
-  // Prioridad: Agua > Comida
-  if (shouldTriggerWaterAlarm(state)) {
-    return LED_COMMANDS.WATER; // Azul - necesita agua
-  }
-
-  // Verificar alarma de comida
-  const mealsCount = state.lastMealTime ? 1 : 0; // Simplificado, debería contar comidas reales
-  if (shouldTriggerMealAlarm(state, mealsCount)) {
-    return LED_COMMANDS.UNBALANCED; // Naranja - necesita comer
-  }
-
-  // Si se acaba de registrar una comida, mostrar feedback
-  if (lastBalancedMeal) {
-    return LED_COMMANDS.BALANCED; // Verde - comida balanceada
-  } else if (state.lastMealTime && Date.now() - state.lastMealTime < 5000) {
-    // Comida recién registrada pero no balanceada
-    return LED_COMMANDS.UNBALANCED; // Naranja - comida no balanceada
-  }
-
-  // Si todo está bien, apagar
-  if (state.waterGoalMet && state.nutritionGoalMet) {
-    return LED_COMMANDS.GREAT_FINISH; // Amarillo - todo perfecto
-  }
-
-  return LED_COMMANDS.OFF; // Apagado por defecto
-}
-
-// Parsear hora en formato "HH:MM" a timestamp de hoy
-function parseTime(timeStr: string): number {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  const now = new Date();
-  now.setHours(hours, minutes, 0, 0);
-  return now.getTime();
+  // Verificar si llegó la hora de fin del día (en la timezone del usuario)
+  return isPastDayEnd(state.timeZone, state.dayStartTime, state.dayEndTime);
 }
 
 // Inicializar estado de alarmas para un nuevo día
-export function initializeAlarmState(dayStartTime: string, dayEndTime: string): AlarmState {
+export function initializeAlarmState(dayStartTime: string, dayEndTime: string, timeZone: string): AlarmState {
   return {
     lastWaterTime: null,
     lastMealTime: null,
@@ -161,15 +104,16 @@ export function initializeAlarmState(dayStartTime: string, dayEndTime: string):
     mealAlarmsToday: 0,
     dayStartTime,
     dayEndTime,
+    timeZone,
     waterGoalMet: false,
     nutritionGoalMet: false,
   };
 }
 
-// Verificar si necesita reiniciar alarmas (nuevo día)
-export function shouldResetAlarms(): boolean {
+// Verificar si necesita reiniciar alarmas (nuevo día de Lumi en la timezone del usuario)
+export function shouldResetAlarms(dayStartTime: string, timeZone: string): boolean {
   const lastReset = localStorage.getItem("lumi_alarm_last_reset");
-  const today = new Date().toDateString();
+  const today = getDayKey(timeZone, dayStartTime);
   
   if (!lastReset || lastReset !== today) {
     localStorage.setItem("lumi_alarm_last_reset", today);
@@ -1,4 +1,5 @@
 import { projectId, publicAnonKey } from "./supabase/info";
+import { NutrientKey } from "./nutrients";
 
 export type EventType = 
   | "hydration_logged"
@@ -16,6 +17,28 @@ export interface UserEvent {
   data?: Record<string, any>;
 }
 
+export type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+// Estadísticas de una métrica (agua en vasos, nutrientes en su unidad) sobre los días con registro
+export interface MetricStats {
+  goal: number | null;
+  average: number;
+  median: number;
+  goalAttainment: number | null; // % de días que cumplieron la meta
+  bestWeekday: number | null; // 0 = domingo
+  worstWeekday: number | null;
+  weekdayAverages: (number | null)[]; // índice 0 = domingo
+  timeOfDay: Record<TimeOfDay, number>; // % de lo registrado en cada parte del día
+}
+
+export interface UserStats {
+  from: string;
+  to: string;
+  trackedDays: number;
+  balancedDays: number;
+  metrics: Record<"water" | NutrientKey, MetricStats>;
+}
+
 /**
  * Registra un evento de interacción del usuario en la base de datos
  */
@@ -34,9 +57,7 @@ export async function logUserEvent(
       data,
     };
 
-    // Guardar evento con clave: user:{userId}:event:{timestamp}
-    const eventKey = `user:${userId}:event:${timestamp}`;
-    
+    // El servidor lo guarda con la clave user:{userId}:event:{timestamp}:{uuid}
     const response = await fetch(
       `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/analytics/event`,
       {
@@ -45,10 +66,7 @@ export async function logUserEvent(
           "Content-Type": "application/json",
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({
-          key: eventKey,
-          event,
-        }),
+        body: JSON.stringify({ event }),
       }
     );
 
@@ -145,3 +163,38 @@ export async function getHydrationStats(
     return { totalEvents: 0, averagePerDay: 0, events: [] };
   }
 }
+
+/**
+ * Obtiene estadísticas agregadas de agua y nutrientes entre dos fechas (incluidas)
+ */
+export async function getStats(
+  userId: string,
+  accessToken: string,
+  from: string,
+  to: string
+): Promise<UserStats | null> {
+  try {
+    const params = new URLSearchParams({ from, to });
+
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/analytics/stats/${userId}?${params}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching stats:", error);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch stats:", error);
+    return null;
+  }
+}
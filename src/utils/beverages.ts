@@ -0,0 +1,19 @@
+// Bebidas que se pueden registrar en el log de hidratación.
+// El coeficiente de hidratación de cada una lo aplica el servidor; los nombres
+// están en los catálogos de idioma (m.beverages).
+
+export type BeverageType = "water" | "sparkling" | "tea" | "coffee";
+
+export const BEVERAGES: { type: BeverageType; emoji: string }[] = [
+  { type: "water", emoji: "💧" },
+  { type: "sparkling", emoji: "🫧" },
+  { type: "tea", emoji: "🍵" },
+  { type: "coffee", emoji: "☕" },
+];
+
+// Volúmenes rápidos del selector (ml)
+export const VOLUME_PRESETS = [150, 250, 330, 500, 750];
+
+export function getBeverage(type: string) {
+  return BEVERAGES.find((b) => b.type === type) ?? BEVERAGES[0];
+}
@@ -0,0 +1,116 @@
+import { projectId } from "./supabase/info";
+import { NutrientAmounts } from "./nutrients";
+import { Food } from "./foods";
+
+// Alimento creado por el usuario, guardado en el servidor bajo food:{userId}:{id}
+export interface CustomFood {
+  id: string;
+  name: string;
+  portionLabel: string; // ej. "1 porción", "1 taza"
+  nutrients: NutrientAmounts; // por porción
+  createdAt: string;
+}
+
+export type NewCustomFood = Pick<CustomFood, "name" | "portionLabel" | "nutrients">;
+
+// Convertir un alimento personalizado al formato de la base de datos de alimentos
+export function customFoodToFood(custom: CustomFood): Food {
+  return {
+    id: custom.id,
+    name: custom.name,
+    custom: true,
+    portions: [{ label: custom.portionLabel, nutrients: custom.nutrients }],
+  };
+}
+
+/**
+ * Obtiene los alimentos personalizados del usuario
+ */
+export async function getCustomFoods(userId: string, accessToken: string): Promise<CustomFood[]> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/foods/${userId}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching custom foods:", error);
+      return [];
+    }
+
+    const data = await response.json();
+    return data.foods || [];
+  } catch (error) {
+    console.error("Failed to fetch custom foods:", error);
+    return [];
+  }
+}
+
+/**
+ * Crea un alimento personalizado. Devuelve el alimento guardado o null si falla.
+ */
+export async function createCustomFood(
+  userId: string,
+  accessToken: string,
+  food: NewCustomFood
+): Promise<CustomFood | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/foods/${userId}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ food }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error creating custom food:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.food;
+  } catch (error) {
+    console.error("Failed to create custom food:", error);
+    return null;
+  }
+}
+
+/**
+ * Elimina un alimento personalizado
+ */
+export async function deleteCustomFood(userId: string, accessToken: string, foodId: string): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/foods/${userId}/${foodId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error deleting custom food:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to delete custom food:", error);
+    return false;
+  }
+}
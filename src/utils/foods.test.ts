@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { FOODS, getFoods, searchFoods } from "./foods";
+
+// Words spelled the same in both languages
+const SAME_IN_ENGLISH = ["Granola", "Mango", "Papaya", "1 scoop"];
+
+describe("getFoods", () => {
+  it("translates every food and portion to English", () => {
+    getFoods("en").forEach((food, i) => {
+      if (!SAME_IN_ENGLISH.includes(food.name)) expect(food.name).not.toBe(FOODS[i].name);
+      food.portions.forEach((portion, j) => {
+        if (!SAME_IN_ENGLISH.includes(portion.label)) expect(portion.label).not.toBe(FOODS[i].portions[j].label);
+        expect(portion.nutrients).toEqual(FOODS[i].portions[j].nutrients);
+      });
+    });
+  });
+
+  it("searches in the user's language", () => {
+    expect(searchFoods("lentils", getFoods("en"))[0]?.id).toBe("lentejas");
+    expect(searchFoods("lentejas", getFoods("es"))[0]?.id).toBe("lentejas");
+    expect(searchFoods("prawns", getFoods("en"))[0]?.id).toBe("camarones");
+    expect(searchFoods("lentils", getFoods("es"))).toEqual([]);
+  });
+});
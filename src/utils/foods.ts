@@ -0,0 +1,281 @@
+// Base de datos de alimentos incluida en la app (funciona sin conexión).
+// Valores aproximados por 100g (referencia USDA FoodData Central); cada
+// porción se calcula a partir de sus gramos. Los nombres, alias y porciones
+// están en español; FOODS_EN los traduce al inglés (ver getFoods).
+
+import { Language } from "../shared/i18n";
+import { NutrientAmounts, NutrientKey, NUTRIENT_KEYS, emptyNutrients } from "./nutrients";
+
+export interface FoodPortion {
+  label: string; // ej. "1 taza"
+  grams?: number; // peso de la porción (los alimentos personalizados no lo tienen)
+  nutrients: NutrientAmounts;
+}
+
+export interface Food {
+  id: string;
+  name: string;
+  aliases?: string[]; // nombres regionales para la búsqueda
+  portions: FoodPortion[];
+  custom?: boolean; // creado por el usuario
+  recipe?: boolean; // receta del usuario (una porción = una porción de la receta)
+}
+
+// [proteína g, fibra g, kcal, carbohidratos g, grasa g, azúcar añadido g, sodio mg] por 100g
+type Per100g = [number, number, number, number, number, number, number];
+const PER_100G_KEYS: NutrientKey[] = ["protein", "fiber", "calories", "carbs", "fat", "addedSugar", "sodium"];
+
+function food(
+  id: string,
+  name: string,
+  per100g: Per100g,
+  portions: [label: string, grams: number][],
+  aliases?: string[]
+): Food {
+  return {
+    id,
+    name,
+    aliases,
+    portions: portions.map(([label, grams]) => {
+      const nutrients = emptyNutrients();
+      PER_100G_KEYS.forEach((key, i) => {
+        const value = (per100g[i] * grams) / 100;
+        nutrients[key] = key === "sodium" || key === "calories" ? Math.round(value) : Math.round(value * 10) / 10;
+      });
+      return { label, grams, nutrients };
+    }),
+  };
+}
+
+export const FOODS: Food[] = [
+  // Legumbres
+  food("lentejas", "Lentejas cocidas", [9, 7.9, 116, 20.1, 0.4, 0, 2], [["1 taza", 198], ["1/2 taza", 99]]),
+  food("frijoles-negros", "Frijoles negros cocidos", [8.9, 8.7, 132, 23.7, 0.5, 0, 1], [["1 taza", 172], ["1/2 taza", 86]], ["caraotas", "porotos negros"]),
+  food("frijoles-rojos", "Frijoles rojos cocidos", [8.7, 6.4, 127, 22.8, 0.5, 0, 2], [["1 taza", 177], ["1/2 taza", 89]], ["porotos", "judías"]),
+  food("garbanzos", "Garbanzos cocidos", [8.9, 7.6, 164, 27.4, 2.6, 0, 7], [["1 taza", 164], ["1/2 taza", 82]]),
+  food("arvejas", "Arvejas cocidas", [5.4, 5.5, 84, 15.6, 0.2, 0, 3], [["1 taza", 160], ["1/2 taza", 80]], ["guisantes", "chícharos"]),
+  food("tofu", "Tofu firme", [17.3, 2.3, 144, 2.8, 8.7, 0, 14], [["1 porción", 100], ["1/2 bloque", 175]]),
+
+  // Cereales y tubérculos
+  food("arroz-blanco", "Arroz blanco cocido", [2.7, 0.4, 130, 28.2, 0.3, 0, 1], [["1 taza", 158], ["1/2 taza", 79]]),
+  food("arroz-integral", "Arroz integral cocido", [2.6, 1.8, 123, 25.6, 1, 0, 4], [["1 taza", 195], ["1/2 taza", 98]]),
+  food("avena", "Avena en hojuelas", [13.2, 10.1, 379, 67.7, 6.5, 0, 6], [["1 porción", 40], ["1 taza", 81]]),
+  food("quinoa", "Quinoa cocida", [4.4, 2.8, 120, 21.3, 1.9, 0, 7], [["1 taza", 185], ["1/2 taza", 93]]),
+  food("pasta", "Pasta cocida", [5.8, 1.8, 158, 30.9, 0.9, 0, 1], [["1 taza", 140]], ["espagueti", "fideos"]),
+  food("pan-integral", "Pan integral", [13, 7, 247, 41, 3.4, 4, 450], [["1 rebanada", 32], ["2 rebanadas", 64]]),
+  food("pan-blanco", "Pan blanco", [9, 2.7, 265, 49, 3.2, 5, 490], [["1 rebanada", 25], ["2 rebanadas", 50]]),
+  food("tortilla-maiz", "Tortilla de maíz", [5.7, 6.3, 218, 44.6, 2.9, 0, 45], [["1 unidad", 26], ["3 unidades", 78]]),
+  food("arepa", "Arepa de maíz", [4.5, 3, 190, 40, 1.5, 0, 250], [["1 unidad", 90]]),
+  food("papa", "Papa cocida", [1.9, 1.8, 87, 20.1, 0.1, 0, 4], [["1 mediana", 150]], ["patata"]),
+  food("camote", "Camote cocido", [2, 3.3, 90, 20.7, 0.2, 0, 36], [["1 mediano", 130]], ["batata", "boniato"]),
+  food("maiz", "Maíz cocido", [3.4, 2.4, 96, 21, 1.5, 0, 1], [["1 mazorca", 100], ["1 taza", 145]], ["choclo", "elote"]),
+  food("granola", "Granola", [10, 7, 470, 64, 20, 20, 26], [["1 porción", 50]]),
+
+  // Proteínas animales
+  food("huevo", "Huevo", [12.6, 0, 143, 0.7, 9.5, 0, 142], [["1 unidad", 50], ["2 unidades", 100]]),
+  food("claras", "Claras de huevo", [10.9, 0, 52, 0.7, 0.2, 0, 166], [["1 clara", 33], ["3 claras", 99]]),
+  food("pollo", "Pechuga de pollo cocida", [31, 0, 165, 0, 3.6, 0, 74], [["1 porción", 100], ["1 filete", 120]]),
+  food("res", "Carne de res magra cocida", [26, 0, 217, 0, 11.8, 0, 66], [["1 porción", 100]], ["bistec"]),
+  food("carne-molida", "Carne molida cocida", [25.9, 0, 254, 0, 17, 0, 80], [["1 porción", 100]]),
+  food("cerdo", "Lomo de cerdo cocido", [26, 0, 170, 0, 7, 0, 60], [["1 porción", 100]], ["chancho"]),
+  food("atun", "Atún en agua", [25.5, 0, 116, 0, 0.8, 0, 338], [["1 lata escurrida", 120], ["1/2 lata", 60]]),
+  food("salmon", "Salmón cocido", [25.4, 0, 206, 0, 12.4, 0, 61], [["1 filete", 150]]),
+  food("tilapia", "Tilapia cocida", [26, 0, 128, 0, 2.7, 0, 56], [["1 filete", 120]], ["pescado"]),
+  food("camarones", "Camarones cocidos", [24, 0, 99, 0.2, 0.3, 0, 111], [["1 porción", 85]], ["gambas"]),
+  food("jamon-pavo", "Jamón de pavo", [17, 0, 104, 2.5, 3.5, 1.5, 1000], [["1 rebanada", 28], ["2 rebanadas", 56]]),
+
+  // Lácteos
+  food("leche-entera", "Leche entera", [3.2, 0, 61, 4.8, 3.3, 0, 43], [["1 vaso", 244]]),
+  food("leche-descremada", "Leche descremada", [3.4, 0, 34, 5, 0.1, 0, 42], [["1 vaso", 245]]),
+  food("bebida-soya", "Bebida de soya", [3.3, 0.6, 54, 6.3, 1.8, 2.5, 51], [["1 vaso", 243]], ["leche de soya"]),
+  food("yogur-griego", "Yogur griego natural", [10, 0, 59, 3.6, 0.4, 0, 36], [["1 envase", 170]]),
+  food("yogur-fruta", "Yogur con fruta", [3.9, 0, 97, 18.6, 1.2, 10, 50], [["1 envase", 150]]),
+  food("queso-fresco", "Queso fresco", [20.8, 0, 299, 2.9, 23.8, 0, 751], [["1 rebanada", 30]], ["queso blanco"]),
+  food("mozzarella", "Queso mozzarella", [24.3, 0, 254, 2.8, 15.9, 0, 619], [["1 rebanada", 28]]),
+
+  // Frutos secos y semillas
+  food("almendras", "Almendras", [21.2, 12.5, 579, 21.6, 49.9, 0, 1], [["1 puñado", 28]]),
+  food("mani", "Maní", [25.8, 8.5, 567, 16.1, 49.2, 0, 18], [["1 puñado", 28]], ["cacahuate", "cacahuete"]),
+  food("mantequilla-mani", "Mantequilla de maní", [24, 6, 590, 20, 50, 6, 430], [["1 cucharada", 16], ["2 cucharadas", 32]], ["crema de cacahuate"]),
+  food("nueces", "Nueces", [15.2, 6.7, 654, 13.7, 65.2, 0, 2], [["1 puñado", 28]]),
+  food("chia", "Semillas de chía", [16.5, 34.4, 486, 42.1, 30.7, 0, 16], [["1 cucharada", 12]]),
+  food("linaza", "Linaza molida", [18.3, 27.3, 534, 28.9, 42.2, 0, 30], [["1 cucharada", 7]]),
+
+  // Frutas
+  food("manzana", "Manzana", [0.3, 2.4, 52, 13.8, 0.2, 0, 1], [["1 mediana", 182]]),
+  food("banano", "Banano", [1.1, 2.6, 89, 22.8, 0.3, 0, 1], [["1 unidad", 118]], ["plátano", "banana", "guineo"]),
+  food("naranja", "Naranja", [0.9, 2.4, 47, 11.8, 0.1, 0, 0], [["1 unidad", 131]]),
+  food("pera", "Pera", [0.4, 3.1, 57, 15.2, 0.1, 0, 1], [["1 mediana", 178]]),
+  food("fresas", "Fresas", [0.7, 2, 32, 7.7, 0.3, 0, 1], [["1 taza", 152]], ["frutillas"]),
+  food("mango", "Mango", [0.8, 1.6, 60, 15, 0.4, 0, 1], [["1 taza", 165]]),
+  food("papaya", "Papaya", [0.5, 1.7, 43, 10.8, 0.3, 0, 8], [["1 taza", 145]], ["lechosa", "fruta bomba"]),
+  food("aguacate", "Aguacate", [2, 6.7, 160, 8.5, 14.7, 0, 7], [["1/2 unidad", 75]], ["palta"]),
+  food("jugo-naranja", "Jugo de naranja natural", [0.7, 0.2, 45, 10.4, 0.2, 0, 1], [["1 vaso", 248]]),
+
+  // Verduras
+  food("brocoli", "Brócoli cocido", [2.4, 3.3, 35, 7.2, 0.4, 0, 41], [["1 taza", 156]]),
+  food("espinaca", "Espinaca cruda", [2.9, 2.2, 23, 3.6, 0.4, 0, 79], [["1 taza", 30]]),
+  food("zanahoria", "Zanahoria", [0.9, 2.8, 41, 9.6, 0.2, 0, 69], [["1 mediana", 61]]),
+  food("tomate", "Tomate", [0.9, 1.2, 18, 3.9, 0.2, 0, 5], [["1 mediano", 123]], ["jitomate"]),
+  food("lechuga", "Lechuga", [1.2, 2.1, 17, 3.3, 0.3, 0, 8], [["1 taza", 47]]),
+
+  // Snacks y otros
+  food("galletas-avena", "Galletas de avena", [6.5, 2.8, 450, 68, 18, 28, 380], [["1 unidad", 15], ["3 unidades", 45]]),
+  food("chocolate-amargo", "Chocolate amargo 70%", [7.8, 10.9, 598, 45.9, 42.6, 24, 20], [["2 cuadritos", 20]]),
+  food("empanada", "Empanada de carne", [9, 1.5, 290, 26, 16, 1, 450], [["1 unidad", 100]]),
+  food("pizza", "Pizza de queso", [11, 2.3, 266, 33, 10, 3.6, 598], [["1 porción", 107]]),
+  food("gaseosa", "Gaseosa", [0, 0, 41, 10.6, 0, 10.6, 4], [["1 lata", 355]], ["refresco", "soda"]),
+  food("proteina-whey", "Proteína en polvo (whey)", [80, 0, 400, 8, 6, 3, 300], [["1 scoop", 30]]),
+];
+
+// Nombre en inglés y alias de cada alimento, por id
+const EN_NAMES: Record<string, [name: string, aliases?: string[]]> = {
+  lentejas: ["Cooked lentils"],
+  "frijoles-negros": ["Cooked black beans", ["turtle beans"]],
+  "frijoles-rojos": ["Cooked kidney beans", ["red beans"]],
+  garbanzos: ["Cooked chickpeas", ["garbanzo beans"]],
+  arvejas: ["Cooked green peas", ["peas"]],
+  tofu: ["Firm tofu"],
+  "arroz-blanco": ["Cooked white rice"],
+  "arroz-integral": ["Cooked brown rice"],
+  avena: ["Rolled oats", ["oatmeal"]],
+  quinoa: ["Cooked quinoa"],
+  pasta: ["Cooked pasta", ["spaghetti", "noodles"]],
+  "pan-integral": ["Whole wheat bread", ["wholemeal bread"]],
+  "pan-blanco": ["White bread"],
+  "tortilla-maiz": ["Corn tortilla"],
+  arepa: ["Corn arepa"],
+  papa: ["Boiled potato"],
+  camote: ["Cooked sweet potato", ["yam"]],
+  maiz: ["Cooked corn", ["sweet corn", "maize"]],
+  granola: ["Granola"],
+  huevo: ["Egg"],
+  claras: ["Egg whites"],
+  pollo: ["Cooked chicken breast"],
+  res: ["Cooked lean beef", ["steak"]],
+  "carne-molida": ["Cooked ground beef", ["minced beef"]],
+  cerdo: ["Cooked pork loin"],
+  atun: ["Tuna in water"],
+  salmon: ["Cooked salmon"],
+  tilapia: ["Cooked tilapia", ["fish"]],
+  camarones: ["Cooked shrimp", ["prawns"]],
+  "jamon-pavo": ["Turkey ham"],
+  "leche-entera": ["Whole milk"],
+  "leche-descremada": ["Skim milk", ["fat-free milk"]],
+  "bebida-soya": ["Soy milk", ["soy drink"]],
+  "yogur-griego": ["Plain Greek yogurt"],
+  "yogur-fruta": ["Fruit yogurt"],
+  "queso-fresco": ["Fresh cheese", ["queso fresco", "white cheese"]],
+  mozzarella: ["Mozzarella cheese"],
+  almendras: ["Almonds"],
+  mani: ["Peanuts"],
+  "mantequilla-mani": ["Peanut butter"],
+  nueces: ["Walnuts"],
+  chia: ["Chia seeds"],
+  linaza: ["Ground flaxseed", ["linseed"]],
+  manzana: ["Apple"],
+  banano: ["Banana"],
+  naranja: ["Orange"],
+  pera: ["Pear"],
+  fresas: ["Strawberries"],
+  mango: ["Mango"],
+  papaya: ["Papaya", ["pawpaw"]],
+  aguacate: ["Avocado"],
+  "jugo-naranja": ["Fresh orange juice"],
+  brocoli: ["Cooked broccoli"],
+  espinaca: ["Raw spinach"],
+  zanahoria: ["Carrot"],
+  tomate: ["Tomato"],
+  lechuga: ["Lettuce"],
+  "galletas-avena": ["Oatmeal cookies", ["oat biscuits"]],
+  "chocolate-amargo": ["Dark chocolate 70%"],
+  empanada: ["Beef empanada"],
+  pizza: ["Cheese pizza"],
+  gaseosa: ["Soda", ["soft drink", "pop"]],
+  "proteina-whey": ["Protein powder (whey)"],
+};
+
+// Porciones en inglés
+const EN_PORTIONS: Record<string, string> = {
+  "1 taza": "1 cup",
+  "1/2 taza": "1/2 cup",
+  "1 porción": "1 serving",
+  "1/2 bloque": "1/2 block",
+  "1 rebanada": "1 slice",
+  "2 rebanadas": "2 slices",
+  "1 unidad": "1 piece",
+  "1/2 unidad": "1/2 piece",
+  "2 unidades": "2 pieces",
+  "3 unidades": "3 pieces",
+  "1 mediana": "1 medium",
+  "1 mediano": "1 medium",
+  "1 mazorca": "1 ear",
+  "1 clara": "1 egg white",
+  "3 claras": "3 egg whites",
+  "1 filete": "1 fillet",
+  "1 lata escurrida": "1 can, drained",
+  "1/2 lata": "1/2 can",
+  "1 lata": "1 can",
+  "1 vaso": "1 glass",
+  "1 envase": "1 container",
+  "1 puñado": "1 handful",
+  "1 cucharada": "1 tbsp",
+  "2 cucharadas": "2 tbsp",
+  "2 cuadritos": "2 squares",
+};
+
+const FOODS_EN: Food[] = FOODS.map((f) => {
+  const [name, aliases] = EN_NAMES[f.id] ?? [f.name, f.aliases];
+  return {
+    ...f,
+    name,
+    aliases,
+    portions: f.portions.map((portion) => ({ ...portion, label: EN_PORTIONS[portion.label] ?? portion.label })),
+  };
+});
+
+// Base de datos de alimentos en el idioma del usuario
+export function getFoods(language: Language): Food[] {
+  return language === "en" ? FOODS_EN : FOODS;
+}
+
+// Texto en minúsculas y sin tildes, para buscar "lentejas" o "limon" sin importar acentos
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim();
+}
+
+// Buscar alimentos por nombre o alias. Las coincidencias al inicio del nombre van primero.
+export function searchFoods(query: string, foods: Food[], limit = 30): Food[] {
+  const q = normalizeSearchText(query);
+  if (!q) return foods.slice(0, limit);
+
+  const scored: { food: Food; score: number }[] = [];
+  for (const f of foods) {
+    const names = [f.name, ...(f.aliases ?? [])].map(normalizeSearchText);
+    if (names.some((name) => name.startsWith(q))) {
+      scored.push({ food: f, score: 0 });
+    } else if (names.some((name) => name.split(/\s+/).some((word) => word.startsWith(q)))) {
+      scored.push({ food: f, score: 1 });
+    } else if (names.some((name) => name.includes(q))) {
+      scored.push({ food: f, score: 2 });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.food.name.localeCompare(b.food.name))
+    .slice(0, limit)
+    .map((s) => s.food);
+}
+
+// Nutrientes de una porción multiplicados por la cantidad elegida
+export function scalePortion(portion: FoodPortion, quantity: number): NutrientAmounts {
+  const scaled = emptyNutrients();
+  for (const key of NUTRIENT_KEYS) {
+    scaled[key] = Math.round(portion.nutrients[key] * quantity * 10) / 10;
+  }
+  return scaled;
+}
@@ -0,0 +1,37 @@
+import { projectId } from "./supabase/info";
+import { GoalOverrides } from "../shared/nutritionRules";
+
+/**
+ * Guarda las metas manuales del usuario (reemplazan a las anteriores; {} vuelve a las calculadas).
+ * Devuelve false si falla o si un coach las tiene bloqueadas.
+ */
+export async function saveGoalOverrides(
+  userId: string,
+  accessToken: string,
+  goalOverrides: GoalOverrides
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/users/${userId}/goals`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ goalOverrides }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error saving goal overrides:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to save goal overrides:", error);
+    return false;
+  }
+}
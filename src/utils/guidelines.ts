@@ -0,0 +1,11 @@
+// Guías nutricionales que se pueden elegir en el perfil. Las fórmulas viven en
+// shared/nutritionRules.ts; cómo se llama cada guía y de dónde sale cada meta
+// está en los catálogos de idioma (m.guidelines).
+
+export type GuidelineTarget = "protein" | "fiber" | "waterMl" | "calories";
+
+export interface GuidelineInfo {
+  label: string;
+  description: string;
+  sources: Record<GuidelineTarget, string>;
+}
@@ -0,0 +1,110 @@
+import { projectId } from "./supabase/info";
+import { MealNutrients } from "./nutrients";
+import { BeverageType } from "./beverages";
+import type { WaterEntry } from "../contexts/UserContext";
+
+export type HistoryMeal = MealNutrients & {
+  id: string;
+  type: string; // slot id
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Metas con las que se evaluó un día (las vigentes esa fecha, no las de hoy)
+export interface HistoryGoals {
+  protein: number;
+  fiber: number;
+  waterGlasses: number;
+  waterMl: number;
+  balanceThreshold: number;
+}
+
+// Registro diario tal como lo devuelve /history (normalizado por el servidor)
+export interface HistoryDay {
+  date: string; // YYYY-MM-DD
+  isBalanced: boolean; // según las metas vigentes ese día
+  goals: HistoryGoals | null; // metas vigentes ese día (null si el perfil está incompleto)
+  waterGlasses: number;
+  waterMl: number;
+  waterEntries: WaterEntry[];
+  meals: HistoryMeal[];
+  totalProtein: number;
+  totalFiber: number;
+  totalCalories: number;
+}
+
+/**
+ * Obtiene los registros diarios entre dos fechas (incluidas), del más antiguo al más reciente.
+ * Solo incluye los días que tienen registro.
+ */
+export async function getHistory(
+  userId: string,
+  accessToken: string,
+  from: string,
+  to: string
+): Promise<HistoryDay[]> {
+  try {
+    const params = new URLSearchParams({ from, to });
+
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/history/${userId}?${params}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching history:", error);
+      return [];
+    }
+
+    const data = await response.json();
+    return data.days || [];
+  } catch (error) {
+    console.error("Failed to fetch history:", error);
+    return [];
+  }
+}
+
+/**
+ * Registra una bebida en un día anterior que aún está en su periodo de gracia.
+ * Devuelve false si el día ya se cerró o si falla.
+ */
+export async function logWaterForDay(
+  userId: string,
+  accessToken: string,
+  date: string,
+  volumeMl: number,
+  beverage: BeverageType = "water"
+): Promise<boolean> {
+  try {
+    const params = new URLSearchParams({ date });
+
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/hydration/${userId}?${params}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ volumeMl, beverage }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error logging water for day:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to log water for day:", error);
+    return false;
+  }
+}
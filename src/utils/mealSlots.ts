@@ -0,0 +1,75 @@
+import { dayLengthMinutes, timeToMinutes } from "../shared/dates";
+import type { Messages } from "../locales";
+
+export type MealSlotIcon = "coffee" | "sun" | "moon" | "apple" | "cookie" | "sandwich" | "salad" | "cup";
+
+export interface MealSlot {
+  id: string; // se usa como `type` de la comida en el servidor
+  name: string;
+  icon: MealSlotIcon;
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM"
+  kind: "meal" | "snack";
+}
+
+export const MAX_MEAL_SLOTS = 8;
+
+export const DEFAULT_MEAL_SLOTS: MealSlot[] = [
+  { id: "breakfast", name: "Desayuno", icon: "coffee", startTime: "06:00", endTime: "10:00", kind: "meal" },
+  { id: "lunch", name: "Almuerzo", icon: "sun", startTime: "12:00", endTime: "15:00", kind: "meal" },
+  { id: "dinner", name: "Cena", icon: "moon", startTime: "19:00", endTime: "22:00", kind: "meal" },
+];
+
+// Minutos desde el inicio del día de Lumi hasta la hora dada
+function offsetInDay(time: string, dayStartTime: string): number {
+  return (timeToMinutes(time) - timeToMinutes(dayStartTime) + 1440) % 1440;
+}
+
+// Ordenar comidas según su hora de inicio dentro del día del usuario
+export function sortMealSlots(slots: MealSlot[], dayStartTime: string = "00:00"): MealSlot[] {
+  return [...slots].sort(
+    (a, b) => offsetInDay(a.startTime, dayStartTime) - offsetInDay(b.startTime, dayStartTime)
+  );
+}
+
+// Validar la configuración de comidas. Devuelve un mensaje de error (en el
+// idioma de `errors`) o null.
+export function validateMealSlots(
+  slots: MealSlot[],
+  errors: Messages["mealSlots"]["errors"],
+  dayStartTime: string = "00:00",
+  dayEndTime: string = "23:59"
+): string | null {
+  if (slots.length === 0) return errors.empty;
+  if (slots.length > MAX_MEAL_SLOTS) return errors.tooMany(MAX_MEAL_SLOTS);
+
+  const dayLength = dayLengthMinutes(dayStartTime, dayEndTime);
+  for (const slot of slots) {
+    if (!slot.name.trim()) return errors.nameRequired;
+    const start = offsetInDay(slot.startTime, dayStartTime);
+    const end = offsetInDay(slot.endTime, dayStartTime);
+    if (start > dayLength || end > dayLength) {
+      return errors.outsideDay(slot.name, dayStartTime, dayEndTime);
+    }
+    if (end <= start) return errors.endBeforeStart(slot.name);
+  }
+  return null;
+}
+
+// Id estable para una comida nueva a partir de su nombre
+export function createMealSlotId(name: string, existing: MealSlot[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 24) || "comida";
+  let id = base;
+  let suffix = 2;
+  while (existing.some((slot) => slot.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
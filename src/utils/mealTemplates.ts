@@ -0,0 +1,105 @@
+import { projectId } from "./supabase/info";
+import { MealNutrients } from "./nutrients";
+
+// Comida favorita guardada en el servidor bajo template:{userId}:{id}
+export interface MealTemplate {
+  id: string;
+  name: string;
+  type?: string; // slot de origen; se muestra primero en esa comida
+  meal: MealNutrients;
+  createdAt: string;
+}
+
+export type NewMealTemplate = Pick<MealTemplate, "name" | "type" | "meal">;
+
+/**
+ * Obtiene las comidas favoritas del usuario
+ */
+export async function getMealTemplates(userId: string, accessToken: string): Promise<MealTemplate[]> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/templates/${userId}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching meal templates:", error);
+      return [];
+    }
+
+    const data = await response.json();
+    return data.templates || [];
+  } catch (error) {
+    console.error("Failed to fetch meal templates:", error);
+    return [];
+  }
+}
+
+/**
+ * Guarda una comida como favorita. Devuelve la plantilla guardada o null si falla.
+ */
+export async function createMealTemplate(
+  userId: string,
+  accessToken: string,
+  template: NewMealTemplate
+): Promise<MealTemplate | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/templates/${userId}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ template }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error saving meal template:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.template;
+  } catch (error) {
+    console.error("Failed to save meal template:", error);
+    return null;
+  }
+}
+
+/**
+ * Elimina una comida favorita
+ */
+export async function deleteMealTemplate(userId: string, accessToken: string, templateId: string): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/templates/${userId}/${templateId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error deleting meal template:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to delete meal template:", error);
+    return false;
+  }
+}
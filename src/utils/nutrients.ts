@@ -0,0 +1,59 @@
+// Nutrientes que Lumi registra por comida, sus metas diarias y cómo se muestran.
+// Los nombres están en los catálogos de idioma (m.nutrients).
+
+export type NutrientKey = "protein" | "fiber" | "calories" | "carbs" | "fat" | "addedSugar" | "sodium";
+
+export type NutrientAmounts = Record<NutrientKey, number>;
+
+// Nutrientes de una comida: proteína y fibra siempre, el resto si se registró
+export type MealNutrients = Pick<NutrientAmounts, "protein" | "fiber"> & Partial<NutrientAmounts>;
+
+export interface NutrientInfo {
+  key: NutrientKey;
+  unit: "g" | "kcal" | "mg";
+  // "min": la meta es alcanzar el valor; "max": es un límite que no hay que superar
+  goal: "min" | "max";
+  step: number; // incremento de los botones +/-
+  color: string; // color del pétalo y de la barra
+}
+
+export const NUTRIENTS: NutrientInfo[] = [
+  { key: "protein", unit: "g", goal: "min", step: 5, color: "#3B82F6" },
+  { key: "fiber", unit: "g", goal: "min", step: 2, color: "#22C55E" },
+  { key: "calories", unit: "kcal", goal: "min", step: 50, color: "#F97316" },
+  { key: "carbs", unit: "g", goal: "min", step: 5, color: "#EAB308" },
+  { key: "fat", unit: "g", goal: "min", step: 2, color: "#A855F7" },
+  { key: "addedSugar", unit: "g", goal: "max", step: 2, color: "#EC4899" },
+  { key: "sodium", unit: "mg", goal: "max", step: 100, color: "#64748B" },
+];
+
+export const NUTRIENT_KEYS = NUTRIENTS.map((n) => n.key);
+
+// Nutrientes opcionales (proteína y fibra siempre se registran)
+export const EXTRA_NUTRIENT_KEYS: NutrientKey[] = ["calories", "carbs", "fat", "addedSugar", "sodium"];
+
+export const DEFAULT_PETAL_NUTRIENTS: NutrientKey[] = ["protein", "fiber"];
+
+export function getNutrient(key: NutrientKey): NutrientInfo {
+  return NUTRIENTS.find((n) => n.key === key) ?? NUTRIENTS[0];
+}
+
+export function emptyNutrients(): NutrientAmounts {
+  return { protein: 0, fiber: 0, calories: 0, carbs: 0, fat: 0, addedSugar: 0, sodium: 0 };
+}
+
+// Sumar los nutrientes de varias comidas (los campos ausentes cuentan como 0)
+export function sumNutrients(items: Partial<NutrientAmounts>[]): NutrientAmounts {
+  const total = emptyNutrients();
+  for (const item of items) {
+    for (const key of NUTRIENT_KEYS) {
+      total[key] += item[key] || 0;
+    }
+  }
+  return total;
+}
+
+// Si un valor cumple la meta del nutriente (alcanzarla, o no superar el límite)
+export function isNutrientGoalMet(key: NutrientKey, value: number, target: number): boolean {
+  return getNutrient(key).goal === "max" ? value <= target : value >= target;
+}
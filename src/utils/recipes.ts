@@ -0,0 +1,145 @@
+import { projectId } from "./supabase/info";
+import { NutrientAmounts, NUTRIENT_KEYS, emptyNutrients } from "./nutrients";
+import { Food } from "./foods";
+
+// Ingrediente de una receta. Guarda una copia de los nutrientes de la porción,
+// así la receta no cambia si se borra el alimento personalizado de origen.
+export interface RecipeIngredient {
+  id: string;
+  name: string;
+  portionLabel: string;
+  quantity: number; // número de porciones
+  nutrients: NutrientAmounts; // por porción
+}
+
+// Receta guardada en el servidor bajo recipe:{userId}:{id}
+export interface Recipe {
+  id: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  nutrientsPerServing: NutrientAmounts; // calculado por el servidor
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecipeInput = Pick<Recipe, "name" | "servings" | "ingredients">;
+
+export const MAX_RECIPE_INGREDIENTS = 30;
+
+// Nutrientes de una porción de la receta: total de ingredientes ÷ porciones
+export function computeNutrientsPerServing(recipe: RecipeInput): NutrientAmounts {
+  const perServing = emptyNutrients();
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  for (const key of NUTRIENT_KEYS) {
+    const total = recipe.ingredients.reduce(
+      (sum, ingredient) => sum + (ingredient.nutrients[key] || 0) * ingredient.quantity,
+      0
+    );
+    perServing[key] = Math.round((total / servings) * 10) / 10;
+  }
+  return perServing;
+}
+
+// Una receta se registra como un alimento con una sola porción, ej. "1 porción de receta"
+export function recipeToFood(recipe: Recipe, portionLabel: string): Food {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    recipe: true,
+    portions: [{ label: portionLabel, nutrients: recipe.nutrientsPerServing }],
+  };
+}
+
+/**
+ * Obtiene las recetas del usuario
+ */
+export async function getRecipes(userId: string, accessToken: string): Promise<Recipe[]> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/recipes/${userId}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching recipes:", error);
+      return [];
+    }
+
+    const data = await response.json();
+    return data.recipes || [];
+  } catch (error) {
+    console.error("Failed to fetch recipes:", error);
+    return [];
+  }
+}
+
+/**
+ * Crea o reemplaza una receta por id. Devuelve la receta guardada o null si falla.
+ */
+export async function saveRecipe(
+  userId: string,
+  accessToken: string,
+  recipeId: string,
+  recipe: RecipeInput
+): Promise<Recipe | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/recipes/${userId}/${recipeId}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ recipe }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error saving recipe:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.recipe;
+  } catch (error) {
+    console.error("Failed to save recipe:", error);
+    return null;
+  }
+}
+
+/**
+ * Elimina una receta
+ */
+export async function deleteRecipe(userId: string, accessToken: string, recipeId: string): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/recipes/${userId}/${recipeId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error deleting recipe:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to delete recipe:", error);
+    return false;
+  }
+}
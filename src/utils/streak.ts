@@ -0,0 +1,44 @@
+import { projectId } from "./supabase/info";
+import type { StreakData } from "../contexts/UserContext";
+
+// Campo de la racha que cambió al recalcular
+export interface StreakChange<T = unknown> {
+  before: T;
+  after: T;
+}
+
+export interface StreakRecalculation {
+  streak: StreakData;
+  changes: Partial<Record<keyof StreakData, StreakChange>>; // solo los campos que cambiaron
+  replayedDays: number;
+  updatedDays: string[]; // días cuyo balance cambió
+}
+
+/**
+ * Reconstruye la racha repasando todo el historial con las reglas actuales.
+ * Devuelve la racha nueva y lo que cambió, o null si falla.
+ */
+export async function recalculateStreak(userId: string, accessToken: string): Promise<StreakRecalculation | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/streak/${userId}/recalculate`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error recalculating streak:", error);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to recalculate streak:", error);
+    return null;
+  }
+}
@@ -0,0 +1,65 @@
+import { projectId } from "./supabase/info";
+
+export type TrendPeriod = "week" | "month";
+
+// Promedios de una semana o mes (sobre los días con registro)
+export interface TrendBucket {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD (hoy en el periodo actual)
+  loggedDays: number;
+  avgWaterGlasses: number;
+  avgProtein: number;
+  avgFiber: number;
+  avgWaterGoalGlasses: number; // meta de agua promedio de esos días
+  // % de la meta de cada día (la vigente ese día), en promedio
+  waterPercent: number;
+  proteinPercent: number;
+  fiberPercent: number;
+  balancedRate: number; // % de días balanceados
+}
+
+export interface Trends {
+  period: TrendPeriod;
+  // Metas de hoy; cada periodo trae sus porcentajes contra las metas de sus días
+  goals: {
+    waterGlasses: number;
+    protein: number;
+    fiber: number;
+  };
+  buckets: TrendBucket[];
+}
+
+/**
+ * Obtiene las series de tendencias ya agrupadas por semana o mes, del periodo más antiguo al actual
+ */
+export async function getTrends(
+  userId: string,
+  accessToken: string,
+  period: TrendPeriod,
+  count: number
+): Promise<Trends | null> {
+  try {
+    const params = new URLSearchParams({ period, count: String(count) });
+
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/trends/${userId}?${params}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching trends:", error);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch trends:", error);
+    return null;
+  }
+}
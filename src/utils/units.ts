@@ -0,0 +1,101 @@
+// Unidades en las que el usuario ve y escribe peso, altura, volúmenes y porciones.
+// El servidor guarda todo en métrico (kg, cm, ml, g, °C); aquí solo se convierte
+// al mostrar y al leer lo que el usuario escribe. El texto final ("70 kg",
+// "8 vasos") lo arma el formateador de src/locales según el idioma. Las
+// conversiones que también usa el servidor están en src/shared/units.ts.
+
+import { GLASS_ML } from "../shared/nutritionRules";
+import { UnitPreferences, WaterContainer, isImperial, round, toContainers } from "../shared/units";
+
+export type { UnitPreferences, UnitSystem, WaterContainer } from "../shared/units";
+export {
+  MAX_CONTAINER_ML,
+  MIN_CONTAINER_ML,
+  fromDisplayVolume,
+  isImperial,
+  toContainers,
+  toDisplayVolume,
+  volumeUnit,
+} from "../shared/units";
+
+// Tamaño con el que empieza cada recipiente (ml)
+export const DEFAULT_CONTAINER_ML: Record<WaterContainer, number> = { glass: GLASS_ML, bottle: 500 };
+
+export const DEFAULT_UNITS: UnitPreferences = { system: "metric", container: "glass", containerMl: GLASS_ML };
+
+// Tamaños sugeridos del selector de recipiente (ml)
+export const CONTAINER_PRESETS: Record<WaterContainer, number[]> = {
+  glass: [200, 250, 300],
+  bottle: [500, 750, 1000],
+};
+
+const KG_PER_LB = 0.45359237;
+const CM_PER_IN = 2.54;
+const G_PER_OZ = 28.3495;
+
+// Preferencias guardadas en el perfil, completando lo que falte
+export function getUnits(units?: Partial<UnitPreferences>): UnitPreferences {
+  return { ...DEFAULT_UNITS, ...units };
+}
+
+// --- Peso ---
+
+export function kgToLb(kg: number): number {
+  return kg / KG_PER_LB;
+}
+
+export function lbToKg(lb: number): number {
+  return round(lb * KG_PER_LB, 1);
+}
+
+export function weightUnit(units: UnitPreferences): "kg" | "lb" {
+  return isImperial(units) ? "lb" : "kg";
+}
+
+// Peso en la unidad del usuario, para rellenar un campo
+export function toDisplayWeight(kg: number, units: UnitPreferences): number {
+  return isImperial(units) ? round(kgToLb(kg), 1) : kg;
+}
+
+// Peso escrito por el usuario, en kg
+export function fromDisplayWeight(value: number, units: UnitPreferences): number {
+  return isImperial(units) ? lbToKg(value) : value;
+}
+
+// --- Altura ---
+
+export function cmToFeetInches(cm: number): { feet: number; inches: number } {
+  const totalInches = Math.round(cm / CM_PER_IN);
+  return { feet: Math.floor(totalInches / 12), inches: totalInches % 12 };
+}
+
+export function feetInchesToCm(feet: number, inches: number): number {
+  return Math.round((feet * 12 + inches) * CM_PER_IN);
+}
+
+// --- Recipientes de agua ---
+
+// Vasos de 250 ml (como los cuenta el servidor) en recipientes del usuario
+export function glassesToContainers(glasses: number, units: UnitPreferences): number {
+  return toContainers(glasses * GLASS_ML, units);
+}
+
+// --- Porciones de alimentos ---
+
+export function gramsToOunces(grams: number): number {
+  return round(grams / G_PER_OZ, 1);
+}
+
+// --- Temperatura ---
+
+export function temperatureUnit(units: UnitPreferences): "°C" | "°F" {
+  return isImperial(units) ? "°F" : "°C";
+}
+
+export function toDisplayTemperature(celsius: number, units: UnitPreferences): number {
+  return isImperial(units) ? Math.round((celsius * 9) / 5 + 32) : celsius;
+}
+
+export function fromDisplayTemperature(value: number, units: UnitPreferences): number {
+  return isImperial(units) ? round(((value - 32) * 5) / 9, 1) : value;
+}
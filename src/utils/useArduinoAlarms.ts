@@ -13,6 +13,14 @@ import {
   registerMealIntake,
 } from "./alarms";
 import { debugLog } from "./debug";
+import { getBrowserTimeZone } from "../shared/dates";
+import {
+  BALANCE_THRESHOLD,
+  getDayEndLedStatus,
+  getDayProgress,
+  getMealLedStatus,
+  isBalanced,
+} from "../shared/nutritionRules";
 
 interface UseArduinoAlarmsProps {
   waterGlasses: number;
@@ -23,6 +31,8 @@ interface UseArduinoAlarmsProps {
   dailyFiberGoal: number;
   dayStartTime: string;
   dayEndTime: string;
+  timeZone?: string;
+  balanceThreshold?: number; // según la guía nutricional del perfil
   lastMealBalanced: boolean;
 }
 
@@ -35,6 +45,8 @@ export function useArduinoAlarms({
   dailyFiberGoal,
   dayStartTime,
   dayEndTime,
+  timeZone = getBrowserTimeZone(),
+  balanceThreshold = BALANCE_THRESHOLD,
   lastMealBalanced,
 }: UseArduinoAlarmsProps) {
   const { isConnected, sendCommand } = useBluetooth();
@@ -45,9 +57,9 @@ export function useArduinoAlarms({
 
   // Inicializar o resetear estado de alarmas
   useEffect(() => {
-    if (shouldResetAlarms()) {
+    if (shouldResetAlarms(dayStartTime, timeZone)) {
       // Nuevo día - resetear estado
-      const newState = initializeAlarmState(dayStartTime, dayEndTime);
+      const newState = initializeAlarmState(dayStartTime, dayEndTime, timeZone);
       alarmStateRef.current = newState;
   saveAlarmState(newState);
   debugLog("Alarms", "Sistema de alarmas reiniciado para nuevo día");
@@ -59,14 +71,15 @@ export function useArduinoAlarms({
           ...savedState,
           dayStartTime,
           dayEndTime,
+          timeZone,
         };
       } else {
-        const newState = initializeAlarmState(dayStartTime, dayEndTime);
+        const newState = initializeAlarmState(dayStartTime, dayEndTime, timeZone);
         alarmStateRef.current = newState;
         saveAlarmState(newState);
       }
     }
-  }, [dayStartTime, dayEndTime]);
+  }, [dayStartTime, dayEndTime, timeZone]);
 
   // Detectar cuando se registra agua
   useEffect(() => {
@@ -98,30 +111,28 @@ export function useArduinoAlarms({
 
         // Enviar feedback inmediato si está conectado
         if (isConnected) {
-          const proteinMet = totalProtein >= dailyProteinGoal * 0.8;
-          const fiberMet = totalFiber >= dailyFiberGoal * 0.8;
-          const isBalanced = proteinMet && fiberMet;
-
-          if (isBalanced) {
-            sendCommand(LED_COMMANDS.BALANCED);
-            debugLog("Alarms", "LED: Verde - Comida balanceada");
-          } else {
-            sendCommand(LED_COMMANDS.UNBALANCED);
-            debugLog("Alarms", "LED: Naranja - Comida no balanceada");
-          }
+          const balanced = isBalanced(
+            currentMeal,
+            { protein: dailyProteinGoal, fiber: dailyFiberGoal },
+            balanceThreshold
+          );
+          sendCommand(LED_COMMANDS[getMealLedStatus(balanced)]);
+          debugLog("Alarms", balanced ? "LED: Verde - Comida balanceada" : "LED: Naranja - Comida no balanceada");
         }
       }
     }
     lastMealRef.current = currentMeal;
-  }, [totalProtein, totalFiber, isConnected, sendCommand, dailyProteinGoal, dailyFiberGoal]);
+  }, [totalProtein, totalFiber, isConnected, sendCommand, dailyProteinGoal, dailyFiberGoal, balanceThreshold]);
 
   // Actualizar metas cumplidas
   useEffect(() => {
     if (alarmStateRef.current) {
       const waterGoalMet = waterGlasses >= dailyWaterGoal;
-      const proteinMet = totalProtein >= dailyProteinGoal * 0.8;
-      const fiberMet = totalFiber >= dailyFiberGoal * 0.8;
-      const nutritionGoalMet = proteinMet && fiberMet;
+      const nutritionGoalMet = isBalanced(
+        { protein: totalProtein, fiber: totalFiber },
+        { protein: dailyProteinGoal, fiber: dailyFiberGoal },
+        balanceThreshold
+      );
 
       if (
         alarmStateRef.current.waterGoalMet !== waterGoalMet ||
@@ -148,6 +159,7 @@ export function useArduinoAlarms({
     totalFiber,
     dailyProteinGoal,
     dailyFiberGoal,
+    balanceThreshold,
     isConnected,
     sendCommand,
   ]);
@@ -164,19 +176,19 @@ export function useArduinoAlarms({
 
       // Verificar si es hora de fin del día
       if (shouldTriggerDayEnd(state)) {
-        const waterPercentage = (waterGlasses / dailyWaterGoal) * 100;
-        const proteinPercentage = (totalProtein / dailyProteinGoal) * 100;
-        const fiberPercentage = (totalFiber / dailyFiberGoal) * 100;
-        const nutritionPercentage = (proteinPercentage + fiberPercentage) / 2;
-        const totalProgress = (waterPercentage + nutritionPercentage) / 2;
-
-        if (totalProgress >= 80) {
-          sendCommand(LED_COMMANDS.GREAT_FINISH);
-          debugLog("Alarms", "LED: Amarillo - ¡Gran final del día!");
-        } else {
-          sendCommand(LED_COMMANDS.BAD_FINISH);
-          debugLog("Alarms", "LED: Naranja titilante - Necesitas mejorar mañana");
-        }
+        const progress = getDayProgress(
+          { waterGlasses, protein: totalProtein, fiber: totalFiber },
+          { waterGlasses: dailyWaterGoal, protein: dailyProteinGoal, fiber: dailyFiberGoal }
+        );
+        const status = getDayEndLedStatus(progress, balanceThreshold);
+
+        sendCommand(LED_COMMANDS[status]);
+        debugLog(
+          "Alarms",
+          status === "GREAT_FINISH"
+            ? "LED: Amarillo - ¡Gran final del día!"
+            : "LED: Naranja titilante - Necesitas mejorar mañana"
+        );
         return;
       }
 
@@ -230,6 +242,7 @@ export function useArduinoAlarms({
     totalFiber,
     dailyProteinGoal,
     dailyFiberGoal,
+    balanceThreshold,
     sendCommand,
   ]);
 
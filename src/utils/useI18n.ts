@@ -0,0 +1,9 @@
+import { useUser } from "../contexts/UserContext";
+import { createFormatter, getMessages } from "../locales";
+
+// Mensajes y formato en el idioma y las unidades del usuario
+export function useI18n() {
+  const { language, setLanguage, units } = useUser();
+  const m = getMessages(language);
+  return { m, fmt: createFormatter(language, units, m), language, setLanguage };
+}
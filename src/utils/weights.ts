@@ -0,0 +1,103 @@
+import { projectId } from "./supabase/info";
+
+// Peso registrado en un día (uno por fecha, en kg)
+export interface WeightEntry {
+  date: string; // YYYY-MM-DD
+  weight: number; // kg
+  updatedAt: string;
+}
+
+/**
+ * Obtiene el registro de peso, del más antiguo al más reciente
+ */
+export async function getWeights(userId: string, accessToken: string): Promise<WeightEntry[] | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/weights/${userId}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error fetching weight log:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.entries;
+  } catch (error) {
+    console.error("Failed to fetch weight log:", error);
+    return null;
+  }
+}
+
+/**
+ * Registra el peso de un día (reemplaza el de esa fecha). Devuelve el peso
+ * del perfil, que sigue al registro más reciente, o null si falla.
+ */
+export async function saveWeight(
+  userId: string,
+  accessToken: string,
+  date: string,
+  weight: number
+): Promise<number | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/weights/${userId}/${date}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ weight }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error logging weight:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.weight;
+  } catch (error) {
+    console.error("Failed to log weight:", error);
+    return null;
+  }
+}
+
+/**
+ * Elimina el peso de un día. Devuelve el peso del perfil o null si falla.
+ */
+export async function deleteWeight(userId: string, accessToken: string, date: string): Promise<number | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/weights/${userId}/${date}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error deleting weight entry:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.weight;
+  } catch (error) {
+    console.error("Failed to delete weight entry:", error);
+    return null;
+  }
+}
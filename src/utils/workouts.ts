@@ -0,0 +1,108 @@
+import { projectId } from "./supabase/info";
+import { WorkoutIntensity } from "../shared/nutritionRules";
+
+// Entrenamiento registrado en el día (sube la meta de agua de ese día)
+export interface Workout {
+  id: string;
+  durationMin: number;
+  intensity: WorkoutIntensity;
+  createdAt: string;
+}
+
+/**
+ * Registra un entrenamiento de hoy. Devuelve el entrenamiento guardado o null si falla.
+ */
+export async function addWorkout(
+  userId: string,
+  accessToken: string,
+  durationMin: number,
+  intensity: WorkoutIntensity
+): Promise<Workout | null> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/workouts/${userId}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ durationMin, intensity }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error logging workout:", error);
+      return null;
+    }
+
+    const data = await response.json();
+    return data.workout;
+  } catch (error) {
+    console.error("Failed to log workout:", error);
+    return null;
+  }
+}
+
+/**
+ * Elimina un entrenamiento de hoy
+ */
+export async function deleteWorkout(userId: string, accessToken: string, workoutId: string): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/workouts/${userId}/${workoutId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error deleting workout:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to delete workout:", error);
+    return false;
+  }
+}
+
+/**
+ * Guarda la temperatura de hoy (null la borra)
+ */
+export async function setDayTemperature(
+  userId: string,
+  accessToken: string,
+  temperatureC: number | null
+): Promise<boolean> {
+  try {
+    const response = await fetch(
+      `https://${projectId}.supabase.co/functions/v1/make-server-7e221a31/temperature/${userId}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ temperatureC }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Error setting temperature:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Failed to set temperature:", error);
+    return false;
+  }
+}